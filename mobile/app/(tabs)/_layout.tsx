@@ -1,13 +1,31 @@
 import { Tabs } from 'expo-router';
-import React from 'react';
+import React, { useEffect } from 'react';
 
 import { HapticTab } from '@/components/haptic-tab';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useSession } from '@/hooks/use-session';
+import { startBlocks } from '@/lib/blocks';
+import { startPresence } from '@/lib/presence';
 
 export default function TabLayout() {
   const colorScheme = useColorScheme();
+  const { user } = useSession();
+  const userId = user?.id;
+
+  // The tabs are only reachable while signed in, so announce presence for as
+  // long as they are mounted
+  useEffect(() => {
+    if (!userId) return;
+    return startPresence(userId);
+  }, [userId]);
+
+  // Who the user has blocked, for every tab; reloaded when the user changes
+  useEffect(() => {
+    if (!userId) return;
+    return startBlocks();
+  }, [userId]);
 
   return (
     <Tabs
@@ -30,6 +48,13 @@ export default function TabLayout() {
           tabBarIcon: ({ color }) => <IconSymbol size={28} name="house.fill" color={color} />,
         }}
       />
+      <Tabs.Screen
+        name="inbox"
+        options={{
+          title: 'Inbox',
+          tabBarIcon: ({ color }) => <IconSymbol size={28} name="tray.fill" color={color} />,
+        }}
+      />
       <Tabs.Screen
         name="chat"
         options={{
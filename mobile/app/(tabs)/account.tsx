@@ -1,42 +1,320 @@
-import { Alert, Button, StyleSheet, View, Text } from 'react-native';
+import { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Button,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 
+import { UserAvatar } from '@/components/user-avatar';
+import { useBlockedUserIds } from '@/hooks/use-blocks';
+import { useProfiles } from '@/hooks/use-profiles';
+import { useSession } from '@/hooks/use-session';
+import { unblockUser } from '@/lib/blocks';
+import { isDataError, moderationRepository, profileRepository } from '@/lib/data';
+import { cacheProfiles } from '@/lib/localCache';
+import { requestProfiles } from '@/lib/profileCache';
+import { HANDLE_PATTERN, MAX_BIO_LENGTH, normalizeHandle, pickAvatar, uploadAvatar } from '@/lib/profiles';
 import { supabase } from '@/lib/supabaseClient';
 
+// Profile editor: display name, @handle, bio and avatar. The handle is checked
+// for availability while typing; the unique index on profiles has the final
+// say when saving. Below it, the people the user has blocked, to unblock, and
+// for moderators a way into the review queue.
+
+// 'cleared' when the field is emptied, which removes the handle on save
+type HandleStatus = 'unchanged' | 'cleared' | 'invalid' | 'checking' | 'available' | 'taken';
+
+// Wait for a pause in typing before asking the server about a handle
+const HANDLE_CHECK_DELAY_MS = 400;
+
 export default function AccountScreen() {
   const router = useRouter();
+  const { profile, setProfile, refreshProfile } = useSession();
+  const blockedUserIds = useBlockedUserIds();
+  const cachedProfiles = useProfiles();
+  const [name, setName] = useState('');
+  const [handle, setHandle] = useState('');
+  const [bio, setBio] = useState('');
+  // Which profile the fields were last filled from
+  const [formProfileId, setFormProfileId] = useState<string | null>(null);
+  const [handleStatus, setHandleStatus] = useState<HandleStatus>('unchanged');
+  const [saving, setSaving] = useState(false);
+  const [uploadingAvatar, setUploadingAvatar] = useState(false);
+  const [canModerate, setCanModerate] = useState(false);
+
+  // Fill the form once the session's profile arrives
+  if (profile && formProfileId !== profile.id) {
+    setFormProfileId(profile.id);
+    setName(profile.username ?? '');
+    setHandle(profile.handle ?? '');
+    setBio(profile.bio ?? '');
+  }
+
+  const normalizedHandle = normalizeHandle(handle);
+
+  // Names for the blocked list
+  useEffect(() => {
+    requestProfiles(blockedUserIds);
+  }, [blockedUserIds]);
+
+  const profileId = profile?.id;
+  useEffect(() => {
+    if (!profileId) return;
+    let cancelled = false;
+    moderationRepository
+      .hasAccess()
+      .then((access) => {
+        if (!cancelled) setCanModerate(access);
+      })
+      .catch((error) => console.error('Error checking moderation access', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [profileId]);
+
+  useEffect(() => {
+    if (!profile || normalizedHandle === (profile.handle ?? '')) {
+      setHandleStatus('unchanged');
+      return;
+    }
+    if (!normalizedHandle) {
+      setHandleStatus('cleared');
+      return;
+    }
+    if (!HANDLE_PATTERN.test(normalizedHandle)) {
+      setHandleStatus('invalid');
+      return;
+    }
+
+    setHandleStatus('checking');
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      profileRepository
+        .isHandleAvailable(normalizedHandle)
+        .then((available) => {
+          if (!cancelled) setHandleStatus(available ? 'available' : 'taken');
+        })
+        .catch((error) => {
+          console.error('Error checking handle', error);
+          // Let the save decide; the unique index still protects the handle
+          if (!cancelled) setHandleStatus('available');
+        });
+    }, HANDLE_CHECK_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [normalizedHandle, profile]);
+
+  const dirty =
+    profile !== null &&
+    (name.trim() !== (profile.username ?? '') ||
+      normalizedHandle !== (profile.handle ?? '') ||
+      bio.trim() !== (profile.bio ?? ''));
+  const canSave =
+    dirty &&
+    !saving &&
+    name.trim().length > 0 &&
+    (handleStatus === 'unchanged' || handleStatus === 'cleared' || handleStatus === 'available');
+
+  const handleSave = async () => {
+    if (!profile || !canSave) return;
+
+    setSaving(true);
+    try {
+      const updated = await profileRepository.update(profile.id, {
+        username: name.trim(),
+        // An empty field clears the handle
+        handle: normalizedHandle || null,
+        bio: bio.trim() || null,
+      });
+      setProfile(updated);
+      setName(updated.username ?? '');
+      setHandle(updated.handle ?? '');
+      setBio(updated.bio ?? '');
+      cacheProfiles([updated]).catch((error) => console.error('Error caching profile', error));
+    } catch (error) {
+      if (isDataError(error, 'conflict')) {
+        setHandleStatus('taken');
+        return;
+      }
+      console.error('Error saving profile', error);
+      Alert.alert('Could not save profile', 'Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleChangeAvatar = async () => {
+    if (!profile) return;
+
+    try {
+      const uri = await pickAvatar();
+      if (!uri) return;
+
+      setUploadingAvatar(true);
+      const avatarUrl = await uploadAvatar(profile.id, uri);
+      const updated = { ...profile, avatar_url: avatarUrl };
+      setProfile(updated);
+      cacheProfiles([updated]).catch((error) => console.error('Error caching profile', error));
+    } catch (error) {
+      console.error('Error uploading avatar', error);
+      Alert.alert('Could not update photo', 'Please try again.');
+    } finally {
+      setUploadingAvatar(false);
+    }
+  };
+
+  const handleUnblock = (userId: string) => {
+    unblockUser(userId).catch((error) => {
+      console.error('Error unblocking user', error);
+      Alert.alert('Unblock failed', 'Please try again.');
+    });
+  };
 
   const handleSignOut = async () => {
+    // The root layout's guard takes us back to the sign-in screen
     const { error } = await supabase.auth.signOut();
     if (error) {
       Alert.alert('Sign out error', error.message ?? 'Something went wrong');
-      return;
     }
-    router.replace('/auth');
   };
 
+  const handleHint = {
+    unchanged: null,
+    cleared: 'Your handle will be removed.',
+    invalid: '3–20 lowercase letters, numbers or underscores.',
+    checking: 'Checking availability…',
+    available: `@${normalizedHandle} is available.`,
+    taken: `@${normalizedHandle} is already taken.`,
+  }[handleStatus];
+
   return (
-    <View style={styles.container}>
-      <View style={styles.content}>
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
         <Text style={styles.title}>Account</Text>
-        <Text style={styles.subtitle}>You are signed in. You can sign out below.</Text>
-      </View>
+        {profile ? (
+          <>
+            <Pressable
+              onPress={handleChangeAvatar}
+              disabled={uploadingAvatar}
+              accessibilityRole="button"
+              accessibilityLabel="Change profile photo"
+              style={styles.avatar}>
+              <UserAvatar
+                id={profile.id}
+                name={name || profile.username}
+                avatarUrl={profile.avatar_url}
+                size={96}
+              />
+              {uploadingAvatar ? <ActivityIndicator style={StyleSheet.absoluteFill} /> : null}
+              <Text style={styles.avatarLabel}>Change photo</Text>
+            </Pressable>
+
+            <Text style={styles.label}>Display name</Text>
+            <TextInput style={styles.input} value={name} onChangeText={setName} maxLength={50} />
+
+            <Text style={styles.label}>Handle</Text>
+            <View style={styles.handleRow}>
+              <Text style={styles.handlePrefix}>@</Text>
+              <TextInput
+                style={[styles.input, styles.handleInput]}
+                value={handle}
+                onChangeText={setHandle}
+                autoCapitalize="none"
+                autoCorrect={false}
+                maxLength={21}
+              />
+            </View>
+            {handleHint ? (
+              <Text
+                style={[
+                  styles.hint,
+                  (handleStatus === 'invalid' || handleStatus === 'taken') && styles.hintError,
+                  handleStatus === 'available' && styles.hintSuccess,
+                ]}>
+                {handleHint}
+              </Text>
+            ) : null}
+
+            <Text style={styles.label}>Bio</Text>
+            <TextInput
+              style={[styles.input, styles.bioInput]}
+              value={bio}
+              onChangeText={setBio}
+              maxLength={MAX_BIO_LENGTH}
+              multiline
+            />
+            <Text style={styles.counter}>
+              {bio.length}/{MAX_BIO_LENGTH}
+            </Text>
+
+            <Button title={saving ? 'Saving…' : 'Save profile'} onPress={handleSave} disabled={!canSave} />
+
+            {canModerate ? (
+              <Button title="Moderation queue" onPress={() => router.push('/moderation')} />
+            ) : null}
+
+            {blockedUserIds.size > 0 ? (
+              <>
+                <Text style={styles.sectionTitle}>Blocked people</Text>
+                {Array.from(blockedUserIds, (blockedId) => {
+                  const blocked = cachedProfiles.get(blockedId);
+                  return (
+                    <View key={blockedId} style={styles.blockedRow}>
+                      <UserAvatar
+                        id={blockedId}
+                        name={blocked?.username ?? null}
+                        avatarUrl={blocked?.avatar_url ?? null}
+                        size={32}
+                      />
+                      <Text style={styles.blockedName} numberOfLines={1}>
+                        {blocked?.username ?? 'Unknown user'}
+                      </Text>
+                      <Button title="Unblock" onPress={() => handleUnblock(blockedId)} />
+                    </View>
+                  );
+                })}
+              </>
+            ) : null}
+          </>
+        ) : (
+          <View style={styles.centered}>
+            <ActivityIndicator />
+            <Button title="Try again" onPress={() => refreshProfile()} />
+          </View>
+        )}
+      </ScrollView>
       <View style={styles.footer}>
         <View style={styles.spacer} />
         <Button title="Sign Out" onPress={handleSignOut} />
       </View>
-    </View>
+    </SafeAreaView>
   );
 }
 
 const styles = StyleSheet.create({
   container: {
     flex: 1,
-    padding: 16,
+    paddingHorizontal: 16,
+  },
+  centered: {
+    alignItems: 'center',
+    paddingVertical: 32,
+    gap: 12,
   },
   content: {
-    flex: 1,
-    justifyContent: 'center',
+    paddingVertical: 16,
+    gap: 8,
   },
   title: {
     fontSize: 24,
@@ -44,14 +322,76 @@ const styles = StyleSheet.create({
     marginBottom: 8,
     textAlign: 'center',
   },
-  subtitle: {
+  avatar: {
+    alignSelf: 'center',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  avatarLabel: {
+    marginTop: 6,
     fontSize: 14,
-    textAlign: 'center',
+    color: '#0a7ea4',
+  },
+  label: {
+    marginTop: 8,
+    fontSize: 13,
+    color: '#555',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 8,
+    padding: 10,
+  },
+  handleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  handlePrefix: {
+    fontSize: 16,
     color: '#555',
   },
+  handleInput: {
+    flex: 1,
+  },
+  bioInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#888',
+  },
+  hintError: {
+    color: '#dc2626',
+  },
+  hintSuccess: {
+    color: '#16a34a',
+  },
+  counter: {
+    alignSelf: 'flex-end',
+    fontSize: 12,
+    color: '#888',
+  },
+  sectionTitle: {
+    marginTop: 24,
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  blockedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  blockedName: {
+    flex: 1,
+    fontSize: 16,
+  },
   footer: {
     flexDirection: 'row',
     justifyContent: 'flex-end',
+    paddingVertical: 8,
   },
   spacer: {
     flex: 1,
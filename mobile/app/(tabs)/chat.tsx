@@ -1,12 +1,87 @@
-import { useEffect, useState, useCallback } from 'react';
-import { ActivityIndicator, StyleSheet, View } from 'react-native';
-import { useLocalSearchParams, useRouter } from 'expo-router';
-import { Bubble, GiftedChat, IMessage, User } from 'react-native-gifted-chat';
+import { useEffect, useState, useCallback, useMemo, useRef, type ComponentProps } from 'react';
+import { ActivityIndicator, Alert, FlatList, StyleSheet, Text, View, type ViewToken } from 'react-native';
+import { useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
+import * as Clipboard from 'expo-clipboard';
+import * as Crypto from 'expo-crypto';
+import { Bubble, GiftedChat, IMessage, MessageText, Send, User } from 'react-native-gifted-chat';
 
-import { supabase } from '@/lib/supabaseClient';
+import { ChatHeader } from '@/components/chat-header';
+import { ConnectionBanner } from '@/components/connection-banner';
+import { ImageViewer } from '@/components/image-viewer';
+import { MessageAttachmentView } from '@/components/message-attachment';
+import { MessageActions, type MessageAction } from '@/components/message-actions';
+import { QuotedMessage, type QuotedMessagePreview } from '@/components/quoted-message';
+import { ReactionChips } from '@/components/reaction-chips';
+import { ReadReceipts, type ReadReceiptReader } from '@/components/read-receipts';
+import { ReplyThread } from '@/components/reply-thread';
+import { ReportMessageSheet } from '@/components/report-message-sheet';
+import { SwipeToReply } from '@/components/swipe-to-reply';
+import { VoiceRecordButton, type VoiceRecording } from '@/components/voice-record-button';
+import { useAttachmentUrl } from '@/hooks/use-attachment-url';
+import { useBlockedUserIds } from '@/hooks/use-blocks';
+import { useOutbox } from '@/hooks/use-outbox';
+import { useOnlineUserIds } from '@/hooks/use-presence';
+import { useProfiles } from '@/hooks/use-profiles';
+import { useSession } from '@/hooks/use-session';
+import { formatTypingLabel, useTypingIndicator } from '@/hooks/use-typing-indicator';
+import {
+  MAX_ATTACHMENT_BYTES,
+  describeAttachment,
+  formatFileSize,
+  pickAttachment,
+  prepareAttachment,
+  removeAttachment,
+  toMessageAttachment,
+  type AttachmentSource,
+  type PickedFile,
+} from '@/lib/attachments';
+import { getMessagePreviewText, mergeMessages, type ChatMessage } from '@/lib/chatMessages';
+import {
+  memberRepository,
+  messageRepository,
+  profileRepository,
+  reactionRepository,
+  roomRepository,
+  type MessageCursor,
+  type MessageRow,
+  type ReadPointer,
+} from '@/lib/data';
+import { formatLastSeen } from '@/lib/format';
+import {
+  cacheMessages,
+  cacheRoom,
+  getCachedMessages,
+  type CachedMessage,
+  getCachedRoom,
+  getCachedOpenRoomByName,
+} from '@/lib/localCache';
+import { describeVerdict, moderateMessage, type ModerationResult, type ReportReason } from '@/lib/moderation';
+import {
+  acknowledgeOutboxWarning,
+  discardOutbox,
+  enqueueOutbox,
+  flushOutbox,
+  retryOutbox,
+  reviseOutbox,
+  type SentMessageRow,
+} from '@/lib/outbox';
+import { getProfiles, requestProfiles, seedProfiles } from '@/lib/profileCache';
+import {
+  QUICK_REACTIONS,
+  isSameReaction,
+  mergeReactions,
+  summarizeReactions,
+  type ReactionRow,
+} from '@/lib/reactions';
+import { subscribeToRoom } from '@/lib/realtime';
+import { setActiveClip, toVoiceNoteFile } from '@/lib/voiceNotes';
 
-// Minimal chat screen: inline email/password auth, find-or-create "General" room,
-// and real-time messages for that room via Supabase.
+// A room's conversation: the room passed as `roomId` (from the inbox, a new
+// group, a DM or an invite), or the shared "General" room when there is none.
+// Cached messages render first and the server page replaces them; realtime,
+// the outbox, reactions, replies, threads, read receipts and typing all hang
+// off the open room. Signing in happens before this screen (see the root
+// layout).
 
 type Profile = {
   id: string;
@@ -14,209 +89,493 @@ type Profile = {
   avatar_url: string | null;
 };
 
-type MessageRow = {
-  id: number;
-  body: string;
-  created_at: string;
-  user_id: string | null;
-  profiles: Profile | null;
+type RoomDetails = {
+  id: string;
+  name: string | null;
+  is_direct: boolean;
+  avatar_path: string | null;
+  // Archived rooms are read-only
+  archived_at: string | null;
+  // The other participant of a direct room
+  other: (Profile & { last_seen_at: string | null }) | null;
 };
 
 const GENERAL_ROOM_NAME = 'General';
+const PAGE_SIZE = 50;
+const DELETED_PLACEHOLDER = 'This message was deleted';
+const BLOCKED_PLACEHOLDER = 'Message from someone you blocked. Tap to show.';
+// How long a message stays highlighted after jumping to it from a quote
+const HIGHLIGHT_MS = 1500;
 
 export default function ChatScreen() {
   const router = useRouter();
   const { roomId: roomIdParam } = useLocalSearchParams<{ roomId?: string }>();
-  const [loading, setLoading] = useState(true);
-  const [user, setUser] = useState<Awaited<ReturnType<typeof supabase.auth.getUser>>['data']['user'] | null>(
-    null
-  );
-  const [profile, setProfile] = useState<Profile | null>(null);
+  const { user, profile } = useSession();
+  const userId = user?.id;
   const [roomId, setRoomId] = useState<string | null>(null);
-  const [messages, setMessages] = useState<IMessage[]>([]);
+  const [roomDetails, setRoomDetails] = useState<RoomDetails | null>(null);
+  const [readPointers, setReadPointers] = useState<ReadPointer[]>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [hasEarlier, setHasEarlier] = useState(false);
+  const [loadingEarlier, setLoadingEarlier] = useState(false);
+  const [composerText, setComposerText] = useState('');
+  const [editingMessage, setEditingMessage] = useState<ChatMessage | null>(null);
+  const [reactions, setReactions] = useState<ReactionRow[]>([]);
+  // Message whose long-press sheet is open
+  const [actionMessage, setActionMessage] = useState<ChatMessage | null>(null);
+  const [reportingMessage, setReportingMessage] = useState<ChatMessage | null>(null);
+  // Messages from blocked people the user tapped to read anyway
+  const [revealedIds, setRevealedIds] = useState<ReadonlySet<ChatMessage['_id']>>(new Set());
+  const [replyingTo, setReplyingTo] = useState<ChatMessage | null>(null);
+  // Quoted parents that are not among the loaded messages
+  const [replyParents, setReplyParents] = useState<Map<number, QuotedMessagePreview>>(new Map());
+  const [threadParent, setThreadParent] = useState<ChatMessage | null>(null);
+  const [threadReplies, setThreadReplies] = useState<ChatMessage[]>([]);
+  const [threadLoading, setThreadLoading] = useState(false);
+  const [highlightedId, setHighlightedId] = useState<number | null>(null);
+  const [attachMenuVisible, setAttachMenuVisible] = useState(false);
+  const [viewerUri, setViewerUri] = useState<string | null>(null);
+  const messagesContainerRef = useRef<FlatList<ChatMessage>>(null);
+  const requestedParentIdsRef = useRef(new Set<number>());
+  const cursorRef = useRef<MessageCursor | null>(null);
+  const activeRoomIdRef = useRef<string | null>(null);
+  const isFocusedRef = useRef(false);
+  // Newest message id currently on screen, and the last one reported as read
+  const lastVisibleIdRef = useRef<number | null>(null);
+  const lastReportedIdRef = useRef<number | null>(null);
+  // Newest server message loaded, where a backfill after a reconnect resumes
+  const newestIdRef = useRef<number | null>(null);
 
-  // Check existing session on mount
+  // The session provider restores the stored session before the tabs mount,
+  // so this also works offline
   useEffect(() => {
+    if (!userId) return;
+
+    let unsubscribe: (() => void) | null = null;
+    let cancelled = false;
+
     const init = async () => {
-      setLoading(true);
       try {
-        const {
-          data: { user },
-        } = await supabase.auth.getUser();
-        if (!user) {
-          setUser(null);
-          return;
+        let activeRoomId: string | null =
+          roomIdParam && typeof roomIdParam === 'string'
+            ? roomIdParam
+            : ((await getCachedOpenRoomByName(userId, GENERAL_ROOM_NAME).catch(() => null))?.id ?? null);
+
+        // Render whatever we have on device before touching the network
+        if (activeRoomId) {
+          await showRoom(activeRoomId);
+          if (cancelled) return;
+        }
+
+        if (!activeRoomId) {
+          activeRoomId = (await getOrCreateGeneralRoom(userId)).id;
+          await showRoom(activeRoomId);
         }
-        setUser(user);
-        await ensureProfile(user.id, user.email ?? undefined);
-        if (roomIdParam && typeof roomIdParam === 'string') {
-          setRoomId(roomIdParam);
-          await loadMessages(roomIdParam);
-          subscribeToMessages(roomIdParam);
-        } else {
-          const room = await getOrCreateGeneralRoom(user.id);
-          setRoomId(room.id);
-          await loadMessages(room.id);
-          subscribeToMessages(room.id);
+
+        loadRoomDetails(activeRoomId, userId);
+        const page = await loadMessages(activeRoomId);
+        if (cancelled) return;
+        if (page) {
+          // The server page is authoritative for the newest window
+          setMessages(page);
         }
+        loadReadPointers(activeRoomId);
+        unsubscribe = subscribeToRoomChanges(activeRoomId);
       } catch (error) {
         console.error('Error initializing chat', error);
-      } finally {
-        setLoading(false);
       }
     };
 
     init();
 
     return () => {
-      // Cleanup subscriptions when screen unmounts
-      supabase.removeAllChannels();
+      cancelled = true;
+      setActiveClip(null);
+      unsubscribe?.();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [roomIdParam]);
-
-  const ensureProfile = async (userId: string, email?: string) => {
-    const username = email ?? `user-${userId.slice(0, 8)}`;
-    const { error } = await supabase
-      .from('profiles')
-      .upsert({ id: userId, username }, { onConflict: 'id' });
-    if (error) {
-      console.error('Error upserting profile', error);
-      return;
-    }
+  }, [roomIdParam, userId]);
+
+  useEffect(() => {
+    newestIdRef.current = messages.reduce<number | null>(
+      (newest, m) => (typeof m._id === 'number' && (newest === null || m._id > newest) ? m._id : newest),
+      null
+    );
+  }, [messages]);
+
+  // Track focus so messages arriving while another tab is visible stay unread
+  useFocusEffect(
+    useCallback(() => {
+      isFocusedRef.current = true;
+      // Viewability does not fire again for messages that arrived while
+      // another tab was showing, so report what is on screen now
+      reportRead();
+      return () => {
+        isFocusedRef.current = false;
+        // Tabs stay mounted, so stop voice notes when leaving the screen
+        setActiveClip(null);
+      };
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [roomId])
+  );
 
-    const { data } = await supabase
-      .from('profiles')
-      .select('id, username, avatar_url')
-      .eq('id', userId)
-      .single();
+  const onlineUserIds = useOnlineUserIds();
+  const roomAvatarUrl = useAttachmentUrl(roomDetails?.avatar_path ?? null);
 
-    if (data) {
-      setProfile(data as Profile);
+  // Group rooms: who stopped reading at which message. Direct rooms: whether
+  // the other person has read my latest message.
+  const readersByMessageId = useMemo(() => {
+    const map = new Map<number, ReadReceiptReader[]>();
+    if (!user || roomDetails?.is_direct) return map;
+
+    for (const pointer of readPointers) {
+      if (pointer.userId === user.id || pointer.lastReadMessageId === null) continue;
+      const readers = map.get(pointer.lastReadMessageId) ?? [];
+      readers.push({
+        id: pointer.userId,
+        name: pointer.profile?.username ?? null,
+        avatarUrl: pointer.profile?.avatar_url ?? null,
+      });
+      map.set(pointer.lastReadMessageId, readers);
     }
+    return map;
+  }, [readPointers, roomDetails?.is_direct, user]);
+
+  const reactionsByMessageId = useMemo(
+    () => summarizeReactions(reactions, user?.id ?? null),
+    [reactions, user]
+  );
+
+  const seenMessageId = useMemo(() => {
+    if (!user || !roomDetails?.is_direct) return null;
+
+    const myLatest = messages.find((m) => m.user._id === user.id && typeof m._id === 'number');
+    const otherPointer = readPointers.find((pointer) => pointer.userId !== user.id);
+    if (!myLatest || !otherPointer?.lastReadAt) return null;
+
+    return new Date(otherPointer.lastReadAt).getTime() >= new Date(myLatest.createdAt).getTime()
+      ? myLatest._id
+      : null;
+  }, [messages, readPointers, roomDetails?.is_direct, user]);
+
+  const typingSelf = useMemo(
+    () => (user ? { userId: user.id, name: profile?.username ?? user.email ?? 'Someone' } : null),
+    [user, profile]
+  );
+  const { typingUsers, notifyTyping, stopTyping, clearTyping } = useTypingIndicator(roomId, typingSelf);
+
+  // The local cache is kept per account
+  const cacheRoomMessages = (rows: CachedMessage[]) => {
+    if (!userId) return;
+    cacheMessages(userId, rows).catch((error) => console.error('Error caching messages', error));
   };
 
-  const getOrCreateGeneralRoom = async (userId: string) => {
-    // Try to find existing "General" room
-    const { data: existing, error: selectError } = await supabase
-      .from('rooms')
-      .select('id, name')
-      .eq('name', GENERAL_ROOM_NAME)
-      .limit(1)
-      .maybeSingle();
+  // Switches the screen to a room and fills it from the local cache.
+  const showRoom = async (roomId: string) => {
+    if (!userId) return;
+    activeRoomIdRef.current = roomId;
+    setRoomId(roomId);
+    setRoomDetails(null);
+    setReadPointers([]);
+    setReactions([]);
+    setReplyingTo(null);
+    setReplyParents(new Map());
+    requestedParentIdsRef.current = new Set();
+    cursorRef.current = null;
+    lastVisibleIdRef.current = null;
+    lastReportedIdRef.current = null;
 
-    if (selectError && selectError.code !== 'PGRST116') {
-      // PGRST116 is "row not found" for maybeSingle
-      throw selectError;
+    const [cached, cachedRoom] = await Promise.all([
+      getCachedMessages(userId, roomId).catch((error) => {
+        console.error('Error reading cached messages', error);
+        return [];
+      }),
+      getCachedRoom(userId, roomId).catch(() => null),
+    ]);
+    if (activeRoomIdRef.current !== roomId) return;
+
+    if (cachedRoom) {
+      setRoomDetails({
+        id: cachedRoom.room_id,
+        name: cachedRoom.name,
+        is_direct: cachedRoom.is_direct,
+        avatar_path: null,
+        archived_at: null,
+        other: cachedRoom.other_user_id
+          ? {
+              id: cachedRoom.other_user_id,
+              username: cachedRoom.other_username,
+              avatar_url: cachedRoom.other_avatar_url,
+              last_seen_at: null,
+            }
+          : null,
+      });
     }
 
-    if (existing) {
-      await ensureRoomMember(existing.id, userId);
-      return existing as { id: string; name: string | null };
+    const oldest = cached[cached.length - 1];
+    if (oldest) {
+      cursorRef.current = { createdAt: oldest.created_at, id: oldest.id };
     }
+    setHasEarlier(cached.length > 0);
+    setMessages(cached.map(toGiftedMessage));
+  };
 
-    // Create room if it does not exist
-    const { data: created, error: insertError } = await supabase
-      .from('rooms')
-      .insert({ name: GENERAL_ROOM_NAME, is_direct: false, created_by: userId })
-      .select('id, name')
-      .single();
+  // Room name and, for direct rooms, the other participant shown in the header
+  const loadRoomDetails = async (roomId: string, userId: string) => {
+    try {
+      const room = await roomRepository.get(roomId);
 
-    if (insertError || !created) {
-      throw insertError;
+      let other: RoomDetails['other'] = null;
+      if (room.is_direct) {
+        const otherId = await memberRepository.findOtherMemberId(roomId, userId);
+        if (otherId) {
+          other = await profileRepository.getSummary(otherId);
+          seedProfiles([other]);
+        }
+      }
+
+      if (activeRoomIdRef.current === roomId) {
+        setRoomDetails({ ...room, other });
+      }
+    } catch (error) {
+      console.error('Error loading room', error);
     }
+  };
 
-    await ensureRoomMember(created.id, userId);
-    return created as { id: string; name: string | null };
+  const markRoomRead = (roomId: string, messageId: number) => {
+    memberRepository
+      .markRead(roomId, messageId)
+      .catch((error) => console.error('Error marking room as read', error));
   };
 
-  const ensureRoomMember = async (roomId: string, userId: string) => {
-    const { data, error } = await supabase
-      .from('room_members')
-      .select('room_id, user_id')
-      .eq('room_id', roomId)
-      .eq('user_id', userId)
-      .maybeSingle();
+  // Advances our read pointer to the newest visible message, but only while
+  // the screen is focused and only forwards.
+  const reportRead = () => {
+    const roomId = activeRoomIdRef.current;
+    const visibleId = lastVisibleIdRef.current;
+    if (!roomId || visibleId === null || !isFocusedRef.current) return;
+    if (lastReportedIdRef.current !== null && visibleId <= lastReportedIdRef.current) return;
 
-    if (error && error.code !== 'PGRST116') {
-      console.error('Error checking room_members', error);
-      return;
+    lastReportedIdRef.current = visibleId;
+    markRoomRead(roomId, visibleId);
+  };
+
+  // FlatList requires a stable onViewableItemsChanged, hence the refs
+  const viewabilityConfigRef = useRef({ itemVisiblePercentThreshold: 50 });
+  const onViewableItemsChangedRef = useRef((info: { viewableItems: ViewToken<ChatMessage>[] }) => {
+    // The list is newest-first, so the first server message is the newest
+    const newest = info.viewableItems
+      .filter((token) => typeof token.item?._id === 'number')
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))[0];
+    if (!newest) return;
+
+    const id = newest.item._id as number;
+    if (lastVisibleIdRef.current === null || id > lastVisibleIdRef.current) {
+      lastVisibleIdRef.current = id;
     }
+    reportRead();
+  });
 
-    if (!data) {
-      const { error: insertError } = await supabase
-        .from('room_members')
-        .insert({ room_id: roomId, user_id: userId, role: 'member' });
-      if (insertError) {
-        console.error('Error inserting room_member', insertError);
+  const loadReadPointers = async (roomId: string) => {
+    try {
+      const pointers = await memberRepository.listReadPointers(roomId);
+      if (activeRoomIdRef.current === roomId) {
+        setReadPointers(pointers);
       }
+    } catch (error) {
+      console.error('Error loading read receipts', error);
     }
   };
 
-  const loadMessages = async (roomId: string) => {
-    const { data, error } = await supabase
-      .from('messages')
-      .select('id, body, created_at, user_id, profiles:profiles!messages_user_id_fkey (id, username, avatar_url)')
-      .eq('room_id', roomId)
-      .order('created_at', { ascending: false })
-      .limit(50);
+  const getOrCreateGeneralRoom = async (userId: string) => {
+    const room =
+      (await roomRepository.findOpenByName(GENERAL_ROOM_NAME)) ??
+      (await roomRepository.create({ name: GENERAL_ROOM_NAME, createdBy: userId }));
 
-    if (error) {
+    await memberRepository
+      .ensure(room.id, userId)
+      .catch((error) => console.error('Error joining room', error));
+    cacheRoom(userId, room).catch((error) => console.error('Error caching room', error));
+    return room;
+  };
+
+  // Fetches one page of messages older than `before` (or the newest page when
+  // no cursor is given) and advances the cursor to the oldest row returned.
+  const loadMessages = async (roomId: string, before?: MessageCursor | null) => {
+    let rows: MessageRow[];
+    try {
+      rows = await messageRepository.listPage(roomId, { before, limit: PAGE_SIZE });
+    } catch (error) {
       console.error('Error loading messages', error);
-      return;
+      return null;
+    }
+
+    seedProfiles(rows.map((row) => row.profiles));
+    if (!before) {
+      cacheRoomMessages(rows);
     }
+    const oldest = rows[rows.length - 1];
+    if (oldest) {
+      cursorRef.current = { createdAt: oldest.created_at, id: oldest.id };
+    }
+    setHasEarlier(rows.length === PAGE_SIZE);
+    loadReactions(roomId, rows.map((row) => row.id));
 
-    const mapped = (data as MessageRow[]).map(toGiftedMessage);
-    setMessages(mapped);
+    return rows.map(toGiftedMessage);
   };
 
-  const subscribeToMessages = (roomId: string) => {
-    const channel = supabase
-      .channel('room-messages')
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'messages',
-          filter: `room_id=eq.${roomId}`,
-        },
-        async (payload) => {
-          const newRow = payload.new as MessageRow;
-
-          // For consistency, fetch profile for the new message
-          let profile: Profile | null = null;
-          if (newRow.user_id) {
-            const { data } = await supabase
-              .from('profiles')
-              .select('id, username, avatar_url')
-              .eq('id', newRow.user_id)
-              .single();
-            if (data) {
-              profile = data as Profile;
-            }
+  const loadReactions = async (roomId: string, messageIds: number[]) => {
+    try {
+      const rows = await reactionRepository.listForMessages(messageIds);
+      if (activeRoomIdRef.current === roomId) {
+        setReactions((prev) => mergeReactions(prev, rows));
+      }
+    } catch (error) {
+      console.error('Error loading reactions', error);
+    }
+  };
+
+  const handleLoadEarlier = useCallback(async () => {
+    if (!roomId || loadingEarlier || !cursorRef.current) return;
+
+    setLoadingEarlier(true);
+    try {
+      const page = await loadMessages(roomId, cursorRef.current);
+      // Ignore pages that resolve after the user has switched rooms
+      if (page && activeRoomIdRef.current === roomId) {
+        setMessages((prev) => mergeMessages(prev, page));
+      }
+    } finally {
+      setLoadingEarlier(false);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [roomId, loadingEarlier]);
+
+  // Shown right away, in order; an author who is not cached yet is filled in
+  // by the profile cache once their profile loads
+  const handleMessageInsert = (newRow: Omit<MessageRow, 'profiles'>) => {
+    if (newRow.user_id) {
+      // Their message landed, so they are no longer typing it
+      clearTyping(newRow.user_id);
+    }
+
+    const profile = newRow.user_id ? (getProfiles().get(newRow.user_id) ?? null) : null;
+    const msg = toGiftedMessage({ ...newRow, profiles: profile });
+    cacheRoomMessages([{ ...newRow, profiles: profile }]);
+    setMessages((prev) => {
+      // If we've already appended this message (e.g. optimistically), skip
+      if (prev.some((m) => m._id === msg._id)) {
+        return prev;
+      }
+      return mergeMessages(prev, [msg]);
+    });
+  };
+
+  // Realtime does not replay what happened while the channel was down, so
+  // fetch everything after the newest message we have. A gap longer than a
+  // page replaces the list with the newest page instead.
+  const backfillMessages = async (roomId: string) => {
+    const afterId = newestIdRef.current;
+    try {
+      const rows = afterId === null ? [] : await messageRepository.listNewer(roomId, afterId, PAGE_SIZE);
+      if (activeRoomIdRef.current !== roomId) return;
+
+      if (afterId === null || rows.length === PAGE_SIZE) {
+        const page = await loadMessages(roomId);
+        if (page && activeRoomIdRef.current === roomId) {
+          setMessages(page);
+        }
+      } else if (rows.length > 0) {
+        seedProfiles(rows.map((row) => row.profiles));
+        setMessages((prev) => mergeMessages(prev, rows.map(toGiftedMessage)));
+        cacheRoomMessages(rows);
+        loadReactions(roomId, rows.map((row) => row.id));
+      }
+      loadReadPointers(roomId);
+    } catch (error) {
+      console.error('Error backfilling messages', error);
+    }
+  };
+
+  const subscribeToRoomChanges = (roomId: string) =>
+    subscribeToRoom(roomId, (event) => {
+      if (event.type === 'resync') {
+        backfillMessages(roomId);
+        return;
+      }
+      if (event.type === 'reaction_removed') {
+        const removed = event.reaction;
+        setReactions((prev) => prev.filter((row) => !isSameReaction(row, removed)));
+        return;
+      }
+      if (event.type !== 'change') return;
+
+      switch (event.table) {
+        case 'messages':
+          if (event.payload.eventType === 'INSERT') {
+            handleMessageInsert(event.payload.new as Omit<MessageRow, 'profiles'>);
+          } else if (event.payload.eventType === 'UPDATE') {
+            applyMessageUpdate(event.payload.new as Omit<MessageRow, 'profiles'>);
+          } else {
+            const { id } = event.payload.old;
+            if (id === undefined) return;
+            setMessages((prev) =>
+              prev.map((m) => (m._id === id ? { ...m, text: DELETED_PLACEHOLDER, deleted: true } : m))
+            );
           }
+          return;
 
-          const msg = toGiftedMessage({ ...newRow, profiles: profile });
-          setMessages((prev) => {
-            // If we've already appended this message (e.g. optimistically), skip
-            if (prev.some((m) => m._id === msg._id)) {
-              return prev;
-            }
-            return GiftedChat.append(prev, [msg]);
-          });
+        case 'room_members': {
+          if (event.payload.eventType !== 'UPDATE') return;
+          const member = event.payload.new;
+          setReadPointers((prev) =>
+            prev.map((pointer) =>
+              pointer.userId === member.user_id
+                ? {
+                    ...pointer,
+                    lastReadMessageId: member.last_read_message_id,
+                    lastReadAt: member.last_read_at,
+                  }
+                : pointer
+            )
+          );
+          return;
         }
-      )
-      .subscribe((status) => {
-        if (status === 'SUBSCRIBED') {
-          console.log('Subscribed to room messages');
+
+        case 'rooms': {
+          // Renames, new avatars and archiving from the room details screen
+          if (event.payload.eventType !== 'UPDATE') return;
+          const room = event.payload.new;
+          setRoomDetails((prev) =>
+            prev
+              ? { ...prev, name: room.name, avatar_path: room.avatar_path, archived_at: room.archived_at }
+              : prev
+          );
+          return;
         }
-      });
 
-    return channel;
+        case 'message_reactions':
+          if (event.payload.eventType === 'INSERT') {
+            const { message_id, user_id, emoji } = event.payload.new;
+            setReactions((prev) => mergeReactions(prev, [{ message_id, user_id, emoji }]));
+          }
+          return;
+      }
+    });
+
+  // Applies an edited or soft-deleted row to the list and the cache, keeping
+  // the author details we already have (UPDATE payloads carry no join).
+  const applyMessageUpdate = (row: Omit<MessageRow, 'profiles'>) => {
+    setMessages((prev) =>
+      prev.map((m) => {
+        if (m._id !== row.id) return m;
+        return { ...toGiftedMessage({ ...row, profiles: null }), user: m.user };
+      })
+    );
+    cacheRoomMessages([{ ...row, profiles: null }]);
   };
 
-  const toGiftedMessage = (row: MessageRow): IMessage => {
+  const toGiftedMessage = (row: MessageRow): ChatMessage => {
     const createdAt = row.created_at ? new Date(row.created_at) : new Date();
     const profile = row.profiles;
 
@@ -228,18 +587,205 @@ export default function ChatScreen() {
 
     return {
       _id: row.id,
-      text: row.body,
+      text: row.deleted_at ? DELETED_PLACEHOLDER : row.body,
       createdAt,
       user,
+      clientId: row.client_id,
+      editedAt: row.edited_at ? new Date(row.edited_at) : null,
+      deleted: Boolean(row.deleted_at),
+      replyToId: row.reply_to_id,
+      attachment: row.deleted_at ? null : row.attachment,
     };
   };
 
-  // Redirect unauthenticated users to the Auth screen once loading is complete
+  // The outbox reports the server row once a queued send lands; merge it
+  // right away rather than waiting for the realtime INSERT.
+  const handleOutboxSent = useCallback(
+    (row: SentMessageRow) => {
+      const message = {
+        ...row,
+        profiles: profile && { id: profile.id, username: profile.username, avatar_url: profile.avatar_url },
+      };
+      setMessages((prev) => mergeMessages(prev, [toGiftedMessage(message)]));
+      if (userId) {
+        cacheMessages(userId, [message]).catch((error) => console.error('Error caching message', error));
+      }
+    },
+    [profile, userId]
+  );
+
+  const outboxEntries = useOutbox(roomId, handleOutboxSent);
+  const cachedProfiles = useProfiles();
+  const blockedUserIds = useBlockedUserIds();
+
+  // Authors of messages that arrived over realtime or from the local cache
+  // without a profile we know
+  useEffect(() => {
+    requestProfiles(messages.map((m) => String(m.user._id)).filter((id) => id !== 'unknown'));
+  }, [messages]);
+
+  // Names and avatars come from the profile cache so renames show up live.
+  // Messages from blocked people are collapsed unless tapped open.
+  const authoredMessages = useMemo(
+    () =>
+      messages.map((m) => {
+        if (blockedUserIds.has(String(m.user._id)) && !m.deleted && !revealedIds.has(m._id)) {
+          return { ...m, text: BLOCKED_PLACEHOLDER, attachment: null, collapsed: true };
+        }
+
+        const author = cachedProfiles.get(String(m.user._id));
+        if (!author) return m;
+
+        const name = author.username ?? 'Unknown';
+        const avatar = author.avatar_url ?? undefined;
+        if (m.user.name === name && m.user.avatar === avatar) return m;
+        return { ...m, user: { ...m.user, name, avatar } };
+      }),
+    [messages, cachedProfiles, blockedUserIds, revealedIds]
+  );
+
+  // Server messages plus anything still queued locally. Entries whose row has
+  // already arrived (matched on client_id) are dropped to avoid a double bubble.
+  const displayedMessages = useMemo(() => {
+    if (!user || outboxEntries.length === 0) return authoredMessages;
+
+    const deliveredClientIds = new Set(authoredMessages.map((m) => m.clientId).filter(Boolean));
+    const queued: ChatMessage[] = outboxEntries
+      .filter((entry) => !deliveredClientIds.has(entry.clientId))
+      .map((entry) => ({
+        _id: entry.clientId,
+        text: entry.body,
+        createdAt: new Date(entry.createdAt),
+        user: { _id: user.id, name: profile?.username ?? user.email ?? 'You' },
+        clientId: entry.clientId,
+        replyToId: entry.replyToId,
+        attachment: entry.attachment ? toMessageAttachment(entry.attachment) : null,
+        localUri: entry.attachment?.uri ?? null,
+        uploadProgress: entry.uploadProgress,
+        pending: entry.status === 'pending' || entry.status === 'sending',
+        outboxStatus: entry.status,
+        moderation: entry.moderation,
+      }));
+
+    return mergeMessages(authoredMessages, queued);
+  }, [authoredMessages, outboxEntries, user, profile]);
+
+  const messagesById = useMemo(
+    () => new Map(displayedMessages.map((message) => [message._id, message])),
+    [displayedMessages]
+  );
+
+  const replyCounts = useMemo(() => {
+    const counts = new Map<number, number>();
+    for (const message of messages) {
+      if (message.replyToId) {
+        counts.set(message.replyToId, (counts.get(message.replyToId) ?? 0) + 1);
+      }
+    }
+    return counts;
+  }, [messages]);
+
+  // Fetch quoted parents that fall outside the loaded window, once each
   useEffect(() => {
-    if (!loading && !user) {
-      router.replace('/auth');
+    const missing = displayedMessages
+      .map((message) => message.replyToId)
+      .filter(
+        (id): id is number =>
+          typeof id === 'number' && !messagesById.has(id) && !requestedParentIdsRef.current.has(id)
+      );
+    if (missing.length === 0) return;
+
+    const ids = Array.from(new Set(missing));
+    ids.forEach((id) => requestedParentIdsRef.current.add(id));
+    const requestedRoomId = roomId;
+
+    messageRepository
+      .listQuoted(ids)
+      .then((rows) => {
+        if (activeRoomIdRef.current !== requestedRoomId) return;
+        setReplyParents((prev) => {
+          const next = new Map(prev);
+          for (const row of rows) {
+            next.set(row.id, {
+              id: row.id,
+              name: row.profiles?.username ?? null,
+              text: row.body || (row.attachment ? describeAttachment(row.attachment) : ''),
+              deleted: Boolean(row.deleted_at),
+            });
+          }
+          return next;
+        });
+      })
+      .catch((error) => {
+        console.error('Error loading quoted messages', error);
+        ids.forEach((id) => requestedParentIdsRef.current.delete(id));
+      });
+  }, [displayedMessages, messagesById, roomId]);
+
+  const getQuotePreview = (id: number): QuotedMessagePreview | null => {
+    const loaded = messagesById.get(id);
+    if (loaded) {
+      return {
+        id,
+        name: loaded.user.name ?? null,
+        text: getMessagePreviewText(loaded),
+        deleted: loaded.deleted,
+      };
     }
-  }, [loading, user, router]);
+    return replyParents.get(id) ?? null;
+  };
+
+  // Loads a message and its replies into the thread view
+  const openThread = async (parentId: number) => {
+    const loaded = messagesById.get(parentId);
+    setThreadParent(loaded ?? null);
+    setThreadReplies([]);
+    setThreadLoading(true);
+
+    try {
+      const [parent, replies] = await Promise.all([
+        loaded ? null : messageRepository.get(parentId),
+        messageRepository.listReplies(parentId),
+      ]);
+      if (parent) {
+        setThreadParent(toGiftedMessage(parent));
+      }
+      setThreadReplies(replies.map(toGiftedMessage));
+    } catch (error) {
+      console.error('Error loading thread', error);
+      if (!loaded) {
+        Alert.alert('Thread unavailable', 'The original message could not be loaded.');
+      }
+    } finally {
+      setThreadLoading(false);
+    }
+  };
+
+  const closeThread = () => {
+    setThreadParent(null);
+    setThreadReplies([]);
+  };
+
+  // Scrolls the list to a loaded message and briefly highlights it. Messages
+  // older than the loaded window open in the thread view instead.
+  const scrollToMessage = (id: number) => {
+    const index = displayedMessages.findIndex((message) => message._id === id);
+    if (index === -1) {
+      openThread(id);
+      return;
+    }
+
+    messagesContainerRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+    setHighlightedId(id);
+    setTimeout(() => setHighlightedId((current) => (current === id ? null : current)), HIGHLIGHT_MS);
+  };
+
+  const handleThreadSelect = (message: ChatMessage) => {
+    closeThread();
+    if (typeof message._id === 'number') {
+      scrollToMessage(message._id);
+    }
+  };
 
   const handleSend = useCallback(
     async (newMessages: IMessage[] = []) => {
@@ -249,45 +795,335 @@ export default function ChatScreen() {
       const text = message?.text;
       if (!text) return;
 
-      const { data, error } = await supabase.functions.invoke('moderate-message', {
-        body: { roomId, userId: user.id, text },
-      });
+      stopTyping();
 
-      if (error) {
-        console.error('Error sending moderated message', error);
+      if (editingMessage) {
+        await submitEdit(editingMessage, text);
         return;
       }
 
-      if (!data || (typeof data === 'object' && 'allowed' in data && !data.allowed)) {
-        console.warn('Message blocked by moderation', data);
+      const replyToId = typeof replyingTo?._id === 'number' ? replyingTo._id : null;
+      setReplyingTo(null);
+
+      // Queue first so the text survives a failed invoke, lost connectivity
+      // or the app being closed; the outbox delivers it when it can.
+      try {
+        await enqueueOutbox({
+          clientId: Crypto.randomUUID(),
+          roomId,
+          userId: user.id,
+          body: text,
+          replyToId,
+        });
+      } catch (error) {
+        console.error('Error queueing message', error);
+        Alert.alert('Message not sent', 'Your message could not be saved. Please try again.');
         return;
       }
 
-      const saved = (data as any).message ?? data;
-
-      // Optimistically append the sent message for this client
-      const optimistic: IMessage = {
-        _id: saved.id,
-        text: saved.body,
-        createdAt: saved.created_at ? new Date(saved.created_at) : new Date(),
-        user: {
-          _id: user.id,
-          name: profile?.username ?? user.email ?? 'You',
-        },
-      };
-
-      setMessages((prev) => GiftedChat.append(prev, [optimistic]));
+      flushOutbox();
     },
-    [roomId, user, profile]
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [roomId, user, stopTyping, editingMessage, replyingTo]
   );
 
-  if (loading && !user) {
-    return (
-      <View style={styles.centered}>
-        <ActivityIndicator />
-      </View>
+  // Edits go through the same moderation function as new messages. A message
+  // moderation kept from sending is revised in the outbox instead.
+  const submitEdit = async (message: ChatMessage, text: string, acknowledgeWarning = false) => {
+    if (!roomId || !user) return;
+    setEditingMessage(null);
+    if (text === message.text && !acknowledgeWarning) return;
+
+    if (message.outboxStatus) {
+      const entry = outboxEntries.find((item) => item.clientId === message.clientId);
+      if (!entry) return;
+      reviseOutbox(entry, text).catch((error) => console.error('Error revising message', error));
+      return;
+    }
+
+    const restore = () => {
+      setEditingMessage(message);
+      setComposerText(text);
+    };
+
+    let result: ModerationResult;
+    try {
+      result = await moderateMessage({
+        roomId,
+        userId: user.id,
+        text,
+        messageId: message._id as number,
+        acknowledgeWarning,
+      });
+    } catch (error) {
+      console.error('Error editing message', error);
+      Alert.alert('Edit failed', 'Your changes could not be saved. Please try again.');
+      restore();
+      return;
+    }
+
+    if (result.outcome === 'blocked') {
+      Alert.alert('Edit not allowed', describeVerdict(result.verdict));
+      restore();
+      return;
+    }
+
+    if (result.outcome === 'warned') {
+      Alert.alert('Save this edit?', describeVerdict(result.verdict), [
+        { text: 'Keep editing', style: 'cancel', onPress: restore },
+        { text: 'Save anyway', onPress: () => submitEdit(message, text, true) },
+      ]);
+      return;
+    }
+
+    const saved = result.message;
+    applyMessageUpdate({ ...saved, edited_at: saved.edited_at ?? new Date().toISOString() });
+  };
+
+  const submitReport = async (reason: ReportReason, details: string) => {
+    if (typeof reportingMessage?._id !== 'number') return;
+
+    try {
+      await messageRepository.report(reportingMessage._id, reason, details || null);
+    } catch (error) {
+      console.error('Error reporting message', error);
+      Alert.alert('Report failed', 'The message could not be reported. Please try again.');
+      throw error;
+    }
+    Alert.alert('Thanks for reporting', 'Moderators will take a look.');
+  };
+
+  const deleteMessage = async (message: ChatMessage) => {
+    // Only messages the server has accepted can be deleted
+    if (typeof message._id !== 'number') return;
+
+    try {
+      await messageRepository.delete(message._id);
+    } catch (error) {
+      console.error('Error deleting message', error);
+      Alert.alert('Delete failed', 'The message could not be deleted. Please try again.');
+      return;
+    }
+
+    setMessages((prev) =>
+      prev.map((m) =>
+        m._id === message._id ? { ...m, text: DELETED_PLACEHOLDER, deleted: true, attachment: null } : m
+      )
     );
-  }
+    if (message.attachment) {
+      removeAttachment(message.attachment.path).catch((error) =>
+        console.error('Error removing attachment', error)
+      );
+    }
+  };
+
+  // Picks a file and queues it as its own message.
+  const handleAttach = async (source: AttachmentSource) => {
+    let file;
+    try {
+      file = await pickAttachment(source);
+    } catch (error) {
+      console.error('Error picking attachment', error);
+      Alert.alert('Attachment failed', 'The file could not be opened.');
+      return;
+    }
+    if (file) {
+      await sendAttachment(file);
+    }
+  };
+
+  const handleVoiceNote = async (recording: VoiceRecording) => {
+    try {
+      await sendAttachment(await toVoiceNoteFile(recording.uri, recording.durationMs, recording.samples));
+    } catch (error) {
+      console.error('Error reading voice note', error);
+      Alert.alert('Voice message not sent', 'The recording could not be saved. Please try again.');
+    }
+  };
+
+  // Queues a file as its own message; the outbox uploads it before sending.
+  const sendAttachment = async (file: PickedFile) => {
+    if (!roomId || !user) return;
+
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      Alert.alert(
+        'File too large',
+        `Attachments can be up to ${formatFileSize(MAX_ATTACHMENT_BYTES)}; ` +
+          `this one is ${formatFileSize(file.size)}.`
+      );
+      return;
+    }
+
+    const clientId = Crypto.randomUUID();
+    const replyToId = typeof replyingTo?._id === 'number' ? replyingTo._id : null;
+    setReplyingTo(null);
+
+    try {
+      const attachment = await prepareAttachment(file, roomId, clientId);
+      await enqueueOutbox({ clientId, roomId, userId: user.id, body: '', replyToId, attachment });
+    } catch (error) {
+      console.error('Error queueing attachment', error);
+      Alert.alert('Attachment not sent', 'The file could not be saved. Please try again.');
+      return;
+    }
+
+    flushOutbox();
+  };
+
+  const startEditing = (message: ChatMessage) => {
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setComposerText(message.text);
+  };
+
+  const startReply = (message: ChatMessage) => {
+    if (editingMessage) {
+      cancelEditing();
+    }
+    setReplyingTo(message);
+  };
+
+  const cancelEditing = () => {
+    setEditingMessage(null);
+    setComposerText('');
+  };
+
+  const handleComposerChange = (text: string) => {
+    setComposerText(text);
+    notifyTyping(text);
+  };
+
+  // Adds or removes my reaction, updating the list right away and rolling
+  // back if the server rejects it. Other clients see it via realtime.
+  const toggleReaction = async (messageId: number, emoji: string) => {
+    if (!user) return;
+
+    const row: ReactionRow = { message_id: messageId, user_id: user.id, emoji };
+    const exists = reactions.some((existing) => isSameReaction(existing, row));
+
+    setReactions((prev) =>
+      exists ? prev.filter((existing) => !isSameReaction(existing, row)) : mergeReactions(prev, [row])
+    );
+    try {
+      await (exists ? reactionRepository.remove(row) : reactionRepository.add(row));
+    } catch (error) {
+      console.error('Error updating reaction', error);
+      setReactions((prev) =>
+        exists ? mergeReactions(prev, [row]) : prev.filter((existing) => !isSameReaction(existing, row))
+      );
+    }
+  };
+
+  const handleLongPressMessage = (_context: unknown, message: ChatMessage) => {
+    if (!user || message.deleted || message.collapsed || message.outboxStatus) return;
+    setActionMessage(message);
+  };
+
+  const getMessageActions = (message: ChatMessage): MessageAction[] => {
+    const isOwn = message.user._id === user?.id && typeof message._id === 'number';
+    const actions: MessageAction[] = [{ label: 'Reply', onPress: () => startReply(message) }];
+    if (message.text) {
+      actions.push({ label: 'Copy text', onPress: () => Clipboard.setStringAsync(message.text) });
+    }
+    const replyCount = typeof message._id === 'number' ? (replyCounts.get(message._id) ?? 0) : 0;
+    if (replyCount > 0) {
+      actions.push({
+        label: replyCount === 1 ? 'View 1 reply' : `View ${replyCount} replies`,
+        onPress: () => openThread(message._id as number),
+      });
+    }
+    if (!isOwn && typeof message._id === 'number') {
+      actions.push({
+        label: 'Report message',
+        destructive: true,
+        onPress: () => setReportingMessage(message),
+      });
+    }
+    if (isOwn) {
+      if (message.text) {
+        actions.push({ label: 'Edit', onPress: () => startEditing(message) });
+      }
+      actions.push({
+        label: 'Delete',
+        destructive: true,
+        onPress: () =>
+          Alert.alert('Delete message?', 'This removes the message for everyone.', [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Delete', style: 'destructive', onPress: () => deleteMessage(message) },
+          ]),
+      });
+    }
+    return actions;
+  };
+
+  const handlePressMessage = useCallback(
+    (_context: unknown, message: ChatMessage) => {
+      if (message.collapsed) {
+        setRevealedIds((prev) => new Set(prev).add(message._id));
+        return;
+      }
+      if (!message.outboxStatus) return;
+
+      const entry = outboxEntries.find((item) => item.clientId === message.clientId);
+      if (!entry) return;
+
+      // Held back by moderation: revise, delete or (for a warning) send as is
+      if (entry.moderation) {
+        const warned = entry.status === 'warned';
+        const buttons = [
+          { text: 'Cancel', style: 'cancel' as const },
+          {
+            text: 'Delete',
+            style: 'destructive' as const,
+            onPress: () => {
+              discardOutbox(entry).catch((error) => console.error('Error discarding message', error));
+            },
+          },
+          // Attachment-only messages have no text to revise
+          ...(entry.body ? [{ text: 'Edit', onPress: () => startEditing(message) }] : []),
+        ];
+        if (warned) {
+          buttons.push({
+            text: 'Send anyway',
+            onPress: () => {
+              acknowledgeOutboxWarning(entry).catch((error) =>
+                console.error('Error sending message', error)
+              );
+            },
+          });
+        }
+        Alert.alert(
+          warned ? 'Send this message?' : 'Message not sent',
+          describeVerdict(entry.moderation),
+          buttons
+        );
+        return;
+      }
+
+      const failed = entry.status === 'failed';
+      Alert.alert(
+        failed ? 'Message not delivered' : 'Message waiting to send',
+        failed && entry.lastError ? entry.lastError : undefined,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Discard',
+            style: 'destructive',
+            onPress: () => {
+              discardOutbox(entry).catch((error) => console.error('Error discarding message', error));
+            },
+          },
+          {
+            text: failed ? 'Retry' : 'Send now',
+            onPress: () => {
+              retryOutbox(entry).catch((error) => console.error('Error retrying message', error));
+            },
+          },
+        ]
+      );
+    },
+    [outboxEntries]
+  );
 
   if (!user) {
     return (
@@ -297,34 +1133,270 @@ export default function ChatScreen() {
     );
   }
 
+  // Direct rooms have no name of their own; they show the other participant
+  const directOther = roomDetails?.is_direct ? roomDetails.other : null;
+  const other = directOther ? { ...directOther, ...cachedProfiles.get(directOther.id) } : null;
+  const otherOnline = other ? onlineUserIds.has(other.id) : false;
+  const title = roomDetails?.is_direct
+    ? (other?.username ?? 'Direct message')
+    : (roomDetails?.name ?? GENERAL_ROOM_NAME);
+
   return (
     <View style={styles.flex}>
-      <GiftedChat
-        messages={messages}
+      <ChatHeader
+        title={title}
+        subtitle={other ? (otherOnline ? 'Online' : formatLastSeen(other.last_seen_at)) : null}
+        avatar={
+          other
+            ? { id: other.id, name: other.username, avatarUrl: other.avatar_url, online: otherOnline }
+            : roomDetails?.avatar_path
+              ? { id: roomDetails.id, name: roomDetails.name, avatarUrl: roomAvatarUrl }
+              : null
+        }
+        onPress={
+          roomId && roomDetails && !roomDetails.is_direct
+            ? () => router.push({ pathname: '/room/[roomId]', params: { roomId } })
+            : undefined
+        }
+      />
+      <ConnectionBanner />
+      <GiftedChat<ChatMessage>
+        messages={displayedMessages}
         onSend={handleSend}
+        onPressMessage={handlePressMessage}
+        text={composerText}
+        textInputProps={{ onChangeText: handleComposerChange }}
+        onLongPressMessage={handleLongPressMessage}
+        // The list is a plain FlatList at runtime; GiftedChat types the ref as
+        // the gesture-handler wrapper
+        messagesContainerRef={
+          messagesContainerRef as unknown as ComponentProps<typeof GiftedChat>['messagesContainerRef']
+        }
+        listProps={{
+          onViewableItemsChanged: onViewableItemsChangedRef.current,
+          viewabilityConfig: viewabilityConfigRef.current,
+          // Rows above the rendered window have no measured offset yet; jump
+          // close by and retry once they have been laid out
+          onScrollToIndexFailed: (info) => {
+            messagesContainerRef.current?.scrollToOffset({
+              offset: info.averageItemLength * info.index,
+              animated: false,
+            });
+            setTimeout(() => {
+              messagesContainerRef.current?.scrollToIndex({
+                index: info.index,
+                animated: true,
+                viewPosition: 0.5,
+              });
+            }, 100);
+          },
+        }}
+        renderFooter={() =>
+          typingUsers.length > 0 ? (
+            <View style={styles.typingFooter}>
+              <Text style={styles.typingText}>{formatTypingLabel(typingUsers)}</Text>
+            </View>
+          ) : null
+        }
+        loadEarlierMessagesProps={{
+          isAvailable: hasEarlier,
+          isLoading: loadingEarlier,
+          isInfiniteScrollEnabled: true,
+          onPress: handleLoadEarlier,
+        }}
         user={{ _id: user.id, name: profile?.username ?? user.email ?? 'You' }}
+        renderChatFooter={() => {
+          if (editingMessage) {
+            return (
+              <View style={styles.editBanner}>
+                <Text style={styles.editBannerText} numberOfLines={1}>
+                  Editing: {editingMessage.text}
+                </Text>
+                <Text style={styles.editBannerCancel} onPress={cancelEditing}>
+                  Cancel
+                </Text>
+              </View>
+            );
+          }
+          if (replyingTo) {
+            return (
+              <View style={styles.editBanner}>
+                <View style={styles.replyBannerBody}>
+                  <Text style={styles.replyBannerName} numberOfLines={1}>
+                    Replying to {replyingTo.user.name ?? 'Unknown'}
+                  </Text>
+                  <Text style={styles.editBannerText} numberOfLines={1}>
+                    {getMessagePreviewText(replyingTo)}
+                  </Text>
+                </View>
+                <Text style={styles.editBannerCancel} onPress={() => setReplyingTo(null)}>
+                  Cancel
+                </Text>
+              </View>
+            );
+          }
+          return null;
+        }}
+        renderInputToolbar={
+          roomDetails?.archived_at
+            ? () => (
+                <View style={styles.archivedNotice}>
+                  <Text style={styles.archivedNoticeText}>This room is archived.</Text>
+                </View>
+              )
+            : undefined
+        }
+        onPressActionButton={() => setAttachMenuVisible(true)}
+        // An empty composer offers hold-to-record instead of Send
+        renderSend={(props) =>
+          props.text?.trim() || editingMessage ? (
+            <Send {...props} />
+          ) : (
+            <VoiceRecordButton onRecorded={handleVoiceNote} />
+          )
+        }
+        renderCustomView={(props) => {
+          const { replyToId, attachment, localUri, uploadProgress } = props.currentMessage;
+          if (!replyToId && !attachment) return null;
+          return (
+            <View>
+              {replyToId ? (
+                <QuotedMessage
+                  preview={getQuotePreview(replyToId)}
+                  position={props.position}
+                  onPress={() => scrollToMessage(replyToId)}
+                />
+              ) : null}
+              {attachment ? (
+                <MessageAttachmentView
+                  attachment={attachment}
+                  localUri={localUri}
+                  uploadProgress={uploadProgress}
+                  position={props.position}
+                  onOpenImage={setViewerUri}
+                />
+              ) : null}
+            </View>
+          );
+        }}
+        renderMessageText={(props) => {
+          const message = props.currentMessage;
+          if (message.deleted || message.collapsed) {
+            return (
+              <Text style={[styles.deletedText, props.position === 'right' && styles.deletedTextRight]}>
+                {message.deleted ? DELETED_PLACEHOLDER : BLOCKED_PLACEHOLDER}
+              </Text>
+            );
+          }
+          return (
+            <View>
+              <MessageText {...props} />
+              {message.editedAt ? (
+                <Text style={[styles.editedLabel, props.position === 'right' && styles.editedLabelRight]}>
+                  (edited)
+                </Text>
+              ) : null}
+            </View>
+          );
+        }}
         renderBubble={(props) => (
-          <Bubble
-            {...props}
-            wrapperStyle={{
-              right: {
-                backgroundColor: '#0a7ea4',
-              },
-              left: {
-                backgroundColor: '#e5e5ea',
-              },
-            }}
-            textStyle={{
-              right: {
-                color: '#fff',
-              },
-              left: {
-                color: '#000',
-              },
-            }}
-          />
+          <SwipeToReply
+            enabled={
+              typeof props.currentMessage._id === 'number' &&
+              !props.currentMessage.deleted &&
+              !editingMessage
+            }
+            onReply={() => startReply(props.currentMessage)}>
+            <View style={highlightedId === props.currentMessage._id && styles.highlighted}>
+              <Bubble
+                {...props}
+                wrapperStyle={{
+                  right: {
+                    backgroundColor: '#0a7ea4',
+                  },
+                  left: {
+                    backgroundColor: '#e5e5ea',
+                  },
+                }}
+                textStyle={{
+                  right: {
+                    color: '#fff',
+                  },
+                  left: {
+                    color: '#000',
+                  },
+                }}
+              />
+              {typeof props.currentMessage._id === 'number' && !props.currentMessage.deleted ? (
+                <ReactionChips
+                  align={props.position}
+                  reactions={reactionsByMessageId.get(props.currentMessage._id)}
+                  onToggle={(emoji) => toggleReaction(props.currentMessage._id as number, emoji)}
+                />
+              ) : null}
+              {props.currentMessage.outboxStatus === 'failed' ? (
+                <Text style={styles.failedLabel}>Not delivered. Tap to retry.</Text>
+              ) : null}
+              {props.currentMessage.moderation ? (
+                <Text
+                  style={
+                    props.currentMessage.outboxStatus === 'warned' ? styles.warnedLabel : styles.failedLabel
+                  }
+                >
+                  {props.currentMessage.outboxStatus === 'warned' ? 'Check before sending' : 'Not sent'}:{' '}
+                  {describeVerdict(props.currentMessage.moderation)}. Tap for options.
+                </Text>
+              ) : null}
+              {typeof props.currentMessage._id === 'number' ? (
+                <ReadReceipts
+                  align={props.position}
+                  seen={seenMessageId === props.currentMessage._id}
+                  readers={readersByMessageId.get(props.currentMessage._id)}
+                />
+              ) : null}
+            </View>
+          </SwipeToReply>
         )}
       />
+      <MessageActions
+        visible={actionMessage !== null}
+        reactions={QUICK_REACTIONS}
+        selectedReactions={
+          typeof actionMessage?._id === 'number'
+            ? reactionsByMessageId
+                .get(actionMessage._id)
+                ?.filter((reaction) => reaction.mine)
+                .map((reaction) => reaction.emoji)
+            : undefined
+        }
+        onReact={(emoji) => {
+          if (typeof actionMessage?._id === 'number') toggleReaction(actionMessage._id, emoji);
+        }}
+        actions={actionMessage ? getMessageActions(actionMessage) : []}
+        onClose={() => setActionMessage(null)}
+      />
+      <MessageActions
+        visible={attachMenuVisible}
+        actions={[
+          { label: 'Take photo', onPress: () => handleAttach('camera') },
+          { label: 'Photo library', onPress: () => handleAttach('library') },
+          { label: 'File', onPress: () => handleAttach('file') },
+        ]}
+        onClose={() => setAttachMenuVisible(false)}
+      />
+      <ImageViewer uri={viewerUri} onClose={() => setViewerUri(null)} />
+      <ReplyThread
+        parent={threadParent}
+        replies={threadReplies}
+        loading={threadLoading}
+        onSelect={handleThreadSelect}
+        onClose={closeThread}
+      />
+      <ReportMessageSheet
+        visible={reportingMessage !== null}
+        onSubmit={submitReport}
+        onClose={() => setReportingMessage(null)}
+      />
     </View>
   );
 }
@@ -338,4 +1410,85 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  archivedNotice: {
+    padding: 12,
+    alignItems: 'center',
+    backgroundColor: '#f1f5f9',
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: '#ddd',
+  },
+  archivedNoticeText: {
+    fontSize: 13,
+    color: '#555',
+  },
+  editBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    gap: 12,
+    backgroundColor: '#f1f5f9',
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: '#ddd',
+  },
+  editBannerText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#555',
+  },
+  replyBannerBody: {
+    flex: 1,
+  },
+  replyBannerName: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#0a7ea4',
+  },
+  highlighted: {
+    borderRadius: 12,
+    backgroundColor: '#fef3c7',
+  },
+  editBannerCancel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#0a7ea4',
+  },
+  deletedText: {
+    marginHorizontal: 10,
+    marginVertical: 5,
+    fontStyle: 'italic',
+    color: '#666',
+  },
+  deletedTextRight: {
+    color: '#e0f2fe',
+  },
+  editedLabel: {
+    marginHorizontal: 10,
+    fontSize: 11,
+    color: '#666',
+  },
+  editedLabelRight: {
+    color: '#e0f2fe',
+  },
+  typingFooter: {
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+  },
+  typingText: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    color: '#666',
+  },
+  failedLabel: {
+    marginTop: 2,
+    fontSize: 12,
+    color: '#dc2626',
+    textAlign: 'right',
+  },
+  warnedLabel: {
+    marginTop: 2,
+    fontSize: 12,
+    color: '#b45309',
+    textAlign: 'right',
+  },
 });
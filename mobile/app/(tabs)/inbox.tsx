@@ -0,0 +1,329 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, FlatList, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useFocusEffect, useRouter } from 'expo-router';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+
+import { UserAvatar } from '@/components/user-avatar';
+import { useSession } from '@/hooks/use-session';
+import { describeAttachment, type MessageAttachment } from '@/lib/attachments';
+import { roomRepository, type InboxRoom } from '@/lib/data';
+import { formatListTimestamp } from '@/lib/format';
+import { cacheRooms, getCachedRooms, removeCachedRoom } from '@/lib/localCache';
+import { supabase } from '@/lib/supabaseClient';
+
+// Conversations inbox: every room the current user belongs to, newest activity
+// first, with a preview of the latest message and an unread badge. Rows come
+// from the get_inbox() RPC and are patched in place as new messages arrive;
+// the last snapshot is kept on device so the list shows up offline.
+
+type MessageRow = {
+  id: number;
+  room_id: string;
+  body: string;
+  created_at: string;
+  user_id: string | null;
+  attachment: MessageAttachment | null;
+};
+
+export default function InboxScreen() {
+  const router = useRouter();
+  const { user } = useSession();
+  const currentUserId = user?.id ?? null;
+  const [loading, setLoading] = useState(true);
+  const [rows, setRows] = useState<InboxRoom[]>([]);
+  const roomIdsRef = useRef<Set<string>>(new Set());
+
+  const loadInbox = useCallback(async () => {
+    let next: InboxRoom[];
+    try {
+      next = await roomRepository.listInbox();
+    } catch (error) {
+      console.error('Error loading inbox', error);
+      return;
+    }
+
+    roomIdsRef.current = new Set(next.map((row) => row.room_id));
+    setRows(next);
+    if (currentUserId) {
+      cacheRooms(currentUserId, next).catch((error) => console.error('Error caching inbox', error));
+    }
+  }, [currentUserId]);
+
+  const loadCachedInbox = useCallback(async () => {
+    if (!currentUserId) return;
+    try {
+      const cached = await getCachedRooms(currentUserId);
+      if (cached.length > 0) {
+        roomIdsRef.current = new Set(cached.map((row) => row.room_id));
+        setRows(cached);
+        setLoading(false);
+      }
+    } catch (error) {
+      console.error('Error reading cached inbox', error);
+    }
+  }, [currentUserId]);
+
+  useEffect(() => {
+    const init = async () => {
+      try {
+        await loadCachedInbox();
+        await loadInbox();
+      } catch (error) {
+        console.error('Error initializing inbox', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    init();
+  }, [loadInbox, loadCachedInbox]);
+
+  // Unread counts change while another screen is focused (e.g. reading a room),
+  // so refresh whenever the inbox comes back into view.
+  useFocusEffect(
+    useCallback(() => {
+      if (currentUserId) {
+        loadInbox();
+      }
+    }, [currentUserId, loadInbox])
+  );
+
+  useEffect(() => {
+    if (!currentUserId) return;
+
+    const channel: RealtimeChannel = supabase
+      // Private to us; room_left is broadcast by the database when we leave
+      // or are removed from a room
+      .channel(`inbox:${currentUserId}`, { config: { private: true } })
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages' },
+        (payload) => {
+          const message = payload.new as MessageRow;
+
+          if (!roomIdsRef.current.has(message.room_id)) {
+            // A room we have not seen yet (e.g. someone just opened a DM with us)
+            loadInbox();
+            return;
+          }
+
+          setRows((prev) => {
+            const index = prev.findIndex((row) => row.room_id === message.room_id);
+            if (index === -1) return prev;
+
+            const current = prev[index];
+            if (current.last_message_id !== null && current.last_message_id >= message.id) {
+              return prev;
+            }
+
+            const updated: InboxRoom = {
+              ...current,
+              last_message_id: message.id,
+              last_message_body: message.body,
+              last_message_at: message.created_at,
+              last_message_user_id: message.user_id,
+              last_message_attachment: message.attachment,
+              unread_count:
+                message.user_id === currentUserId ? current.unread_count : current.unread_count + 1,
+            };
+
+            return [updated, ...prev.slice(0, index), ...prev.slice(index + 1)];
+          });
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'room_members',
+          filter: `user_id=eq.${currentUserId}`,
+        },
+        () => {
+          loadInbox();
+        }
+      )
+      .on('broadcast', { event: 'room_left' }, ({ payload }) => {
+        const { room_id: roomId } = payload as { room_id: string };
+        roomIdsRef.current.delete(roomId);
+        setRows((prev) => prev.filter((row) => row.room_id !== roomId));
+        removeCachedRoom(currentUserId, roomId).catch((error) =>
+          console.error('Error removing cached room', error)
+        );
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [currentUserId, loadInbox]);
+
+  const handleOpenRoom = useCallback(
+    (row: InboxRoom) => {
+      setRows((prev) =>
+        prev.map((item) => (item.room_id === row.room_id ? { ...item, unread_count: 0 } : item))
+      );
+      router.push({ pathname: '/(tabs)/chat', params: { roomId: row.room_id } });
+    },
+    [router]
+  );
+
+  const getTitle = (row: InboxRoom) => {
+    if (row.is_direct) {
+      return row.other_username ?? 'Direct message';
+    }
+    return row.name ?? 'Untitled room';
+  };
+
+  const getPreview = (row: InboxRoom) => {
+    const text =
+      row.last_message_body ||
+      (row.last_message_attachment ? describeAttachment(row.last_message_attachment) : '');
+    if (!text) return 'No messages yet';
+    const prefix = row.last_message_user_id === currentUserId ? 'You: ' : '';
+    return `${prefix}${text}`;
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.centered}>
+        <ActivityIndicator />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <Text style={styles.title}>Conversations</Text>
+      <FlatList
+        contentContainerStyle={styles.listContent}
+        data={rows}
+        keyExtractor={(item) => item.room_id}
+        renderItem={({ item }) => {
+          const title = getTitle(item);
+          const unread = item.unread_count > 0;
+
+          return (
+            <TouchableOpacity style={styles.row} onPress={() => handleOpenRoom(item)}>
+              <UserAvatar
+                id={item.other_user_id ?? item.room_id}
+                name={title}
+                avatarUrl={item.is_direct ? item.other_avatar_url : null}
+                style={styles.avatar}
+              />
+              <View style={styles.body}>
+                <View style={styles.headerLine}>
+                  <Text style={[styles.roomName, unread && styles.unreadText]} numberOfLines={1}>
+                    {title}
+                  </Text>
+                  <Text style={styles.timestamp}>{formatListTimestamp(item.last_message_at)}</Text>
+                </View>
+                <View style={styles.previewLine}>
+                  <Text style={[styles.preview, unread && styles.unreadText]} numberOfLines={1}>
+                    {getPreview(item)}
+                  </Text>
+                  {unread ? (
+                    <View style={styles.badge}>
+                      <Text style={styles.badgeText}>
+                        {item.unread_count > 99 ? '99+' : item.unread_count}
+                      </Text>
+                    </View>
+                  ) : null}
+                </View>
+              </View>
+            </TouchableOpacity>
+          );
+        }}
+        ListEmptyComponent={
+          <View style={styles.empty}>
+            <Text>No conversations yet. Pick someone from Users to start one.</Text>
+          </View>
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: 40,
+    paddingHorizontal: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  listContent: {
+    paddingBottom: 16,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#ddd',
+  },
+  avatar: {
+    marginRight: 12,
+  },
+  body: {
+    flex: 1,
+    gap: 2,
+  },
+  headerLine: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  previewLine: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  roomName: {
+    flex: 1,
+    fontSize: 16,
+  },
+  timestamp: {
+    fontSize: 12,
+    color: '#888',
+  },
+  preview: {
+    flex: 1,
+    fontSize: 14,
+    color: '#555',
+  },
+  unreadText: {
+    fontWeight: '600',
+    color: '#000',
+  },
+  badge: {
+    minWidth: 20,
+    height: 20,
+    borderRadius: 10,
+    paddingHorizontal: 6,
+    backgroundColor: '#0a7ea4',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  badgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  empty: {
+    padding: 16,
+    alignItems: 'center',
+  },
+});
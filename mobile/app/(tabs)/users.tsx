@@ -1,158 +1,127 @@
-import { useEffect, useState, useCallback } from 'react';
-import { ActivityIndicator, FlatList, StyleSheet, Text, TouchableOpacity, View, Image } from 'react-native';
+import { useState, useCallback, useMemo } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  StyleSheet,
+  Switch,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useRouter } from 'expo-router';
-
-import { supabase } from '@/lib/supabaseClient';
+import { useFocusEffect, useRouter } from 'expo-router';
+
+import { UserAvatar } from '@/components/user-avatar';
+import { useBlockedUserIds } from '@/hooks/use-blocks';
+import { useOnlineUserIds } from '@/hooks/use-presence';
+import { useSession } from '@/hooks/use-session';
+import { blockUser } from '@/lib/blocks';
+import { isDataError, profileRepository, roomRepository, type ProfileSummary } from '@/lib/data';
+import { formatLastSeen } from '@/lib/format';
+import { cacheProfiles, getCachedProfiles } from '@/lib/localCache';
+import { seedProfiles } from '@/lib/profileCache';
 
 // Simple list of other authorized users (profiles). Selecting one will
 // find-or-create a direct room and navigate to the chat tab for that room.
-
-type Profile = {
-  id: string;
-  username: string | null;
-  avatar_url: string | null;
-};
+// "New group" opens the group creation flow instead. Long-pressing someone
+// offers to block them; blocked people are left out of the list.
+// Online state comes from Realtime presence; everyone else shows last seen.
 
 export default function UsersScreen() {
   const router = useRouter();
+  const { user } = useSession();
+  const currentUserId = user?.id ?? null;
   const [loading, setLoading] = useState(true);
-  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
-  const [profiles, setProfiles] = useState<Profile[]>([]);
-
-  useEffect(() => {
-    const init = async () => {
-      setLoading(true);
-      try {
-        const {
-          data: { user },
-        } = await supabase.auth.getUser();
+  const [profiles, setProfiles] = useState<ProfileSummary[]>([]);
+  const [onlineFirst, setOnlineFirst] = useState(false);
+  const onlineUserIds = useOnlineUserIds();
+  const blockedUserIds = useBlockedUserIds();
+
+  // Reloaded on every visit so profile edits (names, avatars) show up
+  useFocusEffect(
+    useCallback(() => {
+      if (!currentUserId) return;
 
-        if (!user) {
-          router.replace('/auth');
-          return;
+      const init = async () => {
+        try {
+          await loadProfiles(currentUserId);
+        } catch (error) {
+          console.error('Error loading users', error);
+        } finally {
+          setLoading(false);
         }
+      };
 
-        setCurrentUserId(user.id);
-        await loadProfiles(user.id);
-      } catch (error) {
-        console.error('Error loading users', error);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    init();
-  }, [router]);
+      init();
+    }, [currentUserId])
+  );
 
   const loadProfiles = async (userId: string) => {
-    const { data, error } = await supabase
-      .from('profiles')
-      .select('id, username, avatar_url')
-      .neq('id', userId)
-      .order('username', { ascending: true });
-
-    if (error) {
+    try {
+      const others = await profileRepository.listOthers(userId);
+      setProfiles(others);
+      seedProfiles(others);
+      cacheProfiles(others).catch((cacheError) => console.error('Error caching profiles', cacheError));
+    } catch (error) {
       console.error('Error loading profiles', error);
-      return;
+      // Offline: fall back to whoever we have seen before
+      const cached = await getCachedProfiles().catch(() => []);
+      setProfiles(
+        cached
+          .filter((profile) => profile.id !== userId)
+          .map((profile) => ({ ...profile, handle: null, last_seen_at: null }))
+      );
     }
-
-    setProfiles((data ?? []) as Profile[]);
   };
 
-  const ensureRoomMember = useCallback(async (roomId: string, userId: string) => {
-    const { data, error } = await supabase
-      .from('room_members')
-      .select('room_id, user_id')
-      .eq('room_id', roomId)
-      .eq('user_id', userId)
-      .maybeSingle();
-
-    if (error && error.code !== 'PGRST116') {
-      console.error('Error checking room_members', error);
-      return;
-    }
-
-    if (!data) {
-      const { error: insertError } = await supabase
-        .from('room_members')
-        .insert({ room_id: roomId, user_id: userId, role: 'member' });
-      if (insertError && insertError.code !== '23505') {
-        // 23505 = duplicate key, which is safe to ignore here
-        console.error('Error inserting room_member', insertError);
-      }
-    }
-  }, []);
-
-  const getOrCreateDirectRoom = useCallback(
-    async (userId: string, otherUserId: string) => {
-      const participantsKey = [userId, otherUserId].sort().join(':');
-
-      const { data: existing, error: selectError } = await supabase
-        .from('rooms')
-        .select('id, name, is_direct')
-        .eq('is_direct', true)
-        .eq('name', participantsKey)
-        .limit(1)
-        .maybeSingle();
-
-      if (selectError && selectError.code !== 'PGRST116') {
-        throw selectError;
-      }
-
-      if (existing) {
-        await ensureRoomMember(existing.id, userId);
-        await ensureRoomMember(existing.id, otherUserId);
-        return existing.id as string;
-      }
-
-      const { data: created, error: insertError } = await supabase
-        .from('rooms')
-        .insert({ name: participantsKey, is_direct: true, created_by: userId })
-        .select('id')
-        .single();
-
-      if (insertError || !created) {
-        throw insertError;
-      }
-
-      await ensureRoomMember(created.id, userId);
-      await ensureRoomMember(created.id, otherUserId);
-
-      return created.id as string;
-    },
-    [ensureRoomMember]
-  );
-
   const handleSelectUser = useCallback(
-    async (profile: Profile) => {
+    async (profile: ProfileSummary) => {
       if (!currentUserId) return;
 
       try {
-        const roomId = await getOrCreateDirectRoom(currentUserId, profile.id);
+        const roomId = await roomRepository.getOrCreateDirect(profile.id);
         router.push({ pathname: '/(tabs)/chat', params: { roomId } });
       } catch (error) {
         console.error('Error opening direct room', error);
+        // One of them has blocked the other; which one is not revealed
+        if (isDataError(error, 'forbidden')) {
+          Alert.alert('Cannot message this person', 'This conversation is not available.');
+        }
       }
     },
-    [currentUserId, getOrCreateDirectRoom, router]
+    [currentUserId, router]
   );
 
-  const getInitial = (profile: Profile) => {
-    const source = profile.username ?? '';
-    const trimmed = source.trim();
-    if (!trimmed) return '?';
-    return trimmed.charAt(0).toUpperCase();
+  const confirmBlock = (profile: ProfileSummary) => {
+    const name = profile.username ?? 'this user';
+    Alert.alert(
+      `Block ${name}?`,
+      'They will be hidden here, their messages will be collapsed and neither of you can start a ' +
+        'direct conversation. You can unblock them from Account.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Block',
+          style: 'destructive',
+          onPress: () => {
+            blockUser(profile.id).catch((error) => {
+              console.error('Error blocking user', error);
+              Alert.alert('Block failed', `${name} could not be blocked. Please try again.`);
+            });
+          },
+        },
+      ]
+    );
   };
 
-  const getColorForId = (id: string) => {
-    const colors = ['#0a7ea4', '#f97316', '#22c55e', '#6366f1', '#ec4899', '#eab308'];
-    let hash = 0;
-    for (let i = 0; i < id.length; i++) {
-      hash = (hash * 31 + id.charCodeAt(i)) >>> 0;
-    }
-    return colors[hash % colors.length];
-  };
+  // Sorting is stable, so the alphabetical order from the query is kept within
+  // the online and offline groups
+  const sortedProfiles = useMemo(() => {
+    const visible = profiles.filter((profile) => !blockedUserIds.has(profile.id));
+    if (!onlineFirst) return visible;
+    return visible.sort((a, b) => Number(onlineUserIds.has(b.id)) - Number(onlineUserIds.has(a.id)));
+  }, [profiles, onlineFirst, onlineUserIds, blockedUserIds]);
 
   if (loading) {
     return (
@@ -164,28 +133,46 @@ export default function UsersScreen() {
 
   return (
     <SafeAreaView style={styles.container}>
-      <Text style={styles.title}>Authorized users</Text>
+      <View style={styles.header}>
+        <Text style={styles.title}>Authorized users</Text>
+        <View style={styles.sortToggle}>
+          <Text style={styles.sortLabel}>Online first</Text>
+          <Switch value={onlineFirst} onValueChange={setOnlineFirst} />
+        </View>
+      </View>
+      <TouchableOpacity style={styles.newGroup} onPress={() => router.push('/new-group')}>
+        <Text style={styles.newGroupLabel}>New group</Text>
+      </TouchableOpacity>
       <FlatList
         contentContainerStyle={styles.listContent}
-        data={profiles}
+        data={sortedProfiles}
         keyExtractor={(item) => item.id}
-        renderItem={({ item }) => (
-          <TouchableOpacity style={styles.row} onPress={() => handleSelectUser(item)}>
-            {item.avatar_url ? (
-              <Image source={{ uri: item.avatar_url }} style={styles.avatar} />
-            ) : (
-              <View
-                style={[
-                  styles.avatar,
-                  styles.avatarPlaceholder,
-                  { backgroundColor: getColorForId(item.id) },
-                ]}>
-                <Text style={styles.avatarInitial}>{getInitial(item)}</Text>
+        renderItem={({ item }) => {
+          const online = onlineUserIds.has(item.id);
+
+          return (
+            <TouchableOpacity
+              style={styles.row}
+              onPress={() => handleSelectUser(item)}
+              onLongPress={() => confirmBlock(item)}
+              accessibilityHint="Long press to block">
+              <UserAvatar
+                id={item.id}
+                name={item.username}
+                avatarUrl={item.avatar_url}
+                online={online}
+                style={styles.avatar}
+              />
+              <View>
+                <Text style={styles.username}>{item.username ?? 'Unknown user'}</Text>
+                <Text style={styles.status}>
+                  {item.handle ? `@${item.handle} · ` : ''}
+                  {online ? 'Online' : formatLastSeen(item.last_seen_at)}
+                </Text>
               </View>
-            )}
-            <Text style={styles.username}>{item.username ?? 'Unknown user'}</Text>
-          </TouchableOpacity>
-        )}
+            </TouchableOpacity>
+          );
+        }}
         ListEmptyComponent={
           <View style={styles.empty}>
             <Text>No other users yet.</Text>
@@ -202,10 +189,35 @@ const styles = StyleSheet.create({
     paddingTop: 40,
     paddingHorizontal: 16,
   },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
   title: {
     fontSize: 20,
     fontWeight: '600',
-    marginBottom: 12,
+  },
+  sortToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  sortLabel: {
+    fontSize: 13,
+    color: '#555',
+  },
+  newGroup: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#ddd',
+  },
+  newGroupLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#0a7ea4',
   },
   listContent: {
     paddingBottom: 16,
@@ -224,23 +236,15 @@ const styles = StyleSheet.create({
     borderBottomColor: '#ddd',
   },
   avatar: {
-    width: 40,
-    height: 40,
-    borderRadius: 20,
     marginRight: 12,
-    backgroundColor: '#ccc',
-  },
-  avatarPlaceholder: {
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  avatarInitial: {
-    color: '#fff',
-    fontWeight: '600',
   },
   username: {
     fontSize: 16,
   },
+  status: {
+    fontSize: 12,
+    color: '#888',
+  },
   empty: {
     padding: 16,
     alignItems: 'center',
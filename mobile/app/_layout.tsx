@@ -1,25 +1,73 @@
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
-import { Stack } from 'expo-router';
+import { SplashScreen, Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
+import { useEffect } from 'react';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import 'react-native-reanimated';
 
+import { SessionProvider } from '@/components/session-provider';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useSession } from '@/hooks/use-session';
+import { startOutboxSync } from '@/lib/outbox';
 
 export const unstable_settings = {
-  anchor: 'auth',
+  anchor: '(tabs)',
 };
 
+// Keep the splash screen up until the stored session has been restored, so
+// signed-in users never see the sign-in screen flash by
+SplashScreen.preventAutoHideAsync();
+
 export default function RootLayout() {
   const colorScheme = useColorScheme();
 
+  // Deliver queued messages whenever connectivity returns, from any screen
+  useEffect(() => startOutboxSync(), []);
+
   return (
-    <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-      <Stack initialRouteName="auth">
-        <Stack.Screen name="auth" options={{ headerShown: false }} />
+    <GestureHandlerRootView style={{ flex: 1 }}>
+      <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
+        <SessionProvider>
+          <RootNavigator />
+        </SessionProvider>
+        <StatusBar style="auto" />
+      </ThemeProvider>
+    </GestureHandlerRootView>
+  );
+}
+
+// Signed-in screens are only reachable with a session and the sign-in screen
+// only without one; when the session changes (sign-in, sign-out anywhere, an
+// expired refresh token) the router moves to whichever side is available.
+function RootNavigator() {
+  const { loading, session } = useSession();
+  const signedIn = session !== null;
+
+  useEffect(() => {
+    if (!loading) {
+      SplashScreen.hideAsync();
+    }
+  }, [loading]);
+
+  if (loading) return null;
+
+  return (
+    <Stack>
+      <Stack.Protected guard={signedIn}>
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-        <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
-      </Stack>
-      <StatusBar style="auto" />
-    </ThemeProvider>
+        <Stack.Screen name="reset-password" options={{ title: 'Reset password' }} />
+        <Stack.Screen name="new-group" options={{ presentation: 'modal', title: 'New group' }} />
+        <Stack.Screen name="room/[roomId]/index" options={{ title: 'Room details' }} />
+        <Stack.Screen name="room/[roomId]/invites" options={{ title: 'Invite links' }} />
+        <Stack.Screen name="moderation" options={{ title: 'Moderation' }} />
+      </Stack.Protected>
+      <Stack.Protected guard={!signedIn}>
+        <Stack.Screen name="auth" options={{ headerShown: false }} />
+      </Stack.Protected>
+      {/* Reachable either way: they finish signing in or send people to it */}
+      <Stack.Screen name="auth-callback" options={{ headerShown: false }} />
+      <Stack.Screen name="invite/[token]" options={{ title: 'Invite' }} />
+      <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
+    </Stack>
   );
 }
@@ -0,0 +1,74 @@
+import { useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, Button, StyleSheet, Text, View } from 'react-native';
+import * as Linking from 'expo-linking';
+import { useRouter } from 'expo-router';
+
+import { createSessionFromUrl, describeAuthError } from '@/lib/auth';
+
+// Where emailed auth links land (see getAuthRedirectUrl): email confirmation,
+// magic links and password resets. The tokens are in the URL fragment, which
+// route params do not include, so the full URL is read from Linking.
+
+export default function AuthCallbackScreen() {
+  const router = useRouter();
+  const url = Linking.useURL();
+  const handledUrlRef = useRef<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!url || handledUrlRef.current === url) return;
+    handledUrlRef.current = url;
+
+    const complete = async () => {
+      try {
+        const type = await createSessionFromUrl(url);
+        router.replace(type === 'recovery' ? '/reset-password' : '/(tabs)/chat');
+      } catch (linkError) {
+        console.error('Error completing auth link', linkError);
+        setError(describeAuthError(linkError));
+      }
+    };
+
+    complete();
+  }, [router, url]);
+
+  return (
+    <View style={styles.container}>
+      {error ? (
+        <>
+          <Text style={styles.title}>This link didn&apos;t work</Text>
+          <Text style={styles.error}>{error}</Text>
+          <Button title="Back to sign in" onPress={() => router.replace('/auth')} />
+        </>
+      ) : (
+        <>
+          <ActivityIndicator />
+          <Text style={styles.detail}>Signing you in…</Text>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+    gap: 12,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  detail: {
+    fontSize: 14,
+    color: '#555',
+  },
+  error: {
+    fontSize: 14,
+    color: '#991b1b',
+    textAlign: 'center',
+  },
+});
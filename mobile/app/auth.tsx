@@ -1,112 +1,286 @@
 import { useState } from 'react';
-import { Alert, Button, StyleSheet, Text, TextInput, View } from 'react-native';
-import { useRouter } from 'expo-router';
+import { Button, Pressable, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
+import { useLocalSearchParams, useRouter, type Href } from 'expo-router';
 
+import { PasswordStrengthMeter } from '@/components/password-strength-meter';
+import {
+  describeAuthError,
+  getAuthErrorCode,
+  getAuthRedirectUrl,
+  getPasswordStrength,
+  isValidEmail,
+} from '@/lib/auth';
 import { supabase } from '@/lib/supabaseClient';
 
+// Sign in and sign up are separate modes so a mistyped password is never
+// mistaken for a new registration. Alongside them: a one-time code / magic
+// link sign-in, a password reset email and resending the confirmation email.
+// Emailed links come back through app/auth-callback.tsx. Once signed in, the
+// root layout's guard moves on to the tabs.
+
+type Mode = 'signIn' | 'signUp' | 'magicLink' | 'forgot';
+
+const TITLES: Record<Mode, string> = {
+  signIn: 'Sign in',
+  signUp: 'Create account',
+  magicLink: 'Sign in with email',
+  forgot: 'Reset password',
+};
+
+type Feedback = { kind: 'error' | 'notice'; text: string } | null;
+
 export default function AuthScreen() {
   const router = useRouter();
+  // Set when another screen (e.g. an invite link) sent us here to sign in first
+  const { redirect } = useLocalSearchParams<{ redirect?: string }>();
+  const [mode, setMode] = useState<Mode>('signIn');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [codeSent, setCodeSent] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [feedback, setFeedback] = useState<Feedback>(null);
+  // Offer to resend the confirmation email after sign-up or when sign-in is
+  // refused because the address is unconfirmed
+  const [canResendConfirmation, setCanResendConfirmation] = useState(false);
 
-  const ensureProfile = async (userId: string, email?: string | null) => {
-    const username = email ?? `user-${userId.slice(0, 8)}`;
-    const { error } = await supabase
-      .from('profiles')
-      .upsert({ id: userId, username }, { onConflict: 'id' });
+  const emailTrimmed = email.trim();
 
-    if (error) {
-      console.error('Error upserting profile from auth', error);
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    setFeedback(null);
+    setCanResendConfirmation(false);
+    setCodeSent(false);
+    setCode('');
+  };
+
+  // The session provider creates the profile; only a pending redirect is
+  // left to handle here
+  const finishSignIn = () => {
+    if (redirect?.startsWith('/')) {
+      router.replace(redirect as Href);
     }
   };
 
-  const handleAuth = async () => {
+  // Runs one auth request with shared loading and error handling
+  const run = async (action: () => Promise<void>) => {
+    if (!isValidEmail(emailTrimmed)) {
+      setFeedback({ kind: 'error', text: 'Enter a valid email address.' });
+      return;
+    }
+
     setLoading(true);
+    setFeedback(null);
     try {
-      const emailTrimmed = email.trim();
-      if (!emailTrimmed || !password) {
-        Alert.alert('Missing info', 'Please enter email and password');
+      await action();
+    } catch (error) {
+      console.error('Auth error', error);
+      setFeedback({ kind: 'error', text: describeAuthError(error) });
+      setCanResendConfirmation(getAuthErrorCode(error) === 'email_not_confirmed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSignIn = () =>
+    run(async () => {
+      if (!password) {
+        setFeedback({ kind: 'error', text: 'Enter your password.' });
         return;
       }
 
-      // 1) Try to sign in existing user
-      const { data: signInData, error: signInError } = await supabase.auth.signInWithPassword({
+      const { error } = await supabase.auth.signInWithPassword({ email: emailTrimmed, password });
+      if (error) throw error;
+      finishSignIn();
+    });
+
+  const handleSignUp = () =>
+    run(async () => {
+      const strength = getPasswordStrength(password);
+      if (strength.problems.length > 0) {
+        setFeedback({ kind: 'error', text: `Choose a stronger password: ${strength.problems.join(', ')}.` });
+        return;
+      }
+
+      const { data, error } = await supabase.auth.signUp({
         email: emailTrimmed,
         password,
+        options: { emailRedirectTo: getAuthRedirectUrl() },
       });
+      if (error) throw error;
 
-      if (!signInError && signInData.user) {
-        // Existing confirmed user: ensure profile then go to chat
-        await ensureProfile(signInData.user.id, signInData.user.email);
-        router.replace('/(tabs)/chat');
+      // With confirmations on, an existing address comes back as a user
+      // without identities instead of an error
+      if (data.user && data.user.identities?.length === 0) {
+        setFeedback({ kind: 'error', text: 'An account with this email already exists. Sign in instead.' });
         return;
       }
 
-      const invalidCreds =
-        signInError &&
-        (signInError.message?.toLowerCase().includes('invalid login credentials') ||
-          signInError.status === 400);
-
-      if (!invalidCreds && signInError) {
-        throw signInError;
+      if (data.session) {
+        finishSignIn();
+        return;
       }
 
-      // 2) Sign up new user (email confirmation likely required)
-      const { data: signUpData, error: signUpError } = await supabase.auth.signUp({
+      setFeedback({
+        kind: 'notice',
+        text: `We've sent a confirmation link to ${emailTrimmed}. Open it on this device to finish.`,
+      });
+      setCanResendConfirmation(true);
+    });
+
+  const handleResendConfirmation = () =>
+    run(async () => {
+      const { error } = await supabase.auth.resend({
+        type: 'signup',
         email: emailTrimmed,
-        password,
+        options: { emailRedirectTo: getAuthRedirectUrl() },
       });
+      if (error) throw error;
+      setFeedback({ kind: 'notice', text: `Confirmation email sent again to ${emailTrimmed}.` });
+    });
 
-      if (signUpError) {
-        throw signUpError;
-      }
+  const handleSendCode = () =>
+    run(async () => {
+      const { error } = await supabase.auth.signInWithOtp({
+        email: emailTrimmed,
+        options: { shouldCreateUser: false, emailRedirectTo: getAuthRedirectUrl() },
+      });
+      if (error) throw error;
+      setCodeSent(true);
+      setFeedback({
+        kind: 'notice',
+        text: `We've emailed a sign-in link and code to ${emailTrimmed}. Open the link or enter the code.`,
+      });
+    });
 
-      if (!signUpData.user || !signUpData.session) {
-        Alert.alert(
-          'Check your email',
-          "We've sent you a confirmation link. Please verify your email, then return here and sign in."
-        );
-        return;
-      }
+  const handleVerifyCode = () =>
+    run(async () => {
+      const { error } = await supabase.auth.verifyOtp({
+        email: emailTrimmed,
+        token: code.trim(),
+        type: 'email',
+      });
+      if (error) throw error;
+      finishSignIn();
+    });
 
-      // If email confirmation disabled, treat as logged-in: ensure profile and go to chat
-      await ensureProfile(signUpData.user.id, signUpData.user.email);
-      router.replace('/(tabs)/chat');
-    } catch (error: any) {
-      console.error('Auth error', error);
-      Alert.alert('Auth error', error.message ?? 'Something went wrong');
-    } finally {
-      setLoading(false);
-    }
-  };
+  const handleForgotPassword = () =>
+    run(async () => {
+      const { error } = await supabase.auth.resetPasswordForEmail(emailTrimmed, {
+        redirectTo: getAuthRedirectUrl(),
+      });
+      if (error) throw error;
+      setFeedback({
+        kind: 'notice',
+        text: `If ${emailTrimmed} has an account, a reset link is on its way. Open it on this device.`,
+      });
+    });
+
+  const primary = {
+    signIn: { title: 'Sign in', onPress: handleSignIn },
+    signUp: { title: 'Create account', onPress: handleSignUp },
+    magicLink: codeSent
+      ? { title: 'Verify code', onPress: handleVerifyCode }
+      : { title: 'Email me a link and code', onPress: handleSendCode },
+    forgot: { title: 'Send reset link', onPress: handleForgotPassword },
+  }[mode];
 
   return (
-    <View style={styles.container}>
-      <Text style={styles.title}>Sign in</Text>
+    <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
+      <Text style={styles.title}>{TITLES[mode]}</Text>
+
+      {mode === 'signIn' || mode === 'signUp' ? (
+        <View style={styles.tabs}>
+          {(['signIn', 'signUp'] as const).map((tab) => (
+            <Pressable
+              key={tab}
+              onPress={() => switchMode(tab)}
+              accessibilityRole="tab"
+              accessibilityState={{ selected: mode === tab }}
+              style={[styles.tab, mode === tab && styles.tabSelected]}>
+              <Text style={[styles.tabLabel, mode === tab && styles.tabLabelSelected]}>{TITLES[tab]}</Text>
+            </Pressable>
+          ))}
+        </View>
+      ) : null}
+
       <TextInput
         style={styles.input}
         placeholder="Email"
         autoCapitalize="none"
+        autoComplete="email"
         keyboardType="email-address"
         value={email}
         onChangeText={setEmail}
+        editable={!codeSent}
       />
-      <TextInput
-        style={styles.input}
-        placeholder="Password"
-        secureTextEntry
-        value={password}
-        onChangeText={setPassword}
+      {mode === 'signIn' || mode === 'signUp' ? (
+        <TextInput
+          style={styles.input}
+          placeholder="Password"
+          secureTextEntry
+          autoComplete={mode === 'signUp' ? 'new-password' : 'current-password'}
+          value={password}
+          onChangeText={setPassword}
+        />
+      ) : null}
+      {mode === 'signUp' ? <PasswordStrengthMeter password={password} /> : null}
+      {mode === 'magicLink' && codeSent ? (
+        <TextInput
+          style={styles.input}
+          placeholder="6-digit code"
+          keyboardType="number-pad"
+          autoComplete="one-time-code"
+          maxLength={6}
+          value={code}
+          onChangeText={setCode}
+        />
+      ) : null}
+
+      {feedback ? (
+        <Text style={[styles.feedback, feedback.kind === 'error' ? styles.error : styles.notice]}>
+          {feedback.text}
+        </Text>
+      ) : null}
+      {canResendConfirmation ? (
+        <Button title="Resend confirmation email" onPress={handleResendConfirmation} disabled={loading} />
+      ) : null}
+
+      <Button
+        title={loading ? 'Please wait…' : primary.title}
+        onPress={primary.onPress}
+        disabled={loading}
       />
-      <Button title={loading ? 'Signing in...' : 'Sign in / Sign up'} onPress={handleAuth} disabled={loading} />
-    </View>
+
+      <View style={styles.links}>
+        {mode === 'signIn' ? (
+          <>
+            <Text style={styles.link} onPress={() => switchMode('forgot')}>
+              Forgot password?
+            </Text>
+            <Text style={styles.link} onPress={() => switchMode('magicLink')}>
+              Sign in with an email link or code instead
+            </Text>
+          </>
+        ) : null}
+        {mode === 'magicLink' && codeSent ? (
+          <Text style={styles.link} onPress={() => switchMode('magicLink')}>
+            Use a different email
+          </Text>
+        ) : null}
+        {mode === 'magicLink' || mode === 'forgot' ? (
+          <Text style={styles.link} onPress={() => switchMode('signIn')}>
+            Back to sign in
+          </Text>
+        ) : null}
+      </View>
+    </ScrollView>
   );
 }
 
 const styles = StyleSheet.create({
   container: {
-    flex: 1,
+    flexGrow: 1,
     justifyContent: 'center',
     padding: 16,
     gap: 12,
@@ -117,10 +291,55 @@ const styles = StyleSheet.create({
     marginBottom: 8,
     textAlign: 'center',
   },
+  tabs: {
+    flexDirection: 'row',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    overflow: 'hidden',
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 8,
+    alignItems: 'center',
+  },
+  tabSelected: {
+    backgroundColor: '#0a7ea4',
+  },
+  tabLabel: {
+    fontSize: 14,
+    color: '#0a7ea4',
+  },
+  tabLabelSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
   input: {
     borderWidth: 1,
     borderColor: '#ccc',
     borderRadius: 8,
     padding: 10,
   },
+  feedback: {
+    padding: 10,
+    borderRadius: 8,
+    fontSize: 14,
+  },
+  error: {
+    color: '#991b1b',
+    backgroundColor: '#fee2e2',
+  },
+  notice: {
+    color: '#166534',
+    backgroundColor: '#dcfce7',
+  },
+  links: {
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 4,
+  },
+  link: {
+    fontSize: 14,
+    color: '#0a7ea4',
+  },
 });
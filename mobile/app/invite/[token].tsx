@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Button, StyleSheet, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+
+import { UserAvatar } from '@/components/user-avatar';
+import { useSession } from '@/hooks/use-session';
+import { inviteRepository } from '@/lib/data';
+import { INVITE_PROBLEM_MESSAGES, type InvitePreview } from '@/lib/invites';
+
+// Landing screen for mobile://invite/<token>. Signed-out visitors are sent
+// through auth and brought back here; everyone else sees the room and
+// decides whether to join.
+
+export default function InviteScreen() {
+  const router = useRouter();
+  const { token } = useLocalSearchParams<{ token: string }>();
+  const { user } = useSession();
+  const signedIn = user !== null;
+  const [loading, setLoading] = useState(true);
+  const [preview, setPreview] = useState<InvitePreview | null>(null);
+  const [joining, setJoining] = useState(false);
+
+  useEffect(() => {
+    const init = async () => {
+      setLoading(true);
+      try {
+        if (!signedIn) {
+          router.replace({ pathname: '/auth', params: { redirect: `/invite/${token}` } });
+          return;
+        }
+
+        setPreview(await inviteRepository.getPreview(token));
+      } catch (error) {
+        console.error('Error loading invite', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    init();
+  }, [router, signedIn, token]);
+
+  const openRoom = (roomId: string) => {
+    router.replace({ pathname: '/(tabs)/chat', params: { roomId } });
+  };
+
+  const handleAccept = async () => {
+    setJoining(true);
+    try {
+      openRoom(await inviteRepository.accept(token));
+    } catch (error) {
+      console.error('Error accepting invite', error);
+      Alert.alert('Could not join room', 'This invite link can no longer be used.');
+      setJoining(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <ActivityIndicator />
+      </SafeAreaView>
+    );
+  }
+
+  if (!preview) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Text style={styles.title}>Invite not found</Text>
+        <Text style={styles.detail}>Check the link and try again.</Text>
+        <Button title="Go to inbox" onPress={() => router.replace('/(tabs)/inbox')} />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <UserAvatar id={preview.room_id} name={preview.name} avatarUrl={null} size={72} />
+      <Text style={styles.title}>{preview.name ?? 'Room'}</Text>
+      {preview.topic ? <Text style={styles.detail}>{preview.topic}</Text> : null}
+      <Text style={styles.detail}>
+        {preview.member_count === 1 ? '1 member' : `${preview.member_count} members`}
+      </Text>
+      <View style={styles.actions}>
+        {preview.is_member ? (
+          <Button title="Open room" onPress={() => openRoom(preview.room_id)} />
+        ) : preview.problem ? (
+          <>
+            <Text style={styles.problem}>{INVITE_PROBLEM_MESSAGES[preview.problem]}</Text>
+            <Button title="Go to inbox" onPress={() => router.replace('/(tabs)/inbox')} />
+          </>
+        ) : (
+          <>
+            <Button title={joining ? 'Joining…' : 'Join room'} onPress={handleAccept} disabled={joining} />
+            <Button title="Not now" onPress={() => router.replace('/(tabs)/inbox')} />
+          </>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+    gap: 8,
+  },
+  title: {
+    marginTop: 8,
+    fontSize: 22,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  detail: {
+    fontSize: 14,
+    color: '#555',
+    textAlign: 'center',
+  },
+  actions: {
+    marginTop: 16,
+    alignItems: 'center',
+    gap: 8,
+  },
+  problem: {
+    fontSize: 14,
+    color: '#b45309',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,344 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Button, FlatList, Pressable, StyleSheet, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { describeAttachment, removeAttachment } from '@/lib/attachments';
+import {
+  isDataError,
+  moderationRepository,
+  type ContextMessage,
+  type ModerationAction,
+  type QueuedMessage,
+} from '@/lib/data';
+import { formatListTimestamp } from '@/lib/format';
+import { formatCategory } from '@/lib/moderation';
+
+// Review queue for moderators: reported messages in the rooms the user
+// moderates, with who reported them and why. Each message can be dismissed
+// or acted on; the server checks the user's role for every action and writes
+// it to the moderation log. A deleted message disappears from open chats
+// through the usual realtime UPDATE.
+
+type QueueStatus = 'loading' | 'ready' | 'failed' | 'denied';
+
+const MUTE_MINUTES = 24 * 60;
+const CONTEXT_RADIUS = 3;
+
+const messageText = (message: { body: string; attachment: ContextMessage['attachment'] }) =>
+  message.body || (message.attachment ? describeAttachment(message.attachment) : '');
+
+export default function ModerationScreen() {
+  const [status, setStatus] = useState<QueueStatus>('loading');
+  const [queue, setQueue] = useState<QueuedMessage[]>([]);
+  const [refreshing, setRefreshing] = useState(false);
+  // Surrounding messages of the reports that were expanded
+  const [contexts, setContexts] = useState<Map<number, ContextMessage[] | 'loading'>>(new Map());
+  const [busyMessageId, setBusyMessageId] = useState<number | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    try {
+      if (!(await moderationRepository.hasAccess())) {
+        setStatus('denied');
+        return;
+      }
+      setQueue(await moderationRepository.listQueue());
+      setStatus('ready');
+    } catch (error) {
+      console.error('Error loading moderation queue', error);
+      setStatus((current) => (current === 'ready' ? current : 'failed'));
+    }
+  }, []);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadQueue();
+    setRefreshing(false);
+  };
+
+  const setContext = (messageId: number, context: ContextMessage[] | 'loading' | null) => {
+    setContexts((current) => {
+      const next = new Map(current);
+      if (context === null) next.delete(messageId);
+      else next.set(messageId, context);
+      return next;
+    });
+  };
+
+  const toggleContext = async (messageId: number) => {
+    if (contexts.has(messageId)) {
+      setContext(messageId, null);
+      return;
+    }
+
+    setContext(messageId, 'loading');
+    try {
+      setContext(messageId, await moderationRepository.getContext(messageId, CONTEXT_RADIUS));
+    } catch (error) {
+      console.error('Error loading message context', error);
+      setContext(messageId, null);
+      Alert.alert('Could not load conversation', 'Please try again.');
+    }
+  };
+
+  const resolve = async (item: QueuedMessage, action: ModerationAction, muteMinutes?: number) => {
+    setBusyMessageId(item.message_id);
+    try {
+      await moderationRepository.resolve(item.message_id, action, { muteMinutes });
+      if (action === 'delete_message' && item.attachment) {
+        // Members may still hold the path; the file has to go as well
+        removeAttachment(item.attachment.path).catch((error) =>
+          console.error('Error removing attachment', error)
+        );
+      }
+      setQueue((current) => current.filter((queued) => queued.message_id !== item.message_id));
+      setContext(item.message_id, null);
+    } catch (error) {
+      console.error('Error resolving report', error);
+      const message = isDataError(error, 'forbidden')
+        ? 'You are not allowed to do this to this member.'
+        : 'Please try again.';
+      Alert.alert('Action failed', message);
+    } finally {
+      setBusyMessageId(null);
+    }
+  };
+
+  const confirmAction = (item: QueuedMessage, action: ModerationAction) => {
+    const author = item.author_username ?? 'the author';
+    const prompts: Record<ModerationAction, { title: string; message: string; confirm: string }> = {
+      dismiss: {
+        title: 'Dismiss reports',
+        message: 'The message stays as it is and leaves the queue.',
+        confirm: 'Dismiss',
+      },
+      delete_message: {
+        title: 'Delete message',
+        message: 'Everyone in the room will see it as deleted.',
+        confirm: 'Delete',
+      },
+      mute_author: {
+        title: 'Mute author',
+        message: `${author} will not be able to send messages in this room for 24 hours.`,
+        confirm: 'Mute',
+      },
+      remove_author: {
+        title: 'Remove from room',
+        message: `Remove ${author} from the room?`,
+        confirm: 'Remove',
+      },
+    };
+    const prompt = prompts[action];
+
+    Alert.alert(prompt.title, prompt.message, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: prompt.confirm,
+        style: action === 'dismiss' ? 'default' : 'destructive',
+        onPress: () => resolve(item, action, action === 'mute_author' ? MUTE_MINUTES : undefined),
+      },
+    ]);
+  };
+
+  if (status === 'loading') {
+    return (
+      <SafeAreaView style={styles.centered}>
+        <ActivityIndicator />
+      </SafeAreaView>
+    );
+  }
+
+  if (status === 'denied' || status === 'failed') {
+    return (
+      <SafeAreaView style={styles.centered}>
+        <Text style={styles.emptyText}>
+          {status === 'denied'
+            ? 'Only moderators and room admins can review reports.'
+            : 'Could not load the queue.'}
+        </Text>
+        {status === 'failed' ? <Button title="Try again" onPress={loadQueue} /> : null}
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView edges={['bottom']} style={styles.container}>
+      <FlatList
+        data={queue}
+        keyExtractor={(item) => String(item.message_id)}
+        refreshing={refreshing}
+        onRefresh={handleRefresh}
+        renderItem={({ item }) => {
+          const context = contexts.get(item.message_id);
+          const busy = busyMessageId === item.message_id;
+
+          return (
+            <View style={styles.card}>
+              <Text style={styles.meta}>
+                {item.room_is_direct ? 'Direct message' : (item.room_name ?? 'Room')} ·{' '}
+                {formatListTimestamp(item.message_created_at)}
+              </Text>
+              <Text style={styles.author}>{item.author_username ?? 'Unknown user'}</Text>
+              <Text style={[styles.body, item.deleted_at !== null && styles.deleted]}>
+                {item.deleted_at !== null ? 'Message deleted' : messageText(item)}
+              </Text>
+
+              {item.reports.map((report) => (
+                <View key={report.id} style={styles.report}>
+                  <Text style={styles.reportReason}>
+                    {formatCategory(report.reason)} ·{' '}
+                    {report.source === 'moderation'
+                      ? 'Flagged automatically'
+                      : `Reported by ${report.reporter_username ?? 'unknown user'}`}
+                  </Text>
+                  {report.details ? <Text style={styles.reportDetails}>{report.details}</Text> : null}
+                </View>
+              ))}
+
+              <Pressable
+                onPress={() => toggleContext(item.message_id)}
+                accessibilityRole="button"
+                style={styles.contextToggle}>
+                <Text style={styles.link}>{context ? 'Hide conversation' : 'Show conversation'}</Text>
+              </Pressable>
+              {context === 'loading' ? <ActivityIndicator /> : null}
+              {context && context !== 'loading' ? (
+                <View style={styles.context}>
+                  {context.map((message) => (
+                    <Text
+                      key={message.id}
+                      style={[styles.contextLine, message.id === item.message_id && styles.contextTarget]}>
+                      <Text style={styles.contextAuthor}>{message.username ?? 'Unknown user'}: </Text>
+                      {message.deleted_at !== null ? 'Message deleted' : messageText(message)}
+                    </Text>
+                  ))}
+                </View>
+              ) : null}
+
+              {busy ? (
+                <ActivityIndicator style={styles.actions} />
+              ) : (
+                <View style={styles.actions}>
+                  <Button title="Dismiss" onPress={() => confirmAction(item, 'dismiss')} />
+                  {item.deleted_at === null ? (
+                    <Button
+                      title="Delete"
+                      color="#dc2626"
+                      onPress={() => confirmAction(item, 'delete_message')}
+                    />
+                  ) : null}
+                  <Button
+                    title="Mute 24h"
+                    color="#dc2626"
+                    onPress={() => confirmAction(item, 'mute_author')}
+                  />
+                  <Button
+                    title="Remove"
+                    color="#dc2626"
+                    onPress={() => confirmAction(item, 'remove_author')}
+                  />
+                </View>
+              )}
+            </View>
+          );
+        }}
+        ListEmptyComponent={
+          <View style={styles.empty}>
+            <Text style={styles.emptyText}>Nothing to review.</Text>
+          </View>
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    gap: 12,
+  },
+  card: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#ddd',
+    gap: 4,
+  },
+  meta: {
+    fontSize: 12,
+    color: '#888',
+  },
+  author: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  body: {
+    fontSize: 15,
+    color: '#111',
+  },
+  deleted: {
+    fontStyle: 'italic',
+    color: '#888',
+  },
+  report: {
+    marginTop: 6,
+    paddingLeft: 8,
+    borderLeftWidth: 2,
+    borderLeftColor: '#dc2626',
+  },
+  reportReason: {
+    fontSize: 13,
+    color: '#555',
+  },
+  reportDetails: {
+    fontSize: 13,
+    color: '#111',
+  },
+  contextToggle: {
+    paddingVertical: 6,
+  },
+  link: {
+    fontSize: 14,
+    color: '#0a7ea4',
+  },
+  context: {
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: '#f4f4f5',
+    gap: 4,
+  },
+  contextLine: {
+    fontSize: 13,
+    color: '#555',
+  },
+  contextTarget: {
+    color: '#111',
+    fontWeight: '600',
+  },
+  contextAuthor: {
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'flex-end',
+    marginTop: 4,
+  },
+  empty: {
+    padding: 16,
+    alignItems: 'center',
+  },
+  emptyText: {
+    color: '#555',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,125 @@
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Button, StyleSheet, Text, TextInput, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+
+import { UserPicker } from '@/components/user-picker';
+import { useSession } from '@/hooks/use-session';
+import { profileRepository, roomRepository } from '@/lib/data';
+import type { MemberProfile } from '@/lib/rooms';
+
+// "New group": name a room and pick who is in it. The creator becomes the
+// group's owner (see create_group_room); everyone picked joins as a member.
+
+export default function NewGroupScreen() {
+  const router = useRouter();
+  const { user } = useSession();
+  const userId = user?.id;
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [profiles, setProfiles] = useState<MemberProfile[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const loadProfiles = async () => {
+      try {
+        setProfiles(await profileRepository.listOthers(userId));
+      } catch (error) {
+        console.error('Error loading profiles', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadProfiles();
+  }, [userId]);
+
+  const toggleSelected = (userId: string) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (next.has(userId)) {
+        next.delete(userId);
+      } else {
+        next.add(userId);
+      }
+      return next;
+    });
+  };
+
+  const canCreate = name.trim().length > 0 && selectedIds.size > 0 && !creating;
+
+  const handleCreate = async () => {
+    if (!canCreate) return;
+
+    setCreating(true);
+    try {
+      const roomId = await roomRepository.createGroup(name, [...selectedIds]);
+      router.dismissTo({ pathname: '/(tabs)/chat', params: { roomId } });
+    } catch (error) {
+      console.error('Error creating group', error);
+      Alert.alert('Could not create group', 'Please try again.');
+      setCreating(false);
+    }
+  };
+
+  return (
+    <SafeAreaView edges={['bottom']} style={styles.container}>
+      <View style={styles.form}>
+        <TextInput
+          style={styles.input}
+          placeholder="Group name"
+          value={name}
+          onChangeText={setName}
+          maxLength={80}
+          autoFocus
+        />
+        <Text style={styles.sectionLabel}>
+          {selectedIds.size > 0 ? `${selectedIds.size} selected` : 'Add people'}
+        </Text>
+      </View>
+      {loading ? (
+        <ActivityIndicator style={styles.loading} />
+      ) : (
+        <UserPicker profiles={profiles} selectedIds={selectedIds} onToggle={toggleSelected} />
+      )}
+      <View style={styles.footer}>
+        <Button
+          title={creating ? 'Creating…' : 'Create group'}
+          onPress={handleCreate}
+          disabled={!canCreate}
+        />
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  form: {
+    padding: 16,
+    gap: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 8,
+    padding: 10,
+  },
+  sectionLabel: {
+    fontSize: 13,
+    color: '#555',
+  },
+  loading: {
+    marginTop: 24,
+  },
+  footer: {
+    padding: 16,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: '#ddd',
+  },
+});
@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { Button, StyleSheet, Text, TextInput, View } from 'react-native';
+import { useRouter } from 'expo-router';
+
+import { PasswordStrengthMeter } from '@/components/password-strength-meter';
+import { describeAuthError, getPasswordStrength } from '@/lib/auth';
+import { supabase } from '@/lib/supabaseClient';
+
+// Reached from a password reset email via app/auth-callback.tsx, which has
+// already signed the user in with the link's recovery session.
+
+export default function ResetPasswordScreen() {
+  const router = useRouter();
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    const strength = getPasswordStrength(password);
+    if (strength.problems.length > 0) {
+      setError(`Choose a stronger password: ${strength.problems.join(', ')}.`);
+      return;
+    }
+    if (password !== confirmation) {
+      setError('The passwords do not match.');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const { error: updateError } = await supabase.auth.updateUser({ password });
+      if (updateError) throw updateError;
+      router.replace('/(tabs)/chat');
+    } catch (saveError) {
+      console.error('Error updating password', saveError);
+      setError(describeAuthError(saveError));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Choose a new password</Text>
+      <TextInput
+        style={styles.input}
+        placeholder="New password"
+        secureTextEntry
+        autoComplete="new-password"
+        value={password}
+        onChangeText={setPassword}
+      />
+      <PasswordStrengthMeter password={password} />
+      <TextInput
+        style={styles.input}
+        placeholder="Repeat new password"
+        secureTextEntry
+        autoComplete="new-password"
+        value={confirmation}
+        onChangeText={setConfirmation}
+      />
+      {error ? <Text style={styles.error}>{error}</Text> : null}
+      <Button title={loading ? 'Saving…' : 'Save password'} onPress={handleSave} disabled={loading} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 16,
+    gap: 12,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '600',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 8,
+    padding: 10,
+  },
+  error: {
+    padding: 10,
+    borderRadius: 8,
+    fontSize: 14,
+    color: '#991b1b',
+    backgroundColor: '#fee2e2',
+  },
+});
@@ -0,0 +1,629 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Button,
+  FlatList,
+  Modal,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+
+import { MessageActions, type MessageAction } from '@/components/message-actions';
+import { UserAvatar } from '@/components/user-avatar';
+import { UserPicker } from '@/components/user-picker';
+import { useAttachmentUrl } from '@/hooks/use-attachment-url';
+import { useBlockedUserIds } from '@/hooks/use-blocks';
+import { useSession } from '@/hooks/use-session';
+import { pickAttachment } from '@/lib/attachments';
+import { blockUser, unblockUser } from '@/lib/blocks';
+import { memberRepository, profileRepository, roomRepository } from '@/lib/data';
+import { subscribeToRoom } from '@/lib/realtime';
+import {
+  canAddMembers,
+  canChangeRole,
+  canEditRoom,
+  canRemoveMember,
+  ROLE_LABELS,
+  uploadRoomAvatar,
+  type MemberProfile,
+  type RoomInfo,
+  type RoomMember,
+} from '@/lib/rooms';
+
+// Room details: name, topic, avatar and members with their roles. Owners and
+// admins edit the room and manage people below them, the owner can hand the
+// room over or archive it, and anyone but the owner can leave. The buttons
+// follow the same rules as the room RPCs and room_members policies, which
+// have the final say. Changes made elsewhere arrive over Realtime. Any member
+// can also be blocked or unblocked from here.
+
+export default function RoomDetailsScreen() {
+  const router = useRouter();
+  const { roomId } = useLocalSearchParams<{ roomId: string }>();
+  const { user } = useSession();
+  const currentUserId = user?.id ?? null;
+  const [loading, setLoading] = useState(true);
+  const [room, setRoom] = useState<RoomInfo | null>(null);
+  const [members, setMembers] = useState<RoomMember[]>([]);
+  const [editing, setEditing] = useState(false);
+  const [draftName, setDraftName] = useState('');
+  const [draftTopic, setDraftTopic] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [uploadingAvatar, setUploadingAvatar] = useState(false);
+  const [selectedMember, setSelectedMember] = useState<RoomMember | null>(null);
+  const [pickerVisible, setPickerVisible] = useState(false);
+  const [candidates, setCandidates] = useState<MemberProfile[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [adding, setAdding] = useState(false);
+  // Set while we leave, so our own removal is not reported as being removed
+  const leavingRef = useRef(false);
+  const avatarUrl = useAttachmentUrl(room?.avatar_path ?? null);
+  const blockedUserIds = useBlockedUserIds();
+
+  const myRole = members.find((member) => member.userId === currentUserId)?.role ?? null;
+  const archived = Boolean(room?.archived_at);
+  const editable = canEditRoom(myRole) && !archived && !room?.is_direct;
+
+  const loadRoom = useCallback(async () => {
+    try {
+      setRoom(await roomRepository.get(roomId));
+    } catch (error) {
+      console.error('Error loading room', error);
+    }
+  }, [roomId]);
+
+  const loadMembers = useCallback(async () => {
+    try {
+      setMembers(await memberRepository.list(roomId));
+    } catch (error) {
+      console.error('Error loading room members', error);
+    }
+  }, [roomId]);
+
+  useEffect(() => {
+    const init = async () => {
+      setLoading(true);
+      try {
+        await Promise.all([loadRoom(), loadMembers()]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    init();
+  }, [loadMembers, loadRoom]);
+
+  // Renames, role changes and people joining or leaving, made by anyone
+  useEffect(() => {
+    if (!currentUserId) return;
+
+    return subscribeToRoom(roomId, (event) => {
+      if (event.type === 'resync') {
+        loadRoom();
+        loadMembers();
+        return;
+      }
+      if (event.type === 'member_removed') {
+        if (event.userId !== currentUserId) {
+          loadMembers();
+        } else if (!leavingRef.current) {
+          Alert.alert('Removed from room', 'You are no longer a member of this room.');
+          router.dismissTo('/(tabs)/inbox');
+        }
+        return;
+      }
+      if (event.type !== 'change') return;
+
+      if (event.table === 'rooms' && event.payload.eventType === 'UPDATE') {
+        const changes = event.payload.new;
+        setRoom((current) => (current ? { ...current, ...changes } : current));
+      } else if (event.table === 'room_members') {
+        loadMembers();
+      }
+    });
+  }, [currentUserId, loadMembers, loadRoom, roomId, router]);
+
+  // Everyone with a profile who is not in the room yet
+  const nonMembers = useMemo(() => {
+    const memberIds = new Set(members.map((member) => member.userId));
+    return candidates.filter((profile) => !memberIds.has(profile.id));
+  }, [candidates, members]);
+
+  const startEditing = () => {
+    setDraftName(room?.name ?? '');
+    setDraftTopic(room?.topic ?? '');
+    setEditing(true);
+  };
+
+  const saveDetails = async () => {
+    if (!room || !draftName.trim()) return;
+
+    setSaving(true);
+    try {
+      const topic = draftTopic.trim() || null;
+      await roomRepository.updateDetails(roomId, { name: draftName, topic, avatarPath: room.avatar_path });
+      setRoom({ ...room, name: draftName.trim(), topic });
+      setEditing(false);
+    } catch (error) {
+      console.error('Error updating room', error);
+      Alert.alert('Could not save changes', 'Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const changeAvatar = async () => {
+    if (!room) return;
+
+    try {
+      const file = await pickAttachment('library');
+      if (!file) return;
+
+      setUploadingAvatar(true);
+      const avatarPath = await uploadRoomAvatar(roomId, file);
+      await roomRepository.updateDetails(roomId, { name: room.name ?? '', topic: room.topic, avatarPath });
+      setRoom({ ...room, avatar_path: avatarPath });
+    } catch (error) {
+      console.error('Error updating room avatar', error);
+      Alert.alert('Could not update photo', 'Please try again.');
+    } finally {
+      setUploadingAvatar(false);
+    }
+  };
+
+  const openPicker = async () => {
+    setSelectedIds(new Set());
+    setPickerVisible(true);
+
+    if (!currentUserId) return;
+    try {
+      setCandidates(await profileRepository.listOthers(currentUserId));
+    } catch (error) {
+      console.error('Error loading profiles', error);
+    }
+  };
+
+  const toggleSelected = (userId: string) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (next.has(userId)) {
+        next.delete(userId);
+      } else {
+        next.add(userId);
+      }
+      return next;
+    });
+  };
+
+  const handleAdd = async () => {
+    setAdding(true);
+    try {
+      await memberRepository.add(roomId, [...selectedIds]);
+      setPickerVisible(false);
+      await loadMembers();
+    } catch (error) {
+      console.error('Error adding room members', error);
+      Alert.alert('Could not add people', 'Only owners and admins can add people to this room.');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  // Runs a member change and reloads the list; the server rejects anything the
+  // current role does not allow
+  const runMemberChange = async (change: () => Promise<void>, failureTitle: string) => {
+    try {
+      await change();
+      await loadMembers();
+    } catch (error) {
+      console.error(`Error: ${failureTitle}`, error);
+      Alert.alert(failureTitle, 'You are not allowed to make this change.');
+    }
+  };
+
+  const confirmRemove = (member: RoomMember) => {
+    const name = member.profile?.username ?? 'this person';
+    Alert.alert('Remove member', `Remove ${name} from the room?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: () =>
+          runMemberChange(() => memberRepository.remove(roomId, member.userId), 'Could not remove member'),
+      },
+    ]);
+  };
+
+  const confirmTransfer = (member: RoomMember) => {
+    const name = member.profile?.username ?? 'this person';
+    Alert.alert('Transfer ownership', `Make ${name} the owner? You will stay on as an admin.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Transfer',
+        onPress: () =>
+          runMemberChange(
+            () => memberRepository.transferOwnership(roomId, member.userId),
+            'Could not transfer ownership'
+          ),
+      },
+    ]);
+  };
+
+  const confirmBlock = (member: RoomMember) => {
+    const name = member.profile?.username ?? 'this user';
+    Alert.alert(
+      `Block ${name}?`,
+      'Their messages will be collapsed and neither of you can start a direct conversation. ' +
+        'You can unblock them from Account.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Block',
+          style: 'destructive',
+          onPress: () => {
+            blockUser(member.userId).catch((error) => {
+              console.error('Error blocking user', error);
+              Alert.alert('Block failed', `${name} could not be blocked. Please try again.`);
+            });
+          },
+        },
+      ]
+    );
+  };
+
+  const getMemberActions = (member: RoomMember): MessageAction[] => {
+    const actions: MessageAction[] = [];
+    if (member.userId === currentUserId) return actions;
+
+    if (blockedUserIds.has(member.userId)) {
+      actions.push({
+        label: 'Unblock',
+        onPress: () => {
+          unblockUser(member.userId).catch((error) => {
+            console.error('Error unblocking user', error);
+            Alert.alert('Unblock failed', 'Please try again.');
+          });
+        },
+      });
+    } else {
+      actions.push({ label: 'Block', destructive: true, onPress: () => confirmBlock(member) });
+    }
+    // Archived rooms keep their members as they are
+    if (archived) return actions;
+
+    if (canChangeRole(myRole, member.role)) {
+      const promote = member.role !== 'admin';
+      actions.push({
+        label: promote ? 'Make admin' : 'Remove admin',
+        onPress: () =>
+          runMemberChange(
+            () => memberRepository.setRole(roomId, member.userId, promote ? 'admin' : 'member'),
+            'Could not change role'
+          ),
+      });
+    }
+    if (myRole === 'owner') {
+      actions.push({ label: 'Transfer ownership', onPress: () => confirmTransfer(member) });
+    }
+    if (canRemoveMember(myRole, member.role)) {
+      actions.push({ label: 'Remove from room', destructive: true, onPress: () => confirmRemove(member) });
+    }
+    return actions;
+  };
+
+  const confirmLeave = () => {
+    if (!currentUserId) return;
+    Alert.alert('Leave room', 'You will stop receiving messages from this room.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Leave',
+        style: 'destructive',
+        onPress: async () => {
+          leavingRef.current = true;
+          try {
+            await memberRepository.remove(roomId, currentUserId);
+            router.dismissTo('/(tabs)/inbox');
+          } catch (error) {
+            leavingRef.current = false;
+            console.error('Error leaving room', error);
+            Alert.alert('Could not leave room', 'Please try again.');
+          }
+        },
+      },
+    ]);
+  };
+
+  const confirmArchive = () => {
+    Alert.alert('Archive room', 'Nobody will be able to send new messages. This cannot be undone.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Archive',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await roomRepository.archive(roomId);
+            await loadRoom();
+          } catch (error) {
+            console.error('Error archiving room', error);
+            Alert.alert('Could not archive room', 'Please try again.');
+          }
+        },
+      },
+    ]);
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.centered}>
+        <ActivityIndicator />
+      </SafeAreaView>
+    );
+  }
+
+  const header = (
+    <View>
+      <View style={styles.summary}>
+        <Pressable
+          onPress={changeAvatar}
+          disabled={!editable || uploadingAvatar}
+          accessibilityRole={editable ? 'button' : undefined}
+          accessibilityLabel="Change room photo">
+          <UserAvatar id={roomId} name={room?.name ?? null} avatarUrl={avatarUrl} size={72} />
+          {uploadingAvatar ? <ActivityIndicator style={StyleSheet.absoluteFill} /> : null}
+        </Pressable>
+        {editing ? (
+          <View style={styles.form}>
+            <TextInput
+              style={styles.input}
+              placeholder="Room name"
+              value={draftName}
+              onChangeText={setDraftName}
+              maxLength={80}
+            />
+            <TextInput
+              style={[styles.input, styles.topicInput]}
+              placeholder="Topic"
+              value={draftTopic}
+              onChangeText={setDraftTopic}
+              maxLength={500}
+              multiline
+            />
+            <View style={styles.formButtons}>
+              <Button title="Cancel" onPress={() => setEditing(false)} />
+              <Button
+                title={saving ? 'Saving…' : 'Save'}
+                onPress={saveDetails}
+                disabled={saving || !draftName.trim()}
+              />
+            </View>
+          </View>
+        ) : (
+          <>
+            <Text style={styles.name}>{room?.name ?? 'Room'}</Text>
+            {room?.topic ? <Text style={styles.topic}>{room.topic}</Text> : null}
+            {archived ? <Text style={styles.archived}>Archived</Text> : null}
+            {editable ? <Button title="Edit name and topic" onPress={startEditing} /> : null}
+          </>
+        )}
+      </View>
+      <Text style={styles.sectionLabel}>
+        {members.length === 1 ? '1 member' : `${members.length} members`}
+      </Text>
+      {canAddMembers(myRole) && !archived ? (
+        <>
+          <Pressable onPress={openPicker} accessibilityRole="button" style={styles.row}>
+            <Text style={styles.link}>Add people</Text>
+          </Pressable>
+          <Pressable
+            onPress={() => router.push({ pathname: '/room/[roomId]/invites', params: { roomId } })}
+            accessibilityRole="button"
+            style={styles.row}>
+            <Text style={styles.link}>Invite links</Text>
+          </Pressable>
+        </>
+      ) : null}
+    </View>
+  );
+
+  const footer = (
+    <View style={styles.footer}>
+      {myRole === 'owner' ? (
+        <Text style={styles.hint}>Transfer ownership to someone else before leaving.</Text>
+      ) : myRole ? (
+        <Pressable onPress={confirmLeave} accessibilityRole="button" style={styles.row}>
+          <Text style={styles.destructive}>Leave room</Text>
+        </Pressable>
+      ) : null}
+      {myRole === 'owner' && !archived ? (
+        <Pressable onPress={confirmArchive} accessibilityRole="button" style={styles.row}>
+          <Text style={styles.destructive}>Archive room</Text>
+        </Pressable>
+      ) : null}
+    </View>
+  );
+
+  return (
+    <SafeAreaView edges={['bottom']} style={styles.container}>
+      <FlatList
+        data={members}
+        keyExtractor={(item) => item.userId}
+        ListHeaderComponent={header}
+        ListFooterComponent={footer}
+        keyboardShouldPersistTaps="handled"
+        renderItem={({ item }) => {
+          const isMe = item.userId === currentUserId;
+          const manageable = getMemberActions(item).length > 0;
+
+          return (
+            <Pressable
+              onPress={() => setSelectedMember(item)}
+              disabled={!manageable}
+              accessibilityRole={manageable ? 'button' : undefined}
+              accessibilityHint={manageable ? 'Shows member options' : undefined}
+              style={[styles.row, styles.memberRow]}>
+              <UserAvatar
+                id={item.userId}
+                name={item.profile?.username ?? null}
+                avatarUrl={item.profile?.avatar_url ?? null}
+                style={styles.avatar}
+              />
+              <View style={styles.text}>
+                <Text style={styles.username} numberOfLines={1}>
+                  {item.profile?.username ?? 'Unknown user'}
+                  {isMe ? ' (you)' : ''}
+                </Text>
+                <Text style={styles.role}>{ROLE_LABELS[item.role]}</Text>
+              </View>
+            </Pressable>
+          );
+        }}
+      />
+      <MessageActions
+        visible={selectedMember !== null}
+        actions={selectedMember ? getMemberActions(selectedMember) : []}
+        onClose={() => setSelectedMember(null)}
+      />
+      <Modal
+        visible={pickerVisible}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setPickerVisible(false)}>
+        <SafeAreaView style={styles.container}>
+          <View style={styles.pickerHeader}>
+            <Button title="Cancel" onPress={() => setPickerVisible(false)} />
+            <Text style={styles.pickerTitle}>Add people</Text>
+            <Button
+              title={adding ? 'Adding…' : 'Add'}
+              onPress={handleAdd}
+              disabled={selectedIds.size === 0 || adding}
+            />
+          </View>
+          <UserPicker
+            profiles={nonMembers}
+            selectedIds={selectedIds}
+            onToggle={toggleSelected}
+            emptyText="Everyone is already here."
+          />
+        </SafeAreaView>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  summary: {
+    alignItems: 'center',
+    padding: 16,
+    gap: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#ddd',
+  },
+  name: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  topic: {
+    fontSize: 14,
+    color: '#555',
+    textAlign: 'center',
+  },
+  archived: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#b45309',
+  },
+  form: {
+    alignSelf: 'stretch',
+    gap: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 8,
+    padding: 10,
+  },
+  topicInput: {
+    minHeight: 60,
+  },
+  formButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  sectionLabel: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 4,
+    fontSize: 13,
+    color: '#555',
+  },
+  row: {
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#ddd',
+  },
+  memberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  link: {
+    fontSize: 16,
+    color: '#0a7ea4',
+    fontWeight: '600',
+  },
+  avatar: {
+    marginRight: 12,
+  },
+  text: {
+    flex: 1,
+  },
+  username: {
+    fontSize: 16,
+  },
+  role: {
+    fontSize: 12,
+    color: '#888',
+  },
+  footer: {
+    marginTop: 24,
+  },
+  hint: {
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 13,
+    color: '#888',
+  },
+  destructive: {
+    fontSize: 16,
+    color: '#dc2626',
+  },
+  pickerHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#ddd',
+  },
+  pickerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,262 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Button,
+  FlatList,
+  Pressable,
+  Share,
+  StyleSheet,
+  Switch,
+  Text,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalSearchParams } from 'expo-router';
+import * as Clipboard from 'expo-clipboard';
+
+import { MessageActions, type MessageAction } from '@/components/message-actions';
+import { inviteRepository } from '@/lib/data';
+import { buildInviteLink, describeInvite, isInviteActive, type RoomInvite } from '@/lib/invites';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const EXPIRY_OPTIONS = [
+  { label: 'Never', ms: null },
+  { label: '1 hour', ms: HOUR_MS },
+  { label: '1 day', ms: 24 * HOUR_MS },
+  { label: '7 days', ms: 7 * 24 * HOUR_MS },
+];
+
+// Invite links for a room, for its owners and admins. New links can expire
+// and be limited to one use; existing ones can be shared, copied or revoked.
+
+export default function RoomInvitesScreen() {
+  const { roomId } = useLocalSearchParams<{ roomId: string }>();
+  const [loading, setLoading] = useState(true);
+  const [invites, setInvites] = useState<RoomInvite[]>([]);
+  const [expiryIndex, setExpiryIndex] = useState(0);
+  const [singleUse, setSingleUse] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [selectedInvite, setSelectedInvite] = useState<RoomInvite | null>(null);
+
+  const loadInvites = useCallback(async () => {
+    try {
+      setInvites(await inviteRepository.list(roomId));
+    } catch (error) {
+      console.error('Error loading invites', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [roomId]);
+
+  useEffect(() => {
+    loadInvites();
+  }, [loadInvites]);
+
+  const shareInvite = (invite: RoomInvite) => {
+    Share.share({ message: buildInviteLink(invite.token) }).catch((error) =>
+      console.error('Error sharing invite', error)
+    );
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const expiryMs = EXPIRY_OPTIONS[expiryIndex].ms;
+      const invite = await inviteRepository.create(roomId, {
+        expiresAt: expiryMs === null ? null : new Date(Date.now() + expiryMs),
+        singleUse,
+      });
+      setInvites((current) => [invite, ...current]);
+      shareInvite(invite);
+    } catch (error) {
+      console.error('Error creating invite', error);
+      Alert.alert('Could not create invite', 'Only owners and admins can invite people to this room.');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const confirmRevoke = (invite: RoomInvite) => {
+    Alert.alert('Revoke link', 'People who have not used this link yet will no longer be able to join.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Revoke',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await inviteRepository.revoke(invite.id);
+            await loadInvites();
+          } catch (error) {
+            console.error('Error revoking invite', error);
+            Alert.alert('Could not revoke link', 'Please try again.');
+          }
+        },
+      },
+    ]);
+  };
+
+  const getInviteActions = (invite: RoomInvite): MessageAction[] => [
+    { label: 'Share link', onPress: () => shareInvite(invite) },
+    {
+      label: 'Copy link',
+      onPress: () => {
+        Clipboard.setStringAsync(buildInviteLink(invite.token)).catch((error) =>
+          console.error('Error copying invite', error)
+        );
+      },
+    },
+    { label: 'Revoke link', destructive: true, onPress: () => confirmRevoke(invite) },
+  ];
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.centered}>
+        <ActivityIndicator />
+      </SafeAreaView>
+    );
+  }
+
+  const form = (
+    <View style={styles.form}>
+      <Text style={styles.sectionLabel}>Expires after</Text>
+      <View style={styles.options}>
+        {EXPIRY_OPTIONS.map((option, index) => (
+          <Pressable
+            key={option.label}
+            onPress={() => setExpiryIndex(index)}
+            accessibilityRole="radio"
+            accessibilityState={{ checked: index === expiryIndex }}
+            style={[styles.option, index === expiryIndex && styles.optionSelected]}>
+            <Text style={[styles.optionLabel, index === expiryIndex && styles.optionLabelSelected]}>
+              {option.label}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+      <View style={styles.switchRow}>
+        <Text style={styles.switchLabel}>Single use</Text>
+        <Switch value={singleUse} onValueChange={setSingleUse} />
+      </View>
+      <Button
+        title={creating ? 'Creating…' : 'Create invite link'}
+        onPress={handleCreate}
+        disabled={creating}
+      />
+      <Text style={styles.sectionLabel}>Links</Text>
+    </View>
+  );
+
+  return (
+    <SafeAreaView edges={['bottom']} style={styles.container}>
+      <FlatList
+        data={invites}
+        keyExtractor={(item) => item.id}
+        ListHeaderComponent={form}
+        renderItem={({ item }) => {
+          const active = isInviteActive(item);
+
+          return (
+            <Pressable
+              onPress={() => setSelectedInvite(item)}
+              disabled={!active}
+              accessibilityRole={active ? 'button' : undefined}
+              style={styles.row}>
+              <Text style={[styles.link, !active && styles.inactive]} numberOfLines={1}>
+                {buildInviteLink(item.token)}
+              </Text>
+              <Text style={styles.meta}>
+                {item.revoked_at ? 'Revoked' : active ? describeInvite(item) : 'No longer valid'}
+              </Text>
+            </Pressable>
+          );
+        }}
+        ListEmptyComponent={
+          <View style={styles.empty}>
+            <Text>No invite links yet.</Text>
+          </View>
+        }
+      />
+      <MessageActions
+        visible={selectedInvite !== null}
+        actions={selectedInvite ? getInviteActions(selectedInvite) : []}
+        onClose={() => setSelectedInvite(null)}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  form: {
+    padding: 16,
+    gap: 12,
+  },
+  sectionLabel: {
+    fontSize: 13,
+    color: '#555',
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ccc',
+  },
+  optionSelected: {
+    borderColor: '#0a7ea4',
+    backgroundColor: '#e0f2fe',
+  },
+  optionLabel: {
+    fontSize: 14,
+    color: '#111',
+  },
+  optionLabelSelected: {
+    color: '#0a7ea4',
+    fontWeight: '600',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  switchLabel: {
+    fontSize: 16,
+  },
+  row: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#ddd',
+  },
+  link: {
+    fontSize: 14,
+    color: '#0a7ea4',
+  },
+  inactive: {
+    color: '#999',
+    textDecorationLine: 'line-through',
+  },
+  meta: {
+    marginTop: 2,
+    fontSize: 12,
+    color: '#888',
+  },
+  empty: {
+    padding: 16,
+    alignItems: 'center',
+  },
+});
@@ -0,0 +1,74 @@
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { UserAvatar } from '@/components/user-avatar';
+
+export type ChatHeaderProps = {
+  title: string;
+  subtitle?: string | null;
+  avatar?: { id: string; name: string | null; avatarUrl: string | null; online?: boolean } | null;
+  // Makes the title tappable, e.g. to open the room's member list
+  onPress?: () => void;
+};
+
+// Title bar above the message list: room name, or the other person (with
+// their presence) in direct rooms.
+export function ChatHeader({ title, subtitle, avatar, onPress }: ChatHeaderProps) {
+  return (
+    <SafeAreaView edges={['top']} style={styles.container}>
+      <Pressable
+        onPress={onPress}
+        disabled={!onPress}
+        accessibilityRole={onPress ? 'button' : undefined}
+        style={styles.row}>
+        {avatar ? (
+          <UserAvatar
+            id={avatar.id}
+            name={avatar.name}
+            avatarUrl={avatar.avatarUrl}
+            online={avatar.online}
+            size={32}
+            style={styles.avatar}
+          />
+        ) : null}
+        <View style={styles.text}>
+          <Text style={styles.title} numberOfLines={1}>
+            {title}
+          </Text>
+          {subtitle ? (
+            <Text style={styles.subtitle} numberOfLines={1}>
+              {subtitle}
+            </Text>
+          ) : null}
+        </View>
+      </Pressable>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#ddd',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  avatar: {
+    marginRight: 10,
+  },
+  text: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  subtitle: {
+    fontSize: 12,
+    color: '#888',
+  },
+});
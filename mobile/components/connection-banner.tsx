@@ -0,0 +1,32 @@
+import { ActivityIndicator, StyleSheet, Text, View } from 'react-native';
+
+import { useConnectionState } from '@/hooks/use-connection-state';
+
+// Thin strip shown while the realtime connection is being re-established.
+// Messages that arrive meanwhile are backfilled once it is back.
+export function ConnectionBanner() {
+  const state = useConnectionState();
+  if (state !== 'reconnecting') return null;
+
+  return (
+    <View style={styles.banner} accessibilityRole="alert">
+      <ActivityIndicator size="small" color="#92400e" />
+      <Text style={styles.label}>Reconnecting…</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 6,
+    backgroundColor: '#fef3c7',
+  },
+  label: {
+    fontSize: 13,
+    color: '#92400e',
+  },
+});
@@ -0,0 +1,54 @@
+import { Modal, Pressable, ScrollView, StyleSheet } from 'react-native';
+import { Image } from 'expo-image';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { IconSymbol } from '@/components/ui/icon-symbol';
+
+// Full-screen view of an image attachment; pinch to zoom on iOS.
+export function ImageViewer({ uri, onClose }: { uri: string | null; onClose: () => void }) {
+  return (
+    <Modal visible={uri !== null} animationType="fade" onRequestClose={onClose}>
+      <SafeAreaView style={styles.container}>
+        <ScrollView
+          contentContainerStyle={styles.content}
+          maximumZoomScale={4}
+          minimumZoomScale={1}
+          centerContent
+          showsHorizontalScrollIndicator={false}
+          showsVerticalScrollIndicator={false}>
+          {uri ? <Image source={{ uri }} style={styles.image} contentFit="contain" /> : null}
+        </ScrollView>
+        <Pressable
+          onPress={onClose}
+          accessibilityRole="button"
+          accessibilityLabel="Close"
+          style={styles.close}>
+          <IconSymbol name="xmark" size={24} color="#fff" />
+        </Pressable>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  content: {
+    flexGrow: 1,
+    justifyContent: 'center',
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+  },
+  close: {
+    position: 'absolute',
+    top: 48,
+    right: 16,
+    padding: 8,
+    borderRadius: 20,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+});
@@ -0,0 +1,119 @@
+import { Modal, Pressable, StyleSheet, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+export type MessageAction = {
+  label: string;
+  destructive?: boolean;
+  onPress: () => void;
+};
+
+// Bottom sheet of actions, e.g. for a long-pressed message (with a row of
+// quick reactions when `reactions` is given) or the composer's attach button.
+export function MessageActions({
+  visible,
+  reactions,
+  selectedReactions,
+  onReact,
+  actions,
+  onClose,
+}: {
+  visible: boolean;
+  reactions?: string[];
+  // Emoji the current user has already reacted with
+  selectedReactions?: string[];
+  onReact?: (emoji: string) => void;
+  actions: MessageAction[];
+  onClose: () => void;
+}) {
+  // Close first so follow-up dialogs (e.g. a delete confirmation) are not
+  // stacked on top of the modal
+  const run = (callback: () => void) => {
+    onClose();
+    callback();
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <Pressable style={StyleSheet.absoluteFill} onPress={onClose} accessibilityLabel="Close" />
+        <SafeAreaView edges={['bottom']} style={styles.sheet}>
+          {reactions && onReact ? (
+            <View style={styles.reactions}>
+              {reactions.map((emoji) => (
+                <Pressable
+                  key={emoji}
+                  onPress={() => run(() => onReact(emoji))}
+                  accessibilityRole="button"
+                  accessibilityLabel={`React with ${emoji}`}
+                  style={[styles.reaction, selectedReactions?.includes(emoji) && styles.reactionSelected]}>
+                  <Text style={styles.reactionEmoji}>{emoji}</Text>
+                </Pressable>
+              ))}
+            </View>
+          ) : null}
+          {actions.map((action) => (
+            <Pressable
+              key={action.label}
+              onPress={() => run(action.onPress)}
+              accessibilityRole="button"
+              style={styles.action}>
+              <Text style={[styles.actionLabel, action.destructive && styles.destructive]}>
+                {action.label}
+              </Text>
+            </Pressable>
+          ))}
+          <Pressable onPress={onClose} accessibilityRole="button" style={styles.action}>
+            <Text style={[styles.actionLabel, styles.cancel]}>Cancel</Text>
+          </Pressable>
+        </SafeAreaView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    paddingTop: 8,
+  },
+  reactions: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#ddd',
+  },
+  reaction: {
+    padding: 6,
+    borderRadius: 20,
+  },
+  reactionSelected: {
+    backgroundColor: '#e0f2fe',
+  },
+  reactionEmoji: {
+    fontSize: 26,
+  },
+  action: {
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+  },
+  actionLabel: {
+    fontSize: 16,
+    color: '#111',
+  },
+  destructive: {
+    color: '#dc2626',
+  },
+  cancel: {
+    fontWeight: '600',
+    color: '#0a7ea4',
+  },
+});
@@ -0,0 +1,168 @@
+import { ActivityIndicator, Alert, Pressable, StyleSheet, Text, View } from 'react-native';
+import { Image } from 'expo-image';
+import * as WebBrowser from 'expo-web-browser';
+
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { VoiceNotePlayer } from '@/components/voice-note-player';
+import { useAttachmentUrl } from '@/hooks/use-attachment-url';
+import { formatFileSize, getAttachmentUrl, type MessageAttachment } from '@/lib/attachments';
+
+const MAX_THUMBNAIL_SIZE = 220;
+
+// Scales the image down to fit the thumbnail box, keeping its aspect ratio.
+const getThumbnailSize = (width?: number | null, height?: number | null) => {
+  if (!width || !height) return { width: MAX_THUMBNAIL_SIZE, height: MAX_THUMBNAIL_SIZE * 0.75 };
+  const scale = Math.min(MAX_THUMBNAIL_SIZE / width, MAX_THUMBNAIL_SIZE / height, 1);
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+// An attachment inside a bubble: an inline thumbnail for images, a player for
+// voice notes and a card that downloads the file for everything else. Queued
+// messages pass the local copy as `localUri` and their upload progress.
+export function MessageAttachmentView({
+  attachment,
+  localUri,
+  uploadProgress,
+  position,
+  onOpenImage,
+}: {
+  attachment: MessageAttachment;
+  localUri?: string | null;
+  uploadProgress?: number | null;
+  position: 'left' | 'right';
+  onOpenImage: (uri: string) => void;
+}) {
+  const remoteUrl = useAttachmentUrl(localUri ? null : attachment.path);
+  const uri = localUri ?? remoteUrl;
+  const onRight = position === 'right';
+
+  const progressBar =
+    uploadProgress !== null && uploadProgress !== undefined ? (
+      <View style={styles.progressTrack}>
+        <View style={[styles.progressFill, { width: `${Math.round(uploadProgress * 100)}%` }]} />
+      </View>
+    ) : null;
+
+  if (attachment.kind === 'audio') {
+    return (
+      <View>
+        <VoiceNotePlayer
+          clipId={attachment.path}
+          uri={uri}
+          durationMs={attachment.durationMs}
+          waveform={attachment.waveform}
+          position={position}
+        />
+        {progressBar ? <View style={styles.audioProgress}>{progressBar}</View> : null}
+      </View>
+    );
+  }
+
+  if (attachment.kind === 'image') {
+    const size = getThumbnailSize(attachment.width, attachment.height);
+    return (
+      <Pressable
+        onPress={() => uri && onOpenImage(uri)}
+        disabled={!uri}
+        accessibilityRole="imagebutton"
+        accessibilityLabel={`Photo ${attachment.name}`}
+        style={styles.imageContainer}>
+        {uri ? (
+          <Image source={{ uri }} style={[styles.image, size]} contentFit="cover" />
+        ) : (
+          <View style={[styles.image, styles.imagePlaceholder, size]}>
+            <ActivityIndicator />
+          </View>
+        )}
+        {progressBar}
+      </Pressable>
+    );
+  }
+
+  const download = async () => {
+    try {
+      await WebBrowser.openBrowserAsync(await getAttachmentUrl(attachment.path, attachment.name));
+    } catch (error) {
+      console.error('Error opening attachment', error);
+      Alert.alert('Download failed', 'The file could not be opened. Please try again.');
+    }
+  };
+
+  return (
+    <Pressable
+      onPress={download}
+      disabled={Boolean(localUri)}
+      accessibilityRole="button"
+      accessibilityLabel={`Download ${attachment.name}`}
+      style={[styles.fileCard, onRight ? styles.fileCardRight : styles.fileCardLeft]}>
+      <IconSymbol name="doc.fill" size={28} color={onRight ? '#fff' : '#0a7ea4'} />
+      <View style={styles.fileText}>
+        <Text style={[styles.fileName, onRight && styles.textRight]} numberOfLines={1}>
+          {attachment.name}
+        </Text>
+        <Text style={[styles.fileMeta, onRight && styles.textRight]}>{formatFileSize(attachment.size)}</Text>
+        {progressBar}
+      </View>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  imageContainer: {
+    margin: 4,
+  },
+  image: {
+    borderRadius: 10,
+  },
+  imagePlaceholder: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.08)',
+  },
+  fileCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    minWidth: 200,
+    maxWidth: 260,
+    margin: 6,
+    padding: 10,
+    borderRadius: 10,
+  },
+  fileCardLeft: {
+    backgroundColor: 'rgba(0, 0, 0, 0.06)',
+  },
+  fileCardRight: {
+    backgroundColor: 'rgba(255, 255, 255, 0.18)',
+  },
+  fileText: {
+    flex: 1,
+  },
+  fileName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111',
+  },
+  fileMeta: {
+    marginTop: 2,
+    fontSize: 12,
+    color: '#555',
+  },
+  textRight: {
+    color: '#fff',
+  },
+  audioProgress: {
+    marginHorizontal: 10,
+  },
+  progressTrack: {
+    height: 3,
+    marginTop: 4,
+    borderRadius: 2,
+    overflow: 'hidden',
+    backgroundColor: 'rgba(0, 0, 0, 0.15)',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#22c55e',
+  },
+});
@@ -0,0 +1,48 @@
+import { StyleSheet, Text, View } from 'react-native';
+
+import { getPasswordStrength } from '@/lib/auth';
+
+const COLORS = ['#dc2626', '#f97316', '#eab308', '#22c55e', '#16a34a'];
+
+// Four-segment bar under a new-password field, with what is still missing.
+export function PasswordStrengthMeter({ password }: { password: string }) {
+  if (!password) return null;
+
+  const { score, label, problems } = getPasswordStrength(password);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.bar}>
+        {[1, 2, 3, 4].map((segment) => (
+          <View
+            key={segment}
+            style={[styles.segment, segment <= Math.max(score, 1) && { backgroundColor: COLORS[score] }]}
+          />
+        ))}
+      </View>
+      <Text style={[styles.label, { color: COLORS[score] }]}>
+        {label}
+        {problems.length > 0 ? ` · ${problems.join(', ')}` : ''}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 4,
+  },
+  bar: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  segment: {
+    flex: 1,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#e5e7eb',
+  },
+  label: {
+    fontSize: 12,
+  },
+});
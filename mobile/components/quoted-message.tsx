@@ -0,0 +1,74 @@
+import { Pressable, StyleSheet, Text } from 'react-native';
+
+export type QuotedMessagePreview = {
+  id: number;
+  name: string | null;
+  text: string;
+  deleted?: boolean;
+};
+
+// The parent of a reply, shown inside the reply's bubble. `preview` is null
+// while the parent is still being fetched (or no longer exists).
+export function QuotedMessage({
+  preview,
+  position,
+  onPress,
+}: {
+  preview: QuotedMessagePreview | null;
+  position: 'left' | 'right';
+  onPress?: () => void;
+}) {
+  const onRight = position === 'right';
+
+  return (
+    <Pressable
+      onPress={onPress}
+      disabled={!preview || !onPress}
+      accessibilityRole="button"
+      accessibilityLabel="Show original message"
+      style={[styles.container, onRight ? styles.containerRight : styles.containerLeft]}>
+      <Text style={[styles.name, onRight && styles.textRight]} numberOfLines={1}>
+        {preview?.name ?? 'Original message'}
+      </Text>
+      <Text
+        style={[styles.text, onRight && styles.textRight, (!preview || preview.deleted) && styles.muted]}
+        numberOfLines={2}>
+        {preview ? (preview.deleted ? 'This message was deleted' : preview.text) : 'Message unavailable'}
+      </Text>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 8,
+    marginTop: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderLeftWidth: 3,
+    borderRadius: 6,
+  },
+  containerLeft: {
+    borderLeftColor: '#0a7ea4',
+    backgroundColor: 'rgba(0, 0, 0, 0.06)',
+  },
+  containerRight: {
+    borderLeftColor: '#e0f2fe',
+    backgroundColor: 'rgba(255, 255, 255, 0.18)',
+  },
+  name: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#0a7ea4',
+  },
+  text: {
+    fontSize: 13,
+    color: '#333',
+  },
+  textRight: {
+    color: '#fff',
+  },
+  muted: {
+    fontStyle: 'italic',
+  },
+});
@@ -0,0 +1,76 @@
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+
+import type { ReactionSummary } from '@/lib/reactions';
+
+// Aggregated reactions under a bubble. Tapping a chip toggles the current
+// user's reaction with that emoji.
+export function ReactionChips({
+  reactions,
+  align,
+  onToggle,
+}: {
+  reactions: ReactionSummary[] | undefined;
+  align: 'left' | 'right';
+  onToggle: (emoji: string) => void;
+}) {
+  if (!reactions || reactions.length === 0) return null;
+
+  return (
+    <View style={[styles.row, align === 'right' ? styles.right : styles.left]}>
+      {reactions.map((reaction) => (
+        <Pressable
+          key={reaction.emoji}
+          onPress={() => onToggle(reaction.emoji)}
+          accessibilityRole="button"
+          accessibilityState={{ selected: reaction.mine }}
+          accessibilityLabel={`${reaction.emoji} ${reaction.count}`}
+          style={[styles.chip, reaction.mine && styles.chipMine]}>
+          <Text style={styles.emoji}>{reaction.emoji}</Text>
+          <Text style={[styles.count, reaction.mine && styles.countMine]}>{reaction.count}</Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+    marginTop: 2,
+    marginHorizontal: 8,
+  },
+  left: {
+    justifyContent: 'flex-start',
+  },
+  right: {
+    justifyContent: 'flex-end',
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#fff',
+  },
+  chipMine: {
+    borderColor: '#0a7ea4',
+    backgroundColor: '#e0f2fe',
+  },
+  emoji: {
+    fontSize: 13,
+  },
+  count: {
+    marginLeft: 3,
+    fontSize: 12,
+    color: '#555',
+  },
+  countMine: {
+    color: '#0a7ea4',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,81 @@
+import { StyleSheet, Text, View } from 'react-native';
+
+import { UserAvatar } from '@/components/user-avatar';
+
+export type ReadReceiptReader = {
+  id: string;
+  name: string | null;
+  avatarUrl: string | null;
+};
+
+const MAX_AVATARS = 5;
+
+// Small row under a bubble: "Seen" in direct rooms, or the avatars of the
+// group members whose read pointer stops at this message.
+export function ReadReceipts({
+  seen,
+  readers,
+  align,
+}: {
+  seen?: boolean;
+  readers?: ReadReceiptReader[];
+  align: 'left' | 'right';
+}) {
+  const alignment = align === 'right' ? styles.right : styles.left;
+
+  if (seen) {
+    return (
+      <View style={[styles.row, alignment]}>
+        <Text style={styles.seen}>Seen</Text>
+      </View>
+    );
+  }
+
+  if (!readers || readers.length === 0) return null;
+
+  const visible = readers.slice(0, MAX_AVATARS);
+  const overflow = readers.length - visible.length;
+
+  return (
+    <View style={[styles.row, alignment]}>
+      {visible.map((reader) => (
+        <UserAvatar
+          key={reader.id}
+          id={reader.id}
+          name={reader.name}
+          avatarUrl={reader.avatarUrl}
+          size={16}
+          style={styles.avatar}
+        />
+      ))}
+      {overflow > 0 ? <Text style={styles.overflow}>+{overflow}</Text> : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 2,
+    marginHorizontal: 8,
+  },
+  left: {
+    justifyContent: 'flex-start',
+  },
+  right: {
+    justifyContent: 'flex-end',
+  },
+  avatar: {
+    marginLeft: 2,
+  },
+  seen: {
+    fontSize: 11,
+    color: '#888',
+  },
+  overflow: {
+    marginLeft: 4,
+    fontSize: 11,
+    color: '#888',
+  },
+});
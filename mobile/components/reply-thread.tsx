@@ -0,0 +1,145 @@
+import { ActivityIndicator, FlatList, Modal, Pressable, StyleSheet, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { UserAvatar } from '@/components/user-avatar';
+import { getMessagePreviewText, type ChatMessage } from '@/lib/chatMessages';
+import { formatListTimestamp } from '@/lib/format';
+
+// Full-screen list of a message and every reply to it, oldest first.
+// Tapping an entry closes the thread and jumps to that message in the room.
+export function ReplyThread({
+  parent,
+  replies,
+  loading,
+  onSelect,
+  onClose,
+}: {
+  parent: ChatMessage | null;
+  replies: ChatMessage[];
+  loading: boolean;
+  onSelect: (message: ChatMessage) => void;
+  onClose: () => void;
+}) {
+  const renderEntry = (message: ChatMessage, isParent = false) => (
+    <Pressable
+      onPress={() => onSelect(message)}
+      accessibilityRole="button"
+      style={[styles.entry, isParent && styles.parent]}>
+      <UserAvatar
+        id={String(message.user._id)}
+        name={message.user.name ?? null}
+        avatarUrl={typeof message.user.avatar === 'string' ? message.user.avatar : null}
+        size={28}
+        style={styles.avatar}
+      />
+      <View style={styles.body}>
+        <View style={styles.meta}>
+          <Text style={styles.name} numberOfLines={1}>
+            {message.user.name ?? 'Unknown'}
+          </Text>
+          <Text style={styles.time}>{formatListTimestamp(new Date(message.createdAt))}</Text>
+        </View>
+        <Text style={[styles.text, message.deleted && styles.deleted]}>{getMessagePreviewText(message)}</Text>
+      </View>
+    </Pressable>
+  );
+
+  return (
+    <Modal visible={parent !== null} animationType="slide" onRequestClose={onClose}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Thread</Text>
+          <Text style={styles.close} onPress={onClose}>
+            Close
+          </Text>
+        </View>
+        {parent ? (
+          <FlatList
+            data={replies}
+            keyExtractor={(item) => String(item._id)}
+            ListHeaderComponent={renderEntry(parent, true)}
+            renderItem={({ item }) => renderEntry(item)}
+            ListEmptyComponent={
+              loading ? (
+                <ActivityIndicator style={styles.empty} />
+              ) : (
+                <Text style={[styles.empty, styles.emptyText]}>No replies yet</Text>
+              )
+            }
+          />
+        ) : null}
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#ddd',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  close: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#0a7ea4',
+  },
+  entry: {
+    flexDirection: 'row',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  parent: {
+    backgroundColor: '#f1f5f9',
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#ddd',
+  },
+  avatar: {
+    marginRight: 10,
+  },
+  body: {
+    flex: 1,
+  },
+  meta: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  name: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  time: {
+    fontSize: 12,
+    color: '#888',
+  },
+  text: {
+    marginTop: 2,
+    fontSize: 15,
+    color: '#111',
+  },
+  deleted: {
+    fontStyle: 'italic',
+    color: '#666',
+  },
+  empty: {
+    marginTop: 24,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#888',
+  },
+});
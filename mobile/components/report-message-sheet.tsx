@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { ActivityIndicator, Modal, Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { formatCategory, REPORT_REASONS, type ReportReason } from '@/lib/moderation';
+
+const MAX_DETAILS_LENGTH = 500;
+
+// Bottom sheet for reporting a message: pick a reason, optionally add a note.
+// `onSubmit` resolves once the report is filed; the sheet stays open (and
+// keeps what was entered) when it throws.
+export function ReportMessageSheet({
+  visible,
+  onSubmit,
+  onClose,
+}: {
+  visible: boolean;
+  onSubmit: (reason: ReportReason, details: string) => Promise<void>;
+  onClose: () => void;
+}) {
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const close = () => {
+    setReason(null);
+    setDetails('');
+    onClose();
+  };
+
+  const submit = async () => {
+    if (!reason) return;
+    setSubmitting(true);
+    try {
+      await onSubmit(reason, details.trim());
+      close();
+    } catch {
+      // The caller has already told the user what went wrong
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={close}>
+      <View style={styles.container}>
+        <Pressable style={StyleSheet.absoluteFill} onPress={close} accessibilityLabel="Close" />
+        <SafeAreaView edges={['bottom']} style={styles.sheet}>
+          <Text style={styles.title}>Report message</Text>
+          <Text style={styles.hint}>Moderators will review it. The sender is not told who reported it.</Text>
+          {REPORT_REASONS.map((option) => (
+            <Pressable
+              key={option}
+              onPress={() => setReason(option)}
+              accessibilityRole="radio"
+              accessibilityState={{ selected: reason === option }}
+              style={[styles.option, reason === option && styles.optionSelected]}>
+              <Text style={styles.optionLabel}>{formatCategory(option)}</Text>
+            </Pressable>
+          ))}
+          <TextInput
+            style={styles.input}
+            placeholder="Anything else we should know? (optional)"
+            value={details}
+            onChangeText={setDetails}
+            maxLength={MAX_DETAILS_LENGTH}
+            multiline
+          />
+          <View style={styles.buttons}>
+            <Pressable onPress={close} accessibilityRole="button" style={styles.button}>
+              <Text style={[styles.buttonLabel, styles.cancel]}>Cancel</Text>
+            </Pressable>
+            <Pressable
+              onPress={submit}
+              disabled={!reason || submitting}
+              accessibilityRole="button"
+              style={styles.button}>
+              {submitting ? (
+                <ActivityIndicator />
+              ) : (
+                <Text style={[styles.buttonLabel, styles.destructive, !reason && styles.disabled]}>
+                  Report
+                </Text>
+              )}
+            </Pressable>
+          </View>
+        </SafeAreaView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    paddingTop: 16,
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+    paddingHorizontal: 20,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#666',
+    paddingHorizontal: 20,
+    paddingTop: 4,
+    paddingBottom: 8,
+  },
+  option: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  optionSelected: {
+    backgroundColor: '#e0f2fe',
+  },
+  optionLabel: {
+    fontSize: 16,
+    color: '#111',
+  },
+  input: {
+    marginHorizontal: 20,
+    marginTop: 8,
+    minHeight: 60,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#ccc',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 15,
+    textAlignVertical: 'top',
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+  button: {
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+  },
+  buttonLabel: {
+    fontSize: 16,
+  },
+  cancel: {
+    fontWeight: '600',
+    color: '#0a7ea4',
+  },
+  destructive: {
+    color: '#dc2626',
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+});
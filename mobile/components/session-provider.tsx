@@ -0,0 +1,88 @@
+import { createContext, useCallback, useEffect, useMemo, useState, type ReactNode } from 'react';
+import type { Session, User } from '@supabase/supabase-js';
+
+import { profileRepository } from '@/lib/data';
+import { cacheProfiles, clearLocalCache, getCachedProfile } from '@/lib/localCache';
+import { clearOutbox } from '@/lib/outbox';
+import type { EditableProfile } from '@/lib/profiles';
+import { supabase } from '@/lib/supabaseClient';
+
+export type SessionState = {
+  // True until the stored session has been restored on launch
+  loading: boolean;
+  session: Session | null;
+  user: User | null;
+  // The signed-in user's profile; null while it loads or when signed out
+  profile: EditableProfile | null;
+  refreshProfile: () => Promise<void>;
+  // For screens that change the profile themselves (e.g. Account)
+  setProfile: (profile: EditableProfile) => void;
+};
+
+export const SessionContext = createContext<SessionState | null>(null);
+
+// Owns the auth session for the whole app: restores it from storage on
+// launch, follows sign-in, token refresh and sign-out through
+// onAuthStateChange, and keeps the signed-in user's profile loaded. Read it
+// with useSession(). Signing out wipes the local cache and the outbox, so the
+// next account on the device starts clean.
+export function SessionProvider({ children }: { children: ReactNode }) {
+  const [loading, setLoading] = useState(true);
+  const [session, setSession] = useState<Session | null>(null);
+  const [profile, setProfile] = useState<EditableProfile | null>(null);
+  const user = session?.user ?? null;
+  const userId = user?.id ?? null;
+  const email = user?.email ?? null;
+
+  useEffect(() => {
+    // INITIAL_SESSION arrives first, once the stored session is restored
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((event, nextSession) => {
+      setSession(nextSession);
+      setLoading(false);
+      if (event === 'SIGNED_OUT') {
+        clearLocalCache().catch((error) => console.error('Error clearing local cache', error));
+        clearOutbox().catch((error) => console.error('Error clearing outbox', error));
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const loadProfile = useCallback(async (id: string, userEmail: string | null) => {
+    try {
+      await profileRepository.ensure(id, userEmail);
+      const loaded = await profileRepository.get(id);
+      setProfile(loaded);
+      cacheProfiles([loaded]).catch((error) => console.error('Error caching profile', error));
+    } catch (error) {
+      console.error('Error loading profile', error);
+      // Offline: fall back to what we saw last time
+      const cached = await getCachedProfile(id).catch(() => null);
+      if (cached) {
+        setProfile((current) => current ?? { ...cached, handle: null, bio: null });
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    setProfile(null);
+    if (userId) {
+      loadProfile(userId, email);
+    }
+  }, [email, loadProfile, userId]);
+
+  const refreshProfile = useCallback(async () => {
+    if (userId) {
+      await loadProfile(userId, email);
+    }
+  }, [email, loadProfile, userId]);
+
+  const value = useMemo(
+    () => ({ loading, session, user, profile, refreshProfile, setProfile }),
+    [loading, session, user, profile, refreshProfile]
+  );
+
+  return <SessionContext.Provider value={value}>{children}</SessionContext.Provider>;
+}
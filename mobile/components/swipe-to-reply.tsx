@@ -0,0 +1,53 @@
+import { useRef, type ReactNode } from 'react';
+import { StyleSheet, View } from 'react-native';
+import ReanimatedSwipeable, {
+  type SwipeableMethods,
+} from 'react-native-gesture-handler/ReanimatedSwipeable';
+
+import { IconSymbol } from '@/components/ui/icon-symbol';
+
+// Distance a message has to be dragged to the right to start a reply
+const REPLY_THRESHOLD = 60;
+
+// Wraps a message so dragging it to the right starts a reply. The row snaps
+// back as soon as the threshold is crossed.
+export function SwipeToReply({
+  enabled = true,
+  onReply,
+  children,
+}: {
+  enabled?: boolean;
+  onReply: () => void;
+  children: ReactNode;
+}) {
+  const swipeableRef = useRef<SwipeableMethods>(null);
+
+  if (!enabled) return <>{children}</>;
+
+  return (
+    <ReanimatedSwipeable
+      ref={swipeableRef}
+      friction={2}
+      leftThreshold={REPLY_THRESHOLD}
+      overshootLeft={false}
+      renderLeftActions={() => (
+        <View style={styles.action}>
+          <IconSymbol name="arrowshape.turn.up.left.fill" size={20} color="#888" />
+        </View>
+      )}
+      onSwipeableWillOpen={() => {
+        onReply();
+        swipeableRef.current?.close();
+      }}>
+      {children}
+    </ReanimatedSwipeable>
+  );
+}
+
+const styles = StyleSheet.create({
+  action: {
+    width: REPLY_THRESHOLD,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
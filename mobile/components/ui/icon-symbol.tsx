@@ -19,7 +19,17 @@ const MAPPING = {
   'chevron.left.forwardslash.chevron.right': 'code',
   'chevron.right': 'chevron-right',
   'bubble.left.and.bubble.right.fill': 'chat',
+  'tray.fill': 'inbox',
   'person.crop.circle': 'person',
+  'arrowshape.turn.up.left.fill': 'reply',
+  'paperclip': 'attach-file',
+  'doc.fill': 'insert-drive-file',
+  'xmark': 'close',
+  'mic.fill': 'mic',
+  'play.fill': 'play-arrow',
+  'pause.fill': 'pause',
+  'checkmark.circle.fill': 'check-circle',
+  'circle': 'radio-button-unchecked',
 } as IconMapping;
 
 /**
@@ -0,0 +1,81 @@
+import { Image, StyleSheet, Text, View, type StyleProp, type ViewStyle } from 'react-native';
+
+const PLACEHOLDER_COLORS = ['#0a7ea4', '#f97316', '#22c55e', '#6366f1', '#ec4899', '#eab308'];
+
+export type UserAvatarProps = {
+  id: string;
+  name: string | null;
+  avatarUrl: string | null;
+  size?: number;
+  // Shows a presence dot in the corner when defined
+  online?: boolean;
+  style?: StyleProp<ViewStyle>;
+};
+
+export function getInitial(name: string | null) {
+  const trimmed = (name ?? '').trim();
+  if (!trimmed) return '?';
+  return trimmed.charAt(0).toUpperCase();
+}
+
+export function getColorForId(id: string) {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) {
+    hash = (hash * 31 + id.charCodeAt(i)) >>> 0;
+  }
+  return PLACEHOLDER_COLORS[hash % PLACEHOLDER_COLORS.length];
+}
+
+// Round avatar that falls back to a coloured initial when there is no image.
+export function UserAvatar({ id, name, avatarUrl, size = 40, online, style }: UserAvatarProps) {
+  const dimensions = { width: size, height: size, borderRadius: size / 2 };
+  const dotSize = Math.max(8, Math.round(size / 4));
+
+  return (
+    <View style={style}>
+      {avatarUrl ? (
+        <Image source={{ uri: avatarUrl }} style={[styles.avatar, dimensions]} />
+      ) : (
+        <View style={[styles.avatar, styles.placeholder, dimensions, { backgroundColor: getColorForId(id) }]}>
+          <Text style={[styles.initial, { fontSize: size * 0.4 }]}>{getInitial(name)}</Text>
+        </View>
+      )}
+      {online !== undefined ? (
+        <View
+          style={[
+            styles.presenceDot,
+            { width: dotSize, height: dotSize, borderRadius: dotSize / 2 },
+            online ? styles.online : styles.offline,
+          ]}
+        />
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  avatar: {
+    backgroundColor: '#ccc',
+  },
+  placeholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  initial: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  presenceDot: {
+    position: 'absolute',
+    right: 0,
+    bottom: 0,
+    borderWidth: 2,
+    borderColor: '#fff',
+  },
+  online: {
+    backgroundColor: '#22c55e',
+  },
+  offline: {
+    backgroundColor: '#9ca3af',
+  },
+});
@@ -0,0 +1,75 @@
+import { FlatList, Pressable, StyleSheet, Text, View } from 'react-native';
+
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { UserAvatar } from '@/components/user-avatar';
+import type { MemberProfile } from '@/lib/rooms';
+
+// Multi-select list of profiles used when creating a group or adding people
+// to one. Selection is owned by the caller.
+export function UserPicker({
+  profiles,
+  selectedIds,
+  onToggle,
+  emptyText = 'No other users yet.',
+}: {
+  profiles: MemberProfile[];
+  selectedIds: Set<string>;
+  onToggle: (userId: string) => void;
+  emptyText?: string;
+}) {
+  return (
+    <FlatList
+      data={profiles}
+      keyExtractor={(item) => item.id}
+      keyboardShouldPersistTaps="handled"
+      renderItem={({ item }) => {
+        const selected = selectedIds.has(item.id);
+
+        return (
+          <Pressable
+            onPress={() => onToggle(item.id)}
+            accessibilityRole="checkbox"
+            accessibilityState={{ checked: selected }}
+            style={styles.row}>
+            <UserAvatar id={item.id} name={item.username} avatarUrl={item.avatar_url} style={styles.avatar} />
+            <Text style={styles.username} numberOfLines={1}>
+              {item.username ?? 'Unknown user'}
+            </Text>
+            <IconSymbol
+              name={selected ? 'checkmark.circle.fill' : 'circle'}
+              size={24}
+              color={selected ? '#0a7ea4' : '#bbb'}
+            />
+          </Pressable>
+        );
+      }}
+      ListEmptyComponent={
+        <View style={styles.empty}>
+          <Text>{emptyText}</Text>
+        </View>
+      }
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#ddd',
+  },
+  avatar: {
+    marginRight: 12,
+  },
+  username: {
+    flex: 1,
+    fontSize: 16,
+  },
+  empty: {
+    padding: 16,
+    alignItems: 'center',
+  },
+});
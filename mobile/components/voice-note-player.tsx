@@ -0,0 +1,178 @@
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, Text, View, type LayoutChangeEvent } from 'react-native';
+import { useAudioPlayer, useAudioPlayerStatus } from 'expo-audio';
+
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useActiveClip } from '@/hooks/use-active-clip';
+import { formatDuration } from '@/lib/attachments';
+import { setActiveClip, WAVEFORM_BARS } from '@/lib/voiceNotes';
+
+const PLAYBACK_RATES = [1, 1.5, 2];
+
+// Play/pause, a waveform that doubles as the scrub bar, elapsed/total time
+// and a playback speed toggle. Only the active clip (see lib/voiceNotes.ts)
+// keeps playing; any other clip that starts pauses this one.
+export function VoiceNotePlayer({
+  clipId,
+  uri,
+  durationMs,
+  waveform,
+  position,
+}: {
+  clipId: string;
+  // null until the signed URL is ready
+  uri: string | null;
+  durationMs?: number | null;
+  waveform?: number[] | null;
+  position: 'left' | 'right';
+}) {
+  const player = useAudioPlayer(uri ? { uri } : null, { updateInterval: 100 });
+  const status = useAudioPlayerStatus(player);
+  const activeClip = useActiveClip();
+  const [rateIndex, setRateIndex] = useState(0);
+  const [waveformWidth, setWaveformWidth] = useState(0);
+
+  const onRight = position === 'right';
+  const totalMs = status.duration > 0 ? status.duration * 1000 : (durationMs ?? 0);
+  const progress = totalMs > 0 ? Math.min(1, (status.currentTime * 1000) / totalMs) : 0;
+  const bars = waveform && waveform.length > 0 ? waveform : Array.from({ length: WAVEFORM_BARS }, () => 0.3);
+
+  // Another clip took over (or the screen asked everything to stop)
+  useEffect(() => {
+    if (activeClip !== clipId && status.playing) {
+      player.pause();
+    }
+  }, [activeClip, clipId, player, status.playing]);
+
+  useEffect(() => {
+    if (status.didJustFinish) {
+      player.seekTo(0);
+      setActiveClip(null);
+    }
+  }, [player, status.didJustFinish]);
+
+  const togglePlayback = () => {
+    if (status.playing) {
+      player.pause();
+      return;
+    }
+    setActiveClip(clipId);
+    player.setPlaybackRate(PLAYBACK_RATES[rateIndex]);
+    player.play();
+  };
+
+  const cycleRate = () => {
+    const next = (rateIndex + 1) % PLAYBACK_RATES.length;
+    setRateIndex(next);
+    player.setPlaybackRate(PLAYBACK_RATES[next]);
+  };
+
+  const seekToX = (x: number) => {
+    if (waveformWidth <= 0 || totalMs <= 0) return;
+    const ratio = Math.min(1, Math.max(0, x / waveformWidth));
+    player.seekTo((ratio * totalMs) / 1000);
+  };
+
+  const foreground = onRight ? '#fff' : '#0a7ea4';
+  const background = onRight ? 'rgba(255, 255, 255, 0.4)' : 'rgba(10, 126, 164, 0.3)';
+
+  return (
+    <View style={styles.container}>
+      <Pressable
+        onPress={togglePlayback}
+        disabled={!uri}
+        accessibilityRole="button"
+        accessibilityLabel={status.playing ? 'Pause voice message' : 'Play voice message'}
+        style={styles.playButton}>
+        {!uri || (status.isBuffering && status.playing) ? (
+          <ActivityIndicator color={foreground} />
+        ) : (
+          <IconSymbol name={status.playing ? 'pause.fill' : 'play.fill'} size={26} color={foreground} />
+        )}
+      </Pressable>
+      <View style={styles.body}>
+        <View
+          style={styles.waveform}
+          onLayout={(event: LayoutChangeEvent) => setWaveformWidth(event.nativeEvent.layout.width)}
+          onStartShouldSetResponder={() => Boolean(uri)}
+          onMoveShouldSetResponder={() => Boolean(uri)}
+          // Keep the gesture while scrubbing instead of yielding to the list
+          onResponderTerminationRequest={() => false}
+          onResponderGrant={(event) => seekToX(event.nativeEvent.locationX)}
+          onResponderMove={(event) => seekToX(event.nativeEvent.locationX)}
+          accessibilityRole="adjustable"
+          accessibilityLabel="Playback position">
+          {bars.map((level, index) => (
+            <View
+              key={index}
+              style={[
+                styles.bar,
+                {
+                  height: 4 + level * 20,
+                  backgroundColor: index / bars.length < progress ? foreground : background,
+                },
+              ]}
+            />
+          ))}
+        </View>
+        <View style={styles.meta}>
+          <Text style={[styles.time, onRight && styles.textRight]}>
+            {status.playing || status.currentTime > 0
+              ? formatDuration(status.currentTime * 1000)
+              : formatDuration(totalMs)}
+          </Text>
+          <Pressable onPress={cycleRate} accessibilityRole="button" accessibilityLabel="Playback speed">
+            <Text style={[styles.rate, onRight && styles.textRight]}>{PLAYBACK_RATES[rateIndex]}×</Text>
+          </Pressable>
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    width: 240,
+    paddingHorizontal: 8,
+    paddingTop: 8,
+  },
+  playButton: {
+    width: 36,
+    height: 36,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  body: {
+    flex: 1,
+    marginLeft: 6,
+  },
+  waveform: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    height: 26,
+  },
+  bar: {
+    width: 3,
+    borderRadius: 1.5,
+  },
+  meta: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 2,
+  },
+  time: {
+    fontSize: 11,
+    color: '#555',
+  },
+  rate: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#0a7ea4',
+  },
+  textRight: {
+    color: '#fff',
+  },
+});
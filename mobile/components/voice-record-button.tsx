@@ -0,0 +1,127 @@
+import { useEffect, useRef } from 'react';
+import { Alert, Pressable, StyleSheet, Text, View } from 'react-native';
+import {
+  RecordingPresets,
+  requestRecordingPermissionsAsync,
+  setAudioModeAsync,
+  useAudioRecorder,
+  useAudioRecorderState,
+} from 'expo-audio';
+
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { formatDuration } from '@/lib/attachments';
+import { MIN_VOICE_NOTE_MS, setActiveClip } from '@/lib/voiceNotes';
+
+export type VoiceRecording = {
+  uri: string;
+  durationMs: number;
+  // Metering samples in dBFS, one per recorder status update
+  samples: number[];
+};
+
+const RECORDING_OPTIONS = { ...RecordingPresets.HIGH_QUALITY, isMeteringEnabled: true };
+
+// Microphone button for the composer: recording runs while it is held and is
+// handed to `onRecorded` on release. Very short holds are discarded.
+export function VoiceRecordButton({ onRecorded }: { onRecorded: (recording: VoiceRecording) => void }) {
+  const recorder = useAudioRecorder(RECORDING_OPTIONS);
+  const recorderState = useAudioRecorderState(recorder, 100);
+  const samplesRef = useRef<number[]>([]);
+  // Set when the finger lifts before recording has actually started
+  const releasedRef = useRef(false);
+
+  useEffect(() => {
+    if (recorderState.isRecording && recorderState.metering !== undefined) {
+      samplesRef.current.push(recorderState.metering);
+    }
+  }, [recorderState.isRecording, recorderState.metering, recorderState.durationMillis]);
+
+  const stopRecording = async () => {
+    const durationMs = recorderState.durationMillis;
+    await recorder.stop();
+    await setAudioModeAsync({ allowsRecording: false });
+
+    if (!recorder.uri || durationMs < MIN_VOICE_NOTE_MS) return;
+    onRecorded({ uri: recorder.uri, durationMs, samples: samplesRef.current });
+  };
+
+  const handlePressIn = async () => {
+    releasedRef.current = false;
+    try {
+      const permission = await requestRecordingPermissionsAsync();
+      if (!permission.granted) {
+        Alert.alert('Microphone access needed', 'Allow microphone access to record voice messages.');
+        return;
+      }
+
+      // Stop any voice note that is playing before taking over the audio session
+      setActiveClip(null);
+      await setAudioModeAsync({ allowsRecording: true, playsInSilentMode: true });
+      await recorder.prepareToRecordAsync();
+      samplesRef.current = [];
+      recorder.record();
+
+      if (releasedRef.current) {
+        await stopRecording();
+      }
+    } catch (error) {
+      console.error('Error starting recording', error);
+      Alert.alert('Recording failed', 'Voice messages could not be recorded.');
+    }
+  };
+
+  const handlePressOut = () => {
+    releasedRef.current = true;
+    if (!recorderState.isRecording) return;
+    stopRecording().catch((error) => console.error('Error stopping recording', error));
+  };
+
+  const recording = recorderState.isRecording;
+
+  return (
+    <View style={styles.container}>
+      {recording ? (
+        <Text style={styles.timer}>
+          <Text style={styles.dot}>● </Text>
+          {formatDuration(recorderState.durationMillis)}
+        </Text>
+      ) : null}
+      <Pressable
+        onPressIn={handlePressIn}
+        onPressOut={handlePressOut}
+        accessibilityRole="button"
+        accessibilityLabel="Hold to record a voice message"
+        style={[styles.button, recording && styles.buttonRecording]}>
+        <IconSymbol name="mic.fill" size={22} color={recording ? '#fff' : '#0a7ea4'} />
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    height: 44,
+    paddingRight: 8,
+  },
+  timer: {
+    marginRight: 8,
+    fontSize: 13,
+    color: '#dc2626',
+    fontVariant: ['tabular-nums'],
+  },
+  dot: {
+    color: '#dc2626',
+  },
+  button: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  buttonRecording: {
+    backgroundColor: '#dc2626',
+  },
+});
@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react';
+
+import { getActiveClip, subscribeActiveClip } from '@/lib/voiceNotes';
+
+/**
+ * Id of the voice note currently allowed to play, or null when none is.
+ */
+export function useActiveClip() {
+  return useSyncExternalStore(subscribeActiveClip, getActiveClip, getActiveClip);
+}
@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+
+import { getAttachmentUrl } from '@/lib/attachments';
+
+/**
+ * Signed URL for a stored attachment, or null while it is being created (or
+ * when `path` is null, e.g. for a file that has not been uploaded yet).
+ */
+export function useAttachmentUrl(path: string | null) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!path) {
+      setUrl(null);
+      return;
+    }
+
+    let cancelled = false;
+    getAttachmentUrl(path)
+      .then((signedUrl) => {
+        if (!cancelled) setUrl(signedUrl);
+      })
+      .catch((error) => console.error('Error signing attachment URL', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [path]);
+
+  return url;
+}
@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react';
+
+import { getBlockedUserIds, subscribeBlocks } from '@/lib/blocks';
+
+/**
+ * Ids of the people the signed-in user has blocked.
+ */
+export function useBlockedUserIds() {
+  return useSyncExternalStore(subscribeBlocks, getBlockedUserIds, getBlockedUserIds);
+}
@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+
+import { getConnectionState, subscribeConnectionState } from '@/lib/realtime';
+
+/**
+ * Realtime connection state of the rooms currently subscribed to, for
+ * showing a "Reconnecting…" banner.
+ */
+export function useConnectionState() {
+  return useSyncExternalStore(subscribeConnectionState, getConnectionState, getConnectionState);
+}
@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import { listOutbox, subscribeOutbox, type OutboxEntry, type SentMessageRow } from '@/lib/outbox';
+
+/**
+ * Queued (pending or failed) messages for a room, kept in sync with the
+ * on-device outbox, including upload progress for attachments. `onSent`
+ * fires with the server row once an entry lands.
+ */
+export function useOutbox(roomId: string | null, onSent?: (message: SentMessageRow) => void) {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+
+  const reload = useCallback(async () => {
+    if (!roomId) {
+      setEntries([]);
+      return;
+    }
+    try {
+      setEntries(await listOutbox(roomId));
+    } catch (error) {
+      console.error('Error loading outbox', error);
+    }
+  }, [roomId]);
+
+  useEffect(() => {
+    reload();
+
+    return subscribeOutbox((event) => {
+      if (event.roomId !== roomId) return;
+      if (event.type === 'progress') {
+        // Frequent and in-memory only, so patch the entry instead of reloading
+        setEntries((prev) =>
+          prev.map((entry) =>
+            entry.clientId === event.clientId ? { ...entry, uploadProgress: event.progress } : entry
+          )
+        );
+        return;
+      }
+      if (event.type === 'sent') {
+        onSent?.(event.message);
+      }
+      reload();
+    });
+  }, [roomId, reload, onSent]);
+
+  return entries;
+}
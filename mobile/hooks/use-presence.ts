@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react';
+
+import { getOnlineUserIds, subscribePresence } from '@/lib/presence';
+
+/**
+ * Set of user ids currently online, updated live from Realtime presence.
+ */
+export function useOnlineUserIds() {
+  return useSyncExternalStore(subscribePresence, getOnlineUserIds, getOnlineUserIds);
+}
@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+
+import { getProfiles, subscribeProfiles } from '@/lib/profileCache';
+
+/**
+ * Cached profiles by user id, updated as missing ones load and as people edit
+ * their name or avatar.
+ */
+export function useProfiles() {
+  return useSyncExternalStore(subscribeProfiles, getProfiles, getProfiles);
+}
@@ -0,0 +1,15 @@
+import { useContext } from 'react';
+
+import { SessionContext } from '@/components/session-provider';
+
+/**
+ * Current auth session, user and profile from the SessionProvider in the root
+ * layout. Screens inside the signed-in group can rely on `user` being set.
+ */
+export function useSession() {
+  const value = useContext(SessionContext);
+  if (!value) {
+    throw new Error('useSession must be used inside SessionProvider');
+  }
+  return value;
+}
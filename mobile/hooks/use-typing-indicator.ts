@@ -0,0 +1,137 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { sendRoomBroadcast, subscribeToRoom } from '@/lib/realtime';
+
+// Typing events are Realtime broadcasts on the room channel. Senders repeat
+// the event at most every TYPING_THROTTLE_MS while the user keeps typing, and
+// receivers drop anyone they have not heard from for TYPING_TIMEOUT_MS, so a
+// client that disappears mid-sentence clears itself.
+const TYPING_EVENT = 'typing';
+const TYPING_THROTTLE_MS = 2000;
+const TYPING_TIMEOUT_MS = 5000;
+
+type TypingPayload = {
+  userId: string;
+  name: string;
+  isTyping: boolean;
+};
+
+export type TypingUser = {
+  userId: string;
+  name: string;
+};
+
+export function formatTypingLabel(users: TypingUser[]) {
+  if (users.length === 0) return '';
+  if (users.length === 1) return `${users[0].name} is typing…`;
+  if (users.length === 2) return `${users[0].name} and ${users[1].name} are typing…`;
+  return `${users.length} people are typing…`;
+}
+
+/**
+ * Tracks who else is typing in the room and broadcasts the current user's own
+ * typing state.
+ */
+export function useTypingIndicator(roomId: string | null, self: TypingUser | null) {
+  const [typingUsers, setTypingUsers] = useState<TypingUser[]>([]);
+  const expiriesRef = useRef<Map<string, { user: TypingUser; expiresAt: number }>>(new Map());
+  const lastSentRef = useRef(0);
+  const selfIdRef = useRef<string | null>(null);
+  selfIdRef.current = self?.userId ?? null;
+
+  const publish = useCallback(() => {
+    setTypingUsers(Array.from(expiriesRef.current.values()).map((entry) => entry.user));
+  }, []);
+
+  const clearTyping = useCallback(
+    (userId: string) => {
+      if (expiriesRef.current.delete(userId)) {
+        publish();
+      }
+    },
+    [publish]
+  );
+
+  useEffect(() => {
+    expiriesRef.current.clear();
+    setTypingUsers([]);
+    if (!roomId) return;
+
+    return subscribeToRoom(roomId, (roomEvent) => {
+      if (roomEvent.type !== 'broadcast' || roomEvent.event !== TYPING_EVENT) return;
+      const event = roomEvent.payload as TypingPayload;
+      if (!event?.userId || event.userId === selfIdRef.current) return;
+
+      if (event.isTyping) {
+        expiriesRef.current.set(event.userId, {
+          user: { userId: event.userId, name: event.name },
+          expiresAt: Date.now() + TYPING_TIMEOUT_MS,
+        });
+      } else {
+        expiriesRef.current.delete(event.userId);
+      }
+      publish();
+    });
+  }, [roomId, publish]);
+
+  // Expire stale typists; only ticks while someone is shown as typing
+  useEffect(() => {
+    if (typingUsers.length === 0) return;
+
+    const timer = setInterval(() => {
+      const now = Date.now();
+      let changed = false;
+      expiriesRef.current.forEach((entry, userId) => {
+        if (entry.expiresAt <= now) {
+          expiriesRef.current.delete(userId);
+          changed = true;
+        }
+      });
+      if (changed) {
+        publish();
+      }
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [typingUsers.length, publish]);
+
+  const send = useCallback(
+    (isTyping: boolean) => {
+      if (!roomId || !self) return;
+      const payload: TypingPayload = { userId: self.userId, name: self.name, isTyping };
+      sendRoomBroadcast(roomId, TYPING_EVENT, payload).catch((error) => {
+        console.error('Error sending typing event', error);
+      });
+    },
+    [roomId, self]
+  );
+
+  // Call on every composer change; sends are throttled here.
+  const notifyTyping = useCallback(
+    (text: string) => {
+      if (!text.trim()) {
+        if (lastSentRef.current !== 0) {
+          lastSentRef.current = 0;
+          send(false);
+        }
+        return;
+      }
+
+      const now = Date.now();
+      if (now - lastSentRef.current >= TYPING_THROTTLE_MS) {
+        lastSentRef.current = now;
+        send(true);
+      }
+    },
+    [send]
+  );
+
+  const stopTyping = useCallback(() => {
+    if (lastSentRef.current !== 0) {
+      lastSentRef.current = 0;
+      send(false);
+    }
+  }, [send]);
+
+  return { typingUsers, notifyTyping, stopTyping, clearTyping };
+}
@@ -0,0 +1,232 @@
+import { Image } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as ImagePicker from 'expo-image-picker';
+
+import { supabase } from '@/lib/supabaseClient';
+
+// Files attached to messages. Uploads go to the private `attachments` bucket
+// under `<room_id>/<client_id>/<file name>`, so storage policies can check
+// room membership from the first path segment and a retried upload of the
+// same queued message overwrites its own object. The metadata is saved on
+// the message (messages.attachment).
+
+export type AttachmentKind = 'image' | 'audio' | 'file';
+
+// Shape of messages.attachment
+export type MessageAttachment = {
+  kind: AttachmentKind;
+  path: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  width?: number | null;
+  height?: number | null;
+  // Voice notes: length and a coarse loudness envelope (0..1 per bar)
+  durationMs?: number | null;
+  waveform?: number[] | null;
+};
+
+// A picked file waiting in the outbox. `uri` is a copy inside the app's
+// document directory so it outlives the picker's temporary file.
+export type LocalAttachment = MessageAttachment & {
+  uri: string;
+  uploaded: boolean;
+};
+
+export type AttachmentSource = 'camera' | 'library' | 'file';
+
+export const ATTACHMENTS_BUCKET = 'attachments';
+export const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+// Refresh signed URLs a little before they expire
+const SIGNED_URL_MARGIN_MS = 5 * 60 * 1000;
+const LOCAL_DIRECTORY = `${FileSystem.documentDirectory}attachments/`;
+
+const signedUrls = new Map<string, { url: string; expiresAt: number }>();
+
+export function attachmentKindFor(mimeType: string): AttachmentKind {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  return 'file';
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// One-line summary for previews where the attachment itself is not shown
+export function describeAttachment(attachment: Pick<MessageAttachment, 'kind' | 'name'>) {
+  if (attachment.kind === 'image') return '📷 Photo';
+  if (attachment.kind === 'audio') return '🎤 Voice message';
+  return `📎 ${attachment.name}`;
+}
+
+// m:ss, for voice note durations and positions
+export function formatDuration(ms: number) {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+export function buildAttachmentPath(roomId: string, clientId: string, name: string) {
+  const safeName = name.replace(/[^\w.-]+/g, '_').slice(-100) || 'file';
+  return `${roomId}/${clientId}/${safeName}`;
+}
+
+// The server row only keeps the metadata
+export function toMessageAttachment({ uri, uploaded, ...attachment }: LocalAttachment): MessageAttachment {
+  return attachment;
+}
+
+const getImageSize = (uri: string) =>
+  new Promise<{ width: number; height: number } | null>((resolve) => {
+    Image.getSize(
+      uri,
+      (width, height) => resolve({ width, height }),
+      () => resolve(null)
+    );
+  });
+
+export type PickedFile = Omit<MessageAttachment, 'kind' | 'path'> & { uri: string };
+
+// Opens the camera, photo library or document picker. Resolves null when the
+// user cancels or denies access.
+export async function pickAttachment(source: AttachmentSource): Promise<PickedFile | null> {
+  if (source === 'file') {
+    const result = await DocumentPicker.getDocumentAsync({ copyToCacheDirectory: true });
+    const asset = result.canceled ? null : result.assets[0];
+    if (!asset) return null;
+
+    const mimeType = asset.mimeType ?? 'application/octet-stream';
+    const dimensions = mimeType.startsWith('image/') ? await getImageSize(asset.uri) : null;
+    return {
+      uri: asset.uri,
+      name: asset.name,
+      mimeType,
+      size: asset.size ?? 0,
+      width: dimensions?.width ?? null,
+      height: dimensions?.height ?? null,
+    };
+  }
+
+  if (source === 'camera') {
+    const permission = await ImagePicker.requestCameraPermissionsAsync();
+    if (!permission.granted) return null;
+  }
+
+  const options: ImagePicker.ImagePickerOptions = { mediaTypes: ['images'], quality: 0.8 };
+  const result =
+    source === 'camera'
+      ? await ImagePicker.launchCameraAsync(options)
+      : await ImagePicker.launchImageLibraryAsync(options);
+  const asset = result.canceled ? null : result.assets[0];
+  if (!asset) return null;
+
+  const info = asset.fileSize ? null : await FileSystem.getInfoAsync(asset.uri);
+  return {
+    uri: asset.uri,
+    name: asset.fileName ?? asset.uri.split('/').pop() ?? 'photo.jpg',
+    mimeType: asset.mimeType ?? 'image/jpeg',
+    size: asset.fileSize ?? (info?.exists ? info.size : 0),
+    width: asset.width,
+    height: asset.height,
+  };
+}
+
+// Copies a picked file into app storage and fills in its upload path.
+export async function prepareAttachment(
+  file: PickedFile,
+  roomId: string,
+  clientId: string
+): Promise<LocalAttachment> {
+  const path = buildAttachmentPath(roomId, clientId, file.name);
+  await FileSystem.makeDirectoryAsync(LOCAL_DIRECTORY, { intermediates: true });
+  const uri = `${LOCAL_DIRECTORY}${clientId}-${path.split('/').pop()}`;
+  await FileSystem.copyAsync({ from: file.uri, to: uri });
+
+  return {
+    kind: attachmentKindFor(file.mimeType),
+    path,
+    name: file.name,
+    mimeType: file.mimeType,
+    size: file.size,
+    width: file.width ?? null,
+    height: file.height ?? null,
+    durationMs: file.durationMs ?? null,
+    waveform: file.waveform ?? null,
+    uri,
+    uploaded: false,
+  };
+}
+
+export async function removeLocalAttachment(attachment: LocalAttachment) {
+  await FileSystem.deleteAsync(attachment.uri, { idempotent: true });
+}
+
+// Every local copy, e.g. on sign-out
+export async function removeLocalAttachments() {
+  await FileSystem.deleteAsync(LOCAL_DIRECTORY, { idempotent: true });
+}
+
+// Uploads the local copy through a signed upload URL so progress can be
+// reported (supabase-js uploads do not expose it). `onProgress` gets 0..1.
+export async function uploadAttachment(attachment: LocalAttachment, onProgress?: (progress: number) => void) {
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .createSignedUploadUrl(attachment.path, { upsert: true });
+  if (error || !data) throw error ?? new Error('Could not create upload URL');
+
+  const task = FileSystem.createUploadTask(
+    data.signedUrl,
+    attachment.uri,
+    {
+      httpMethod: 'PUT',
+      uploadType: FileSystem.FileSystemUploadType.BINARY_CONTENT,
+      headers: { 'content-type': attachment.mimeType, 'x-upsert': 'true' },
+    },
+    ({ totalBytesSent, totalBytesExpectedToSend }) => {
+      if (totalBytesExpectedToSend > 0) {
+        onProgress?.(totalBytesSent / totalBytesExpectedToSend);
+      }
+    }
+  );
+
+  const result = await task.uploadAsync();
+  if (!result || result.status < 200 || result.status >= 300) {
+    throw new Error(`Upload failed with status ${result?.status ?? 'unknown'}`);
+  }
+}
+
+// Removes the stored file of a deleted message (its uploader or a moderator
+// of the room may).
+export async function removeAttachment(path: string) {
+  const { error } = await supabase.storage.from(ATTACHMENTS_BUCKET).remove([path]);
+  if (error) throw error;
+  signedUrls.forEach((_, key) => {
+    if (key === path || key.startsWith(`${path}#`)) signedUrls.delete(key);
+  });
+}
+
+// Signed URL for displaying or downloading an attachment, cached until
+// shortly before it expires. `download` makes the response a file download
+// with that name.
+export async function getAttachmentUrl(path: string, download?: string) {
+  const key = download ? `${path}#${download}` : path;
+  const cached = signedUrls.get(key);
+  if (cached && cached.expiresAt - SIGNED_URL_MARGIN_MS > Date.now()) {
+    return cached.url;
+  }
+
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_TTL_SECONDS, download ? { download } : undefined);
+  if (error || !data) throw error ?? new Error('Could not sign attachment URL');
+
+  signedUrls.set(key, { url: data.signedUrl, expiresAt: Date.now() + SIGNED_URL_TTL_SECONDS * 1000 });
+  return data.signedUrl;
+}
@@ -0,0 +1,126 @@
+import * as Linking from 'expo-linking';
+import { isAuthError } from '@supabase/supabase-js';
+
+import { supabase } from '@/lib/supabaseClient';
+
+// Helpers for the auth screens: where emailed links lead back into the app,
+// turning those links into a session, password strength and readable error
+// messages. Every redirect URL must be listed under Auth > URL Configuration
+// in the Supabase dashboard.
+
+export type AuthLinkType = 'signup' | 'magiclink' | 'recovery' | 'invite' | 'email_change';
+
+// mobile://auth-callback in the app, the site's /auth-callback on web
+export const getAuthRedirectUrl = () => Linking.createURL('/auth-callback');
+
+// Completes sign-in from an emailed link (confirmation, magic link or password
+// reset). Supports both the implicit flow (tokens in the fragment) and PKCE
+// (?code=). Returns the link type, e.g. 'recovery' for password resets.
+export async function createSessionFromUrl(url: string) {
+  const params = new URLSearchParams();
+  const [beforeHash, fragment = ''] = url.split('#');
+  const query = beforeHash.split('?')[1] ?? '';
+  for (const part of [query, fragment]) {
+    new URLSearchParams(part).forEach((value, key) => params.set(key, value));
+  }
+
+  const errorDescription = params.get('error_description');
+  if (errorDescription) {
+    throw new Error(errorDescription.replace(/\+/g, ' '));
+  }
+
+  const type = (params.get('type') as AuthLinkType | null) ?? null;
+  const code = params.get('code');
+  if (code) {
+    const { error } = await supabase.auth.exchangeCodeForSession(code);
+    if (error) throw error;
+    return type;
+  }
+
+  const accessToken = params.get('access_token');
+  const refreshToken = params.get('refresh_token');
+  if (!accessToken || !refreshToken) {
+    throw new Error('This link is incomplete. Please request a new one.');
+  }
+
+  const { error } = await supabase.auth.setSession({
+    access_token: accessToken,
+    refresh_token: refreshToken,
+  });
+  if (error) throw error;
+  return type;
+}
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export type PasswordStrength = {
+  // 0 (unusable) to 4 (strong)
+  score: number;
+  label: 'Too short' | 'Weak' | 'Fair' | 'Good' | 'Strong';
+  // What would make the password acceptable; empty once it is
+  problems: string[];
+};
+
+// Acceptable means at least MIN_PASSWORD_LENGTH characters mixing letters and
+// numbers; symbols, mixed case and extra length raise the score further.
+export function getPasswordStrength(password: string): PasswordStrength {
+  const problems: string[] = [];
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    problems.push(`Use at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  if (!/[a-zA-Z]/.test(password)) problems.push('Add a letter');
+  if (!/\d/.test(password)) problems.push('Add a number');
+
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return { score: 0, label: 'Too short', problems };
+  }
+
+  let score = problems.length === 0 ? 2 : 1;
+  if (/[a-z]/.test(password) && /[A-Z]/.test(password)) score += 1;
+  if (/[^a-zA-Z0-9]/.test(password) || password.length >= 14) score += 1;
+  score = Math.min(score, 4);
+
+  const labels: PasswordStrength['label'][] = ['Too short', 'Weak', 'Fair', 'Good', 'Strong'];
+  return { score, label: labels[score], problems };
+}
+
+export const isValidEmail = (email: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
+
+// User-facing text for an auth failure. Unknown errors fall back to the
+// server's own message.
+export function describeAuthError(error: unknown) {
+  if (!isAuthError(error)) {
+    return error instanceof Error ? error.message : 'Something went wrong. Please try again.';
+  }
+
+  switch (error.code) {
+    case 'invalid_credentials':
+      return 'That email and password do not match. Check them, or reset your password.';
+    case 'email_not_confirmed':
+      return 'Please confirm your email address first. We can send the confirmation email again.';
+    case 'user_already_exists':
+    case 'email_exists':
+      return 'An account with this email already exists. Sign in instead.';
+    case 'weak_password':
+      return 'That password is too weak. Choose a longer one with letters and numbers.';
+    case 'same_password':
+      return 'Your new password must be different from the old one.';
+    case 'email_address_invalid':
+      return 'That email address does not look right.';
+    case 'otp_expired':
+      return 'That code or link has expired. Request a new one.';
+    case 'over_email_send_rate_limit':
+    case 'over_request_rate_limit':
+      return 'Too many attempts. Please wait a minute and try again.';
+    case 'user_not_found':
+      return 'No account uses this email address. Create one instead.';
+    case 'signup_disabled':
+      return 'New sign-ups are currently disabled.';
+    case 'user_banned':
+      return 'This account has been suspended.';
+    default:
+      return error.message || 'Something went wrong. Please try again.';
+  }
+}
+
+export const getAuthErrorCode = (error: unknown) => (isAuthError(error) ? error.code : undefined);
@@ -0,0 +1,67 @@
+import { blockRepository } from '@/lib/data';
+
+// The people the signed-in user has blocked, shared by every screen: the
+// Users list hides them and chat collapses their messages. The set is loaded
+// while the tabs are mounted (startBlocks); blockUser and unblockUser change
+// it right away and roll back when the server refuses. Direct messages are
+// refused by the server itself: get_or_create_direct_room will not open a
+// room, and a direct room opened earlier no longer accepts messages.
+
+let blockedUserIds: ReadonlySet<string> = new Set();
+const listeners = new Set<() => void>();
+
+const setBlocked = (next: ReadonlySet<string>) => {
+  blockedUserIds = next;
+  listeners.forEach((listener) => listener());
+};
+
+export function getBlockedUserIds() {
+  return blockedUserIds;
+}
+
+export function subscribeBlocks(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Loads the signed-in user's blocks; returns a function that forgets them.
+export function startBlocks() {
+  let cancelled = false;
+  blockRepository
+    .listBlockedIds()
+    .then((ids) => {
+      if (!cancelled) setBlocked(new Set(ids));
+    })
+    .catch((error) => console.error('Error loading blocked users', error));
+
+  return () => {
+    cancelled = true;
+    setBlocked(new Set());
+  };
+}
+
+export async function blockUser(userId: string) {
+  setBlocked(new Set(blockedUserIds).add(userId));
+  try {
+    await blockRepository.block(userId);
+  } catch (error) {
+    const next = new Set(blockedUserIds);
+    next.delete(userId);
+    setBlocked(next);
+    throw error;
+  }
+}
+
+export async function unblockUser(userId: string) {
+  const next = new Set(blockedUserIds);
+  next.delete(userId);
+  setBlocked(next);
+  try {
+    await blockRepository.unblock(userId);
+  } catch (error) {
+    setBlocked(new Set(blockedUserIds).add(userId));
+    throw error;
+  }
+}
@@ -0,0 +1,63 @@
+import type { IMessage } from 'react-native-gifted-chat';
+
+import { describeAttachment, type MessageAttachment } from '@/lib/attachments';
+import type { ModerationVerdict } from '@/lib/moderation';
+import type { OutboxStatus } from '@/lib/outbox';
+
+// GiftedChat message with the extra fields the chat screen tracks.
+export type ChatMessage = IMessage & {
+  // Idempotency key the message was sent with (see lib/outbox.ts)
+  clientId?: string | null;
+  // Set only for messages still waiting in the local outbox
+  outboxStatus?: OutboxStatus;
+  // Why moderation blocked or warned about a queued message
+  moderation?: ModerationVerdict | null;
+  editedAt?: Date | null;
+  // Tombstone: the text has been removed and is rendered as a placeholder
+  deleted?: boolean;
+  // From someone the user blocked; shown as a placeholder until tapped
+  collapsed?: boolean;
+  // Parent message this one quotes (messages.reply_to_id)
+  replyToId?: number | null;
+  attachment?: MessageAttachment | null;
+  // Queued messages: the on-device copy of the attachment and its upload progress
+  localUri?: string | null;
+  uploadProgress?: number | null;
+};
+
+// Text to show where a message is summarised (quotes, threads, previews);
+// attachment-only messages have an empty body.
+export function getMessagePreviewText(message: Pick<ChatMessage, 'text' | 'attachment'>) {
+  if (message.text) return message.text;
+  return message.attachment ? describeAttachment(message.attachment) : '';
+}
+
+// GiftedChat renders an inverted list, so messages are kept newest-first.
+// Ties on createdAt fall back to the id so pages fetched with the
+// (created_at, id) cursor line up with rows delivered over realtime.
+export function compareMessagesDesc(a: IMessage, b: IMessage) {
+  const timeA = new Date(a.createdAt).getTime();
+  const timeB = new Date(b.createdAt).getTime();
+  if (timeA !== timeB) return timeB - timeA;
+
+  if (typeof a._id === 'number' && typeof b._id === 'number') {
+    return b._id - a._id;
+  }
+  return String(b._id).localeCompare(String(a._id));
+}
+
+// Merges incoming messages into the current list, replacing any message with
+// the same id and keeping the result sorted newest-first.
+export function mergeMessages<T extends IMessage>(current: T[], incoming: T[]) {
+  if (incoming.length === 0) return current;
+
+  const byId = new Map<string | number, T>();
+  for (const message of current) {
+    byId.set(message._id, message);
+  }
+  for (const message of incoming) {
+    byId.set(message._id, message);
+  }
+
+  return Array.from(byId.values()).sort(compareMessagesDesc);
+}
@@ -0,0 +1,36 @@
+import { createFakeClient } from '@/lib/data/__tests__/fake-client';
+import { DataError, isDataError, unwrap } from '@/lib/data/errors';
+
+describe('unwrap', () => {
+  it('returns the data of a successful response', async () => {
+    const fake = createFakeClient();
+    fake.respond('profiles', { data: [{ id: 'u1' }] });
+
+    expect(unwrap(await fake.client.from('profiles').select('id'))).toEqual([{ id: 'u1' }]);
+  });
+
+  it.each([
+    ['PGRST116', 'not_found'],
+    ['23505', 'conflict'],
+    ['42501', 'forbidden'],
+    ['22P02', 'unknown'],
+  ])('throws %s as a %s DataError', async (code, kind) => {
+    const fake = createFakeClient();
+    fake.respond('profiles', { error: { code } });
+    const response = await fake.client.from('profiles').select('id');
+
+    expect(() => unwrap(response)).toThrow(DataError);
+    expect(() => unwrap(response)).toThrow(expect.objectContaining({ kind, code }));
+  });
+});
+
+describe('isDataError', () => {
+  it('checks the kind when one is given', () => {
+    const error = new DataError('conflict', 'Handle taken', '23505');
+
+    expect(isDataError(error)).toBe(true);
+    expect(isDataError(error, 'conflict')).toBe(true);
+    expect(isDataError(error, 'not_found')).toBe(false);
+    expect(isDataError(new Error('Handle taken'))).toBe(false);
+  });
+});
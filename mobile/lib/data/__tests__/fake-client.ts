@@ -0,0 +1,70 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+
+import type { AppSupabaseClient } from '@/lib/supabaseClient';
+
+// Stands in for the Supabase client in repository tests. Every query is
+// recorded as the list of builder calls made on it, e.g.
+//   [['from', 'profiles'], ['select', 'id'], ['eq', 'id', 'u1']]
+// and resolves with the next response queued for its table (or `rpc:<name>`
+// for RPCs), or an empty result when none is queued.
+
+type Call = [method: string, ...args: unknown[]];
+
+export type FakeResponse = {
+  data?: unknown;
+  error?: Pick<PostgrestError, 'code'> & Partial<PostgrestError>;
+};
+
+export function createFakeClient() {
+  const responses = new Map<string, FakeResponse[]>();
+  const queries: { target: string; calls: Call[] }[] = [];
+
+  const query = (target: string, first: Call) => {
+    const calls: Call[] = [first];
+    queries.push({ target, calls });
+
+    const settle = () => {
+      const response = responses.get(target)?.shift() ?? {};
+      if (response.error) {
+        const error = { message: 'Query failed', details: '', hint: '', ...response.error };
+        return { data: null, error, count: null, status: 400, statusText: 'Bad Request' };
+      }
+      return { data: response.data ?? null, error: null, count: null, status: 200, statusText: 'OK' };
+    };
+
+    const builder: object = new Proxy(
+      {},
+      {
+        get: (_target, property) => {
+          if (property === 'then') {
+            return (resolve: (value: unknown) => void, reject: (reason: unknown) => void) =>
+              Promise.resolve(settle()).then(resolve, reject);
+          }
+          return (...args: unknown[]) => {
+            calls.push([String(property), ...args]);
+            return builder;
+          };
+        },
+      }
+    );
+    return builder;
+  };
+
+  const client = {
+    from: (table: string) => query(table, ['from', table]),
+    rpc: (name: string, args?: unknown) => query(`rpc:${name}`, ['rpc', name, args]),
+  } as unknown as AppSupabaseClient;
+
+  return {
+    client,
+
+    respond(target: string, response: FakeResponse) {
+      responses.set(target, [...(responses.get(target) ?? []), response]);
+    },
+
+    // The calls of every query made against a table or RPC, in order
+    queries(target: string) {
+      return queries.filter((entry) => entry.target === target).map((entry) => entry.calls);
+    },
+  };
+}
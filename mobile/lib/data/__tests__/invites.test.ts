@@ -0,0 +1,95 @@
+import { createFakeClient } from '@/lib/data/__tests__/fake-client';
+import { isDataError } from '@/lib/data/errors';
+import { createInviteRepository } from '@/lib/data/invites';
+
+const invite = {
+  id: 'i1',
+  room_id: 'r1',
+  token: 'abc',
+  created_at: '2026-10-19T10:00:00Z',
+  expires_at: null,
+  max_uses: 1,
+  use_count: 0,
+  revoked_at: null,
+};
+
+describe('inviteRepository', () => {
+  it("lists a room's invites, newest first", async () => {
+    const fake = createFakeClient();
+    fake.respond('room_invites', { data: [invite] });
+
+    expect(await createInviteRepository(fake.client).list('r1')).toEqual([invite]);
+    const calls = fake.queries('room_invites')[0];
+    expect(calls).toContainEqual(['eq', 'room_id', 'r1']);
+    expect(calls).toContainEqual(['order', 'created_at', { ascending: false }]);
+  });
+
+  it('creates single-use links that expire', async () => {
+    const fake = createFakeClient();
+    fake.respond('rpc:create_room_invite', { data: invite });
+
+    const created = await createInviteRepository(fake.client).create('r1', {
+      expiresAt: new Date('2026-10-20T10:00:00Z'),
+      singleUse: true,
+    });
+
+    expect(created).toEqual(invite);
+    expect(fake.queries('rpc:create_room_invite')[0][0][2]).toEqual({
+      p_room_id: 'r1',
+      p_expires_at: '2026-10-20T10:00:00.000Z',
+      p_max_uses: 1,
+    });
+  });
+
+  it('creates unlimited links that never expire', async () => {
+    const fake = createFakeClient();
+    fake.respond('rpc:create_room_invite', { data: { ...invite, max_uses: null } });
+
+    await createInviteRepository(fake.client).create('r1', { expiresAt: null, singleUse: false });
+
+    expect(fake.queries('rpc:create_room_invite')[0][0][2]).toEqual({
+      p_room_id: 'r1',
+      p_expires_at: null,
+      p_max_uses: null,
+    });
+  });
+
+  it('reports links created without permission as forbidden', async () => {
+    const fake = createFakeClient();
+    fake.respond('rpc:create_room_invite', { error: { code: '42501' } });
+
+    const error = await createInviteRepository(fake.client)
+      .create('r1', { expiresAt: null, singleUse: false })
+      .catch((caught: unknown) => caught);
+    expect(isDataError(error, 'forbidden')).toBe(true);
+  });
+
+  it('previews the room behind a token', async () => {
+    const fake = createFakeClient();
+    const preview = {
+      room_id: 'r1',
+      name: 'Climbing',
+      topic: null,
+      member_count: 3,
+      is_member: false,
+      problem: 'expired',
+    };
+    fake.respond('rpc:get_invite_preview', { data: [preview] });
+
+    expect(await createInviteRepository(fake.client).getPreview('abc')).toEqual(preview);
+  });
+
+  it('returns no preview for an unknown token', async () => {
+    const fake = createFakeClient();
+    fake.respond('rpc:get_invite_preview', { data: [] });
+
+    expect(await createInviteRepository(fake.client).getPreview('nope')).toBeNull();
+  });
+
+  it('returns the room joined through a link', async () => {
+    const fake = createFakeClient();
+    fake.respond('rpc:accept_room_invite', { data: 'r1' });
+
+    expect(await createInviteRepository(fake.client).accept('abc')).toBe('r1');
+  });
+});
@@ -0,0 +1,51 @@
+import { createFakeClient } from '@/lib/data/__tests__/fake-client';
+import { createMessageRepository } from '@/lib/data/messages';
+
+describe('messageRepository', () => {
+  it('loads the newest page of a room, newest first', async () => {
+    const fake = createFakeClient();
+    fake.respond('messages', { data: [{ id: 2, attachment: null }, { id: 1, attachment: null }] });
+
+    const rows = await createMessageRepository(fake.client).listPage('r1', { limit: 50 });
+
+    expect(rows.map((row) => row.id)).toEqual([2, 1]);
+    const calls = fake.queries('messages')[0];
+    expect(calls).toContainEqual(['eq', 'room_id', 'r1']);
+    expect(calls).toContainEqual(['order', 'created_at', { ascending: false }]);
+    expect(calls).toContainEqual(['order', 'id', { ascending: false }]);
+    expect(calls).toContainEqual(['limit', 50]);
+    expect(calls.some(([method]) => method === 'or')).toBe(false);
+  });
+
+  it('pages strictly before the cursor, breaking created_at ties by id', async () => {
+    const fake = createFakeClient();
+    fake.respond('messages', { data: [] });
+
+    await createMessageRepository(fake.client).listPage('r1', {
+      before: { createdAt: '2026-10-19T10:00:00Z', id: 42 },
+      limit: 50,
+    });
+
+    expect(fake.queries('messages')[0]).toContainEqual([
+      'or',
+      'created_at.lt."2026-10-19T10:00:00Z",and(created_at.eq."2026-10-19T10:00:00Z",id.lt.42)',
+    ]);
+  });
+
+  it('skips the query when there is nothing to quote', async () => {
+    const fake = createFakeClient();
+
+    expect(await createMessageRepository(fake.client).listQuoted([])).toEqual([]);
+    expect(fake.queries('messages')).toEqual([]);
+  });
+
+  it('reports a message with an optional explanation', async () => {
+    const fake = createFakeClient();
+
+    await createMessageRepository(fake.client).report(7, 'spam');
+
+    expect(fake.queries('rpc:report_message')[0]).toEqual([
+      ['rpc', 'report_message', { p_message_id: 7, p_reason: 'spam', p_details: null }],
+    ]);
+  });
+});
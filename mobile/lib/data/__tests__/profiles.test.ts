@@ -0,0 +1,93 @@
+import { createFakeClient } from '@/lib/data/__tests__/fake-client';
+import { isDataError } from '@/lib/data/errors';
+import { createProfileRepository } from '@/lib/data/profiles';
+
+const profile = { id: 'u1', username: 'Ada', handle: 'ada', bio: null, avatar_url: null };
+
+describe('profileRepository', () => {
+  it('creates a missing profile without replacing an existing name', async () => {
+    const fake = createFakeClient();
+    await createProfileRepository(fake.client).ensure('u1', 'ada@example.com');
+
+    expect(fake.queries('profiles')).toEqual([
+      [
+        ['from', 'profiles'],
+        ['upsert', { id: 'u1', username: 'ada@example.com' }, { onConflict: 'id', ignoreDuplicates: true }],
+      ],
+    ]);
+  });
+
+  it('names a profile without an email after the user id', async () => {
+    const fake = createFakeClient();
+    await createProfileRepository(fake.client).ensure('0123456789abcdef');
+
+    expect(fake.queries('profiles')[0][1][1]).toEqual({ id: '0123456789abcdef', username: 'user-01234567' });
+  });
+
+  it('reports a missing profile as not_found', async () => {
+    const fake = createFakeClient();
+    fake.respond('profiles', { error: { code: 'PGRST116' } });
+
+    const error = await createProfileRepository(fake.client)
+      .get('u1')
+      .catch((caught: unknown) => caught);
+    expect(isDataError(error, 'not_found')).toBe(true);
+  });
+
+  it('reads last-seen times from user_last_seen', async () => {
+    const fake = createFakeClient();
+    fake.respond('profiles', {
+      data: [
+        { id: 'u2', username: 'Grace', handle: null, avatar_url: null, user_last_seen: null },
+        {
+          id: 'u3',
+          username: 'Linus',
+          handle: 'linus',
+          avatar_url: null,
+          user_last_seen: { last_seen_at: '2026-10-19T10:00:00Z' },
+        },
+      ],
+    });
+
+    const summaries = await createProfileRepository(fake.client).listOthers('u1');
+
+    expect(summaries).toEqual([
+      { id: 'u2', username: 'Grace', handle: null, avatar_url: null, last_seen_at: null },
+      {
+        id: 'u3',
+        username: 'Linus',
+        handle: 'linus',
+        avatar_url: null,
+        last_seen_at: '2026-10-19T10:00:00Z',
+      },
+    ]);
+  });
+
+  it('skips the query when there are no ids to look up', async () => {
+    const fake = createFakeClient();
+
+    expect(await createProfileRepository(fake.client).getSummaries([])).toEqual([]);
+    expect(fake.queries('profiles')).toEqual([]);
+  });
+
+  it('saves changes and returns the updated profile', async () => {
+    const fake = createFakeClient();
+    fake.respond('profiles', { data: { ...profile, handle: 'ada_l' } });
+
+    const updated = await createProfileRepository(fake.client).update('u1', { handle: 'ada_l' });
+
+    expect(updated.handle).toBe('ada_l');
+    expect(fake.queries('profiles')[0]).toContainEqual(['update', { handle: 'ada_l' }]);
+    expect(fake.queries('profiles')[0]).toContainEqual(['eq', 'id', 'u1']);
+  });
+
+  it('reports a handle claimed since it was checked as a conflict', async () => {
+    const fake = createFakeClient();
+    fake.respond('profiles', { error: { code: '23505' } });
+
+    const error = await createProfileRepository(fake.client)
+      .update('u1', { handle: 'taken' })
+      .catch((caught: unknown) => caught);
+    expect(isDataError(error, 'conflict')).toBe(true);
+  });
+});
@@ -0,0 +1,49 @@
+import { createFakeClient } from '@/lib/data/__tests__/fake-client';
+import { createReactionRepository } from '@/lib/data/reactions';
+
+const reaction = { message_id: 1, user_id: 'u1', emoji: '👍' };
+
+describe('reactionRepository', () => {
+  it('loads the reactions of the given messages, oldest first', async () => {
+    const fake = createFakeClient();
+    fake.respond('message_reactions', { data: [reaction] });
+
+    expect(await createReactionRepository(fake.client).listForMessages([1, 2])).toEqual([reaction]);
+    const calls = fake.queries('message_reactions')[0];
+    expect(calls).toContainEqual(['in', 'message_id', [1, 2]]);
+    expect(calls).toContainEqual(['order', 'created_at', { ascending: true }]);
+  });
+
+  it('skips the query when no messages are loaded', async () => {
+    const fake = createFakeClient();
+
+    expect(await createReactionRepository(fake.client).listForMessages([])).toEqual([]);
+    expect(fake.queries('message_reactions')).toEqual([]);
+  });
+
+  it('ignores a reaction that already exists', async () => {
+    const fake = createFakeClient();
+
+    await createReactionRepository(fake.client).add(reaction);
+
+    expect(fake.queries('message_reactions')[0]).toContainEqual([
+      'upsert',
+      reaction,
+      { onConflict: 'message_id,user_id,emoji', ignoreDuplicates: true },
+    ]);
+  });
+
+  it('removes a reaction by its primary key', async () => {
+    const fake = createFakeClient();
+
+    await createReactionRepository(fake.client).remove(reaction);
+
+    expect(fake.queries('message_reactions')[0]).toEqual([
+      ['from', 'message_reactions'],
+      ['delete'],
+      ['eq', 'message_id', 1],
+      ['eq', 'user_id', 'u1'],
+      ['eq', 'emoji', '👍'],
+    ]);
+  });
+});
@@ -0,0 +1,57 @@
+import { createFakeClient } from '@/lib/data/__tests__/fake-client';
+import { createRoomRepository } from '@/lib/data/rooms';
+
+describe('roomRepository', () => {
+  it('returns null when no room has the name', async () => {
+    const fake = createFakeClient();
+    fake.respond('rooms', { data: null });
+
+    expect(await createRoomRepository(fake.client).findOpenByName('General')).toBeNull();
+    expect(fake.queries('rooms')[0]).toContainEqual(['eq', 'name', 'General']);
+  });
+
+  it('never finds groups or direct rooms by name', async () => {
+    const fake = createFakeClient();
+
+    await createRoomRepository(fake.client).findOpenByName('General');
+
+    const calls = fake.queries('rooms')[0];
+    expect(calls).toContainEqual(['eq', 'is_direct', false]);
+    expect(calls).toContainEqual(['eq', 'is_group', false]);
+  });
+
+  it('creates open rooms as non-direct rooms of their creator', async () => {
+    const fake = createFakeClient();
+    fake.respond('rooms', { data: { id: 'r1', name: 'General' } });
+
+    const room = await createRoomRepository(fake.client).create({ name: 'General', createdBy: 'u1' });
+
+    expect(room.id).toBe('r1');
+    expect(fake.queries('rooms')[0]).toContainEqual([
+      'insert',
+      { name: 'General', is_direct: false, created_by: 'u1' },
+    ]);
+  });
+
+  it('trims the name of a new group', async () => {
+    const fake = createFakeClient();
+    fake.respond('rpc:create_group_room', { data: 'r2' });
+
+    expect(await createRoomRepository(fake.client).createGroup('  Climbing ', ['u2', 'u3'])).toBe('r2');
+    expect(fake.queries('rpc:create_group_room')[0]).toEqual([
+      ['rpc', 'create_group_room', { p_name: 'Climbing', p_member_ids: ['u2', 'u3'] }],
+    ]);
+  });
+
+  it('lists the inbox from get_inbox', async () => {
+    const fake = createFakeClient();
+    const attachment = { kind: 'image', path: 'r1/a.jpg', name: 'a.jpg', mimeType: 'image/jpeg', size: 10 };
+    fake.respond('rpc:get_inbox', {
+      data: [{ room_id: 'r1', unread_count: 2, last_message_attachment: attachment }],
+    });
+
+    const [row] = await createRoomRepository(fake.client).listInbox();
+
+    expect(row).toMatchObject({ room_id: 'r1', unread_count: 2, last_message_attachment: attachment });
+  });
+});
@@ -0,0 +1,29 @@
+import { unwrap } from '@/lib/data/errors';
+import type { AppSupabaseClient } from '@/lib/supabaseClient';
+
+// public.user_blocks: the people the signed-in user has blocked. Rows are
+// only visible to the person who created them.
+
+export function createBlockRepository(db: AppSupabaseClient) {
+  return {
+    async listBlockedIds(): Promise<string[]> {
+      const rows = unwrap(await db.from('user_blocks').select('blocked_id'));
+      return rows.map((row) => row.blocked_id);
+    },
+
+    // Blocking someone twice is not an error
+    async block(userId: string) {
+      unwrap(
+        await db
+          .from('user_blocks')
+          .upsert({ blocked_id: userId }, { onConflict: 'blocker_id,blocked_id', ignoreDuplicates: true })
+      );
+    },
+
+    async unblock(userId: string) {
+      unwrap(await db.from('user_blocks').delete().eq('blocked_id', userId));
+    },
+  };
+}
+
+export type BlockRepository = ReturnType<typeof createBlockRepository>;
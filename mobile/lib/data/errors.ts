@@ -0,0 +1,47 @@
+import type { PostgrestError, PostgrestSingleResponse } from '@supabase/supabase-js';
+
+// Database failures as the app cares about them. Repositories throw these
+// instead of raw PostgrestErrors so screens can branch on `kind` rather than
+// remembering Postgres and PostgREST codes.
+
+export type DataErrorKind =
+  // No row matched a query that expects exactly one (PGRST116)
+  | 'not_found'
+  // A unique constraint refused the write (23505), e.g. a taken handle
+  | 'conflict'
+  // Row level security or a role check refused the request (42501)
+  | 'forbidden'
+  | 'unknown';
+
+export class DataError extends Error {
+  readonly kind: DataErrorKind;
+  // The original Postgres or PostgREST code, when there was one
+  readonly code: string | null;
+
+  constructor(kind: DataErrorKind, message: string, code: string | null = null, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'DataError';
+    this.kind = kind;
+    this.code = code;
+  }
+}
+
+const KIND_BY_CODE: Record<string, DataErrorKind> = {
+  PGRST116: 'not_found',
+  '23505': 'conflict',
+  '42501': 'forbidden',
+};
+
+export function toDataError(error: PostgrestError) {
+  const kind = KIND_BY_CODE[error.code] ?? 'unknown';
+  return new DataError(kind, error.message, error.code || null, error);
+}
+
+export const isDataError = (error: unknown, kind?: DataErrorKind): error is DataError =>
+  error instanceof DataError && (kind === undefined || error.kind === kind);
+
+// Returns a response's data or throws its error as a DataError
+export function unwrap<T>(response: PostgrestSingleResponse<T>): T {
+  if (response.error) throw toDataError(response.error);
+  return response.data;
+}
@@ -0,0 +1,34 @@
+import { createBlockRepository } from '@/lib/data/blocks';
+import { createInviteRepository } from '@/lib/data/invites';
+import { createMemberRepository } from '@/lib/data/members';
+import { createMessageRepository } from '@/lib/data/messages';
+import { createModerationRepository } from '@/lib/data/moderation';
+import { createProfileRepository } from '@/lib/data/profiles';
+import { createReactionRepository } from '@/lib/data/reactions';
+import { createRoomRepository } from '@/lib/data/rooms';
+import { supabase } from '@/lib/supabaseClient';
+
+// Typed access to the database. Screens and hooks use these instances; each
+// repository is built from a client passed in, so tests can hand the
+// factories a fake one instead (see __tests__/fake-client.ts).
+
+export const profileRepository = createProfileRepository(supabase);
+export const roomRepository = createRoomRepository(supabase);
+export const memberRepository = createMemberRepository(supabase);
+export const messageRepository = createMessageRepository(supabase);
+export const blockRepository = createBlockRepository(supabase);
+export const moderationRepository = createModerationRepository(supabase);
+export const inviteRepository = createInviteRepository(supabase);
+export const reactionRepository = createReactionRepository(supabase);
+
+export { DataError, isDataError, type DataErrorKind } from '@/lib/data/errors';
+export type { ReadPointer } from '@/lib/data/members';
+export type { MessageCursor, MessageRow, QuotedMessageRow } from '@/lib/data/messages';
+export type {
+  ContextMessage,
+  ModerationAction,
+  QueuedMessage,
+  QueuedReport,
+} from '@/lib/data/moderation';
+export type { ProfileSummary } from '@/lib/data/profiles';
+export type { InboxRoom } from '@/lib/data/rooms';
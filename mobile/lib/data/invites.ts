@@ -0,0 +1,57 @@
+import { unwrap } from '@/lib/data/errors';
+import type { InvitePreview, InviteProblem, RoomInvite } from '@/lib/invites';
+import type { AppSupabaseClient } from '@/lib/supabaseClient';
+
+// public.room_invites and the invite RPCs. Only owners and admins can create
+// or revoke links (checked by the RPCs); anyone holding a token can preview
+// the room and accept.
+
+const INVITE_SELECT = 'id, room_id, token, created_at, expires_at, max_uses, use_count, revoked_at';
+
+export function createInviteRepository(db: AppSupabaseClient) {
+  return {
+    // Newest first
+    async list(roomId: string): Promise<RoomInvite[]> {
+      return unwrap(
+        await db
+          .from('room_invites')
+          .select(INVITE_SELECT)
+          .eq('room_id', roomId)
+          .order('created_at', { ascending: false })
+      );
+    },
+
+    async create(
+      roomId: string,
+      options: { expiresAt: Date | null; singleUse: boolean }
+    ): Promise<RoomInvite> {
+      return unwrap(
+        await db.rpc('create_room_invite', {
+          p_room_id: roomId,
+          p_expires_at: options.expiresAt?.toISOString() ?? null,
+          p_max_uses: options.singleUse ? 1 : null,
+        })
+      );
+    },
+
+    async revoke(inviteId: string) {
+      unwrap(await db.rpc('revoke_room_invite', { p_invite_id: inviteId }));
+    },
+
+    // Null when the token does not exist
+    async getPreview(token: string): Promise<InvitePreview | null> {
+      const [row] = unwrap(await db.rpc('get_invite_preview', { p_token: token }));
+      if (!row) return null;
+      // Plain text in the function's result; room_invite_problem only
+      // returns InviteProblem values
+      return { ...row, problem: row.problem as InviteProblem | null };
+    },
+
+    // Returns the room id
+    async accept(token: string) {
+      return unwrap(await db.rpc('accept_room_invite', { p_token: token }));
+    },
+  };
+}
+
+export type InviteRepository = ReturnType<typeof createInviteRepository>;
@@ -0,0 +1,113 @@
+import { DataError, unwrap } from '@/lib/data/errors';
+import { sortMembers, type MemberProfile, type RoomMember, type RoomRole } from '@/lib/rooms';
+import type { AppSupabaseClient } from '@/lib/supabaseClient';
+
+// public.room_members: who is in a room, their role and how far they have
+// read. Inserts and deletes are policed by the room_members policies, role
+// changes go through the room RPCs.
+
+// Where a room member has read up to (room_members.last_read_*)
+export type ReadPointer = {
+  userId: string;
+  lastReadMessageId: number | null;
+  lastReadAt: string | null;
+  profile: MemberProfile | null;
+};
+
+export function createMemberRepository(db: AppSupabaseClient) {
+  const fetchProfilesById = async (userIds: string[]) => {
+    if (userIds.length === 0) return new Map<string, MemberProfile>();
+    const profiles = unwrap(await db.from('profiles').select('id, username, avatar_url').in('id', userIds));
+    return new Map(profiles.map((profile) => [profile.id, profile]));
+  };
+
+  // New people always join as plain members. Ignoring duplicates skips
+  // people someone else added in the meantime.
+  const add = async (roomId: string, userIds: string[]) => {
+    if (userIds.length === 0) return;
+    unwrap(
+      await db
+        .from('room_members')
+        .upsert(
+          userIds.map((userId) => ({ room_id: roomId, user_id: userId, role: 'member' })),
+          { onConflict: 'room_id,user_id', ignoreDuplicates: true }
+        )
+    );
+  };
+
+  return {
+    // Owner first, then admins, then members
+    async list(roomId: string): Promise<RoomMember[]> {
+      const members = unwrap(await db.from('room_members').select('user_id, role').eq('room_id', roomId));
+      const profilesById = await fetchProfilesById(members.map((member) => member.user_id));
+      return sortMembers(
+        members.map((member) => ({
+          userId: member.user_id,
+          role: member.role as RoomRole,
+          profile: profilesById.get(member.user_id) ?? null,
+        }))
+      );
+    },
+
+    async listReadPointers(roomId: string): Promise<ReadPointer[]> {
+      const members = unwrap(
+        await db
+          .from('room_members')
+          .select('user_id, last_read_message_id, last_read_at')
+          .eq('room_id', roomId)
+      );
+      const profilesById = await fetchProfilesById(members.map((member) => member.user_id));
+      return members.map((member) => ({
+        userId: member.user_id,
+        lastReadMessageId: member.last_read_message_id,
+        lastReadAt: member.last_read_at,
+        profile: profilesById.get(member.user_id) ?? null,
+      }));
+    },
+
+    // The other participant of a direct room, or null
+    async findOtherMemberId(roomId: string, userId: string) {
+      const member = unwrap(
+        await db
+          .from('room_members')
+          .select('user_id')
+          .eq('room_id', roomId)
+          .neq('user_id', userId)
+          .limit(1)
+          .maybeSingle()
+      );
+      return member?.user_id ?? null;
+    },
+
+    add,
+
+    // Adds the user as a plain member unless they already belong to the room
+    ensure: (roomId: string, userId: string) => add(roomId, [userId]),
+
+    async remove(roomId: string, userId: string) {
+      const removed = unwrap(
+        await db.from('room_members').delete().eq('room_id', roomId).eq('user_id', userId).select('user_id')
+      );
+      // RLS filters the delete instead of failing it
+      if (removed.length === 0) {
+        throw new DataError('forbidden', 'Not allowed to remove this member');
+      }
+    },
+
+    async setRole(roomId: string, userId: string, role: Exclude<RoomRole, 'owner'>) {
+      unwrap(await db.rpc('set_member_role', { p_room_id: roomId, p_user_id: userId, p_role: role }));
+    },
+
+    // The previous owner stays on as an admin
+    async transferOwnership(roomId: string, userId: string) {
+      unwrap(await db.rpc('transfer_room_ownership', { p_room_id: roomId, p_user_id: userId }));
+    },
+
+    // Moves our read pointer forward to the given message (never backwards)
+    async markRead(roomId: string, messageId: number) {
+      unwrap(await db.rpc('mark_room_read', { p_room_id: roomId, p_message_id: messageId }));
+    },
+  };
+}
+
+export type MemberRepository = ReturnType<typeof createMemberRepository>;
@@ -0,0 +1,135 @@
+import type { MessageAttachment } from '@/lib/attachments';
+import { unwrap } from '@/lib/data/errors';
+import type { Json } from '@/lib/database.types';
+import type { ReportReason } from '@/lib/moderation';
+import type { MemberProfile } from '@/lib/rooms';
+import type { AppSupabaseClient } from '@/lib/supabaseClient';
+
+// public.messages with each author's profile. Sending goes through the
+// moderate-message function (see lib/outbox.ts), so there are no inserts here.
+
+export type MessageRow = {
+  id: number;
+  room_id: string;
+  body: string;
+  created_at: string;
+  user_id: string | null;
+  client_id: string | null;
+  edited_at: string | null;
+  deleted_at: string | null;
+  reply_to_id: number | null;
+  attachment: MessageAttachment | null;
+  profiles: MemberProfile | null;
+};
+
+// Just enough of a replied-to message to quote it
+export type QuotedMessageRow = {
+  id: number;
+  body: string;
+  deleted_at: string | null;
+  attachment: MessageAttachment | null;
+  profiles: Pick<MemberProfile, 'username'> | null;
+};
+
+// Position of the oldest message loaded so far; older pages are fetched
+// strictly before this (created_at, id) pair.
+export type MessageCursor = {
+  createdAt: string;
+  id: number;
+};
+
+const MESSAGE_SELECT =
+  'id, room_id, body, created_at, user_id, client_id, edited_at, deleted_at, reply_to_id, attachment, profiles:profiles!messages_user_id_fkey (id, username, avatar_url)';
+const QUOTED_SELECT = 'id, body, deleted_at, attachment, profiles:profiles!messages_user_id_fkey (username)';
+
+// The attachment column is plain jsonb; its shape is enforced by
+// messages_attachment_check
+const withAttachment = <T extends { attachment: Json | null }>(row: T) => ({
+  ...row,
+  attachment: row.attachment as MessageAttachment | null,
+});
+
+export function createMessageRepository(db: AppSupabaseClient) {
+  return {
+    // One page of a room's messages, newest first, older than `before` when
+    // given
+    async listPage(
+      roomId: string,
+      options: { before?: MessageCursor | null; limit: number }
+    ): Promise<MessageRow[]> {
+      let query = db
+        .from('messages')
+        .select(MESSAGE_SELECT)
+        .eq('room_id', roomId)
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(options.limit);
+
+      const { before } = options;
+      if (before) {
+        query = query.or(
+          `created_at.lt."${before.createdAt}",and(created_at.eq."${before.createdAt}",id.lt.${before.id})`
+        );
+      }
+
+      const rows = unwrap(await query);
+      return rows.map(withAttachment);
+    },
+
+    // Messages after `afterId`, oldest first; used to fill gaps in realtime
+    // delivery
+    async listNewer(roomId: string, afterId: number, limit: number): Promise<MessageRow[]> {
+      const rows = unwrap(
+        await db
+          .from('messages')
+          .select(MESSAGE_SELECT)
+          .eq('room_id', roomId)
+          .gt('id', afterId)
+          .order('id', { ascending: true })
+          .limit(limit)
+      );
+      return rows.map(withAttachment);
+    },
+
+    async get(messageId: number): Promise<MessageRow> {
+      const row = unwrap(await db.from('messages').select(MESSAGE_SELECT).eq('id', messageId).single());
+      return withAttachment(row);
+    },
+
+    // Replies to a message, oldest first
+    async listReplies(parentId: number): Promise<MessageRow[]> {
+      const rows = unwrap(
+        await db
+          .from('messages')
+          .select(MESSAGE_SELECT)
+          .eq('reply_to_id', parentId)
+          .order('created_at', { ascending: true })
+          .order('id', { ascending: true })
+      );
+      return rows.map(withAttachment);
+    },
+
+    async listQuoted(messageIds: number[]): Promise<QuotedMessageRow[]> {
+      if (messageIds.length === 0) return [];
+      return unwrap(await db.from('messages').select(QUOTED_SELECT).in('id', messageIds)).map(withAttachment);
+    },
+
+    // Soft delete: the row stays as a "deleted" placeholder
+    async delete(messageId: number) {
+      unwrap(await db.rpc('delete_message', { p_message_id: messageId }));
+    },
+
+    // Flags a message for review; reporting it again replaces the reason
+    async report(messageId: number, reason: ReportReason, details?: string | null) {
+      unwrap(
+        await db.rpc('report_message', {
+          p_message_id: messageId,
+          p_reason: reason,
+          p_details: details ?? null,
+        })
+      );
+    },
+  };
+}
+
+export type MessageRepository = ReturnType<typeof createMessageRepository>;
@@ -0,0 +1,86 @@
+import type { MessageAttachment } from '@/lib/attachments';
+import { unwrap } from '@/lib/data/errors';
+import type { AppSupabaseClient } from '@/lib/supabaseClient';
+
+// The moderator review queue (see the moderation_queue migration). Who counts
+// as a moderator, and what they may do to whom, is decided on the server.
+
+export type ModerationAction = 'dismiss' | 'delete_message' | 'mute_author' | 'remove_author';
+
+// One open report on a queued message. `source` is 'moderation' for flags
+// filed by the moderate-message function, which have no reporter.
+export type QueuedReport = {
+  id: number;
+  reporter_id: string | null;
+  reporter_username: string | null;
+  reason: string;
+  details: string | null;
+  source: 'user' | 'moderation';
+  created_at: string;
+};
+
+// A reported message with all of its open reports (get_moderation_queue)
+export type QueuedMessage = {
+  message_id: number;
+  room_id: string;
+  room_name: string | null;
+  room_is_direct: boolean;
+  author_id: string;
+  author_username: string | null;
+  body: string;
+  attachment: MessageAttachment | null;
+  message_created_at: string;
+  deleted_at: string | null;
+  reports: QueuedReport[];
+  first_reported_at: string;
+};
+
+// A message around a reported one (get_message_context)
+export type ContextMessage = {
+  id: number;
+  user_id: string;
+  username: string | null;
+  body: string;
+  attachment: MessageAttachment | null;
+  created_at: string;
+  deleted_at: string | null;
+};
+
+export function createModerationRepository(db: AppSupabaseClient) {
+  return {
+    // App moderators, and owners or admins of at least one room
+    async hasAccess() {
+      return unwrap(await db.rpc('has_moderation_access'));
+    },
+
+    // Reported messages in rooms the caller moderates, oldest report first
+    async listQueue(): Promise<QueuedMessage[]> {
+      const rows = unwrap(await db.rpc('get_moderation_queue'));
+      return rows.map((row) => ({
+        ...row,
+        attachment: row.attachment as MessageAttachment | null,
+        reports: row.reports as QueuedReport[],
+      }));
+    },
+
+    // The reported message with up to `radius` messages on either side
+    async getContext(messageId: number, radius = 3): Promise<ContextMessage[]> {
+      const rows = unwrap(await db.rpc('get_message_context', { p_message_id: messageId, p_radius: radius }));
+      return rows.map((row) => ({ ...row, attachment: row.attachment as MessageAttachment | null }));
+    },
+
+    // Closes every open report on the message and logs the decision. A mute
+    // without `muteMinutes` lasts until lifted.
+    async resolve(messageId: number, action: ModerationAction, options: { muteMinutes?: number } = {}) {
+      unwrap(
+        await db.rpc('resolve_report', {
+          p_message_id: messageId,
+          p_action: action,
+          p_mute_minutes: options.muteMinutes ?? null,
+        })
+      );
+    },
+  };
+}
+
+export type ModerationRepository = ReturnType<typeof createModerationRepository>;
@@ -0,0 +1,85 @@
+import { unwrap } from '@/lib/data/errors';
+import type { EditableProfile } from '@/lib/profiles';
+import type { AppSupabaseClient } from '@/lib/supabaseClient';
+
+// public.profiles. Everything other screens show about a person comes from
+// ProfileSummary; the bio only matters on the Account screen. Last-seen
+// times live in public.user_last_seen, which is kept out of realtime.
+
+export type ProfileSummary = {
+  id: string;
+  username: string | null;
+  handle: string | null;
+  avatar_url: string | null;
+  last_seen_at: string | null;
+};
+
+const SUMMARY_SELECT = 'id, username, handle, avatar_url, user_last_seen (last_seen_at)';
+const EDITABLE_SELECT = 'id, username, handle, bio, avatar_url';
+
+type SummaryRow = Omit<ProfileSummary, 'last_seen_at'> & {
+  // Null for people who have never been online
+  user_last_seen: { last_seen_at: string } | null;
+};
+
+const toSummary = ({ user_last_seen, ...profile }: SummaryRow): ProfileSummary => ({
+  ...profile,
+  last_seen_at: user_last_seen?.last_seen_at ?? null,
+});
+
+export function createProfileRepository(db: AppSupabaseClient) {
+  return {
+    // Creates the profile on first sign-in. An existing row is left alone so
+    // a name the user picked is never replaced by their email address.
+    async ensure(userId: string, email?: string | null) {
+      const username = email ?? `user-${userId.slice(0, 8)}`;
+      unwrap(
+        await db
+          .from('profiles')
+          .upsert({ id: userId, username }, { onConflict: 'id', ignoreDuplicates: true })
+      );
+    },
+
+    async get(userId: string): Promise<EditableProfile> {
+      return unwrap(await db.from('profiles').select(EDITABLE_SELECT).eq('id', userId).single());
+    },
+
+    async getSummary(userId: string): Promise<ProfileSummary> {
+      return toSummary(unwrap(await db.from('profiles').select(SUMMARY_SELECT).eq('id', userId).single()));
+    },
+
+    async getSummaries(userIds: string[]): Promise<ProfileSummary[]> {
+      if (userIds.length === 0) return [];
+      return unwrap(await db.from('profiles').select(SUMMARY_SELECT).in('id', userIds)).map(toSummary);
+    },
+
+    // Everyone but the given user, by display name
+    async listOthers(userId: string): Promise<ProfileSummary[]> {
+      const rows = unwrap(
+        await db
+          .from('profiles')
+          .select(SUMMARY_SELECT)
+          .neq('id', userId)
+          .order('username', { ascending: true })
+      );
+      return rows.map(toSummary);
+    },
+
+    async isHandleAvailable(handle: string) {
+      return unwrap(await db.rpc('is_handle_available', { p_handle: handle }));
+    },
+
+    // Fails with a 'conflict' DataError when someone claimed the handle since
+    // it was checked.
+    async update(
+      userId: string,
+      changes: Partial<Pick<EditableProfile, 'username' | 'handle' | 'bio' | 'avatar_url'>>
+    ): Promise<EditableProfile> {
+      return unwrap(
+        await db.from('profiles').update(changes).eq('id', userId).select(EDITABLE_SELECT).single()
+      );
+    },
+  };
+}
+
+export type ProfileRepository = ReturnType<typeof createProfileRepository>;
@@ -0,0 +1,44 @@
+import { unwrap } from '@/lib/data/errors';
+import type { ReactionRow } from '@/lib/reactions';
+import type { AppSupabaseClient } from '@/lib/supabaseClient';
+
+// public.message_reactions: one row per user, message and emoji. room_id is
+// filled in by a trigger from the message.
+
+export function createReactionRepository(db: AppSupabaseClient) {
+  return {
+    // Oldest first, so each message's emoji keep the order they were added in
+    async listForMessages(messageIds: number[]): Promise<ReactionRow[]> {
+      if (messageIds.length === 0) return [];
+      return unwrap(
+        await db
+          .from('message_reactions')
+          .select('message_id, user_id, emoji')
+          .in('message_id', messageIds)
+          .order('created_at', { ascending: true })
+      );
+    },
+
+    // Adding the same reaction twice (e.g. a double tap) is not an error
+    async add(row: ReactionRow) {
+      unwrap(
+        await db
+          .from('message_reactions')
+          .upsert(row, { onConflict: 'message_id,user_id,emoji', ignoreDuplicates: true })
+      );
+    },
+
+    async remove(row: ReactionRow) {
+      unwrap(
+        await db
+          .from('message_reactions')
+          .delete()
+          .eq('message_id', row.message_id)
+          .eq('user_id', row.user_id)
+          .eq('emoji', row.emoji)
+      );
+    },
+  };
+}
+
+export type ReactionRepository = ReturnType<typeof createReactionRepository>;
@@ -0,0 +1,100 @@
+import type { MessageAttachment } from '@/lib/attachments';
+import { unwrap } from '@/lib/data/errors';
+import type { RoomInfo } from '@/lib/rooms';
+import type { AppSupabaseClient } from '@/lib/supabaseClient';
+
+// public.rooms and the room RPCs. Role checks happen on the server; see the
+// group_rooms and room_settings migrations.
+
+// One row of the conversations inbox (get_inbox)
+export type InboxRoom = {
+  room_id: string;
+  name: string | null;
+  is_direct: boolean;
+  is_group: boolean;
+  other_user_id: string | null;
+  other_username: string | null;
+  other_avatar_url: string | null;
+  last_message_id: number | null;
+  last_message_body: string | null;
+  last_message_at: string | null;
+  last_message_user_id: string | null;
+  last_message_attachment: MessageAttachment | null;
+  unread_count: number;
+};
+
+const ROOM_SELECT = 'id, name, topic, avatar_path, is_direct, is_group, archived_at';
+
+export function createRoomRepository(db: AppSupabaseClient) {
+  return {
+    async get(roomId: string): Promise<RoomInfo> {
+      return unwrap(await db.from('rooms').select(ROOM_SELECT).eq('id', roomId).single());
+    },
+
+    // The open room with this name, or null. Groups can share the name but
+    // are not open to join, and direct rooms have no name.
+    async findOpenByName(name: string): Promise<RoomInfo | null> {
+      return unwrap(
+        await db
+          .from('rooms')
+          .select(ROOM_SELECT)
+          .eq('name', name)
+          .eq('is_direct', false)
+          .eq('is_group', false)
+          .limit(1)
+          .maybeSingle()
+      );
+    },
+
+    // Open rooms anyone can join; groups and direct rooms have RPCs of their own
+    async create(room: { name: string; createdBy: string }): Promise<RoomInfo> {
+      return unwrap(
+        await db
+          .from('rooms')
+          .insert({ name: room.name, is_direct: false, created_by: room.createdBy })
+          .select(ROOM_SELECT)
+          .single()
+      );
+    },
+
+    // The caller's direct room with this person, created on first use.
+    // Returns the room id.
+    async getOrCreateDirect(otherUserId: string) {
+      return unwrap(await db.rpc('get_or_create_direct_room', { p_other_user_id: otherUserId }));
+    },
+
+    // The creator becomes the owner; returns the new room id
+    async createGroup(name: string, memberIds: string[]) {
+      return unwrap(await db.rpc('create_group_room', { p_name: name.trim(), p_member_ids: memberIds }));
+    },
+
+    async updateDetails(
+      roomId: string,
+      details: { name: string; topic: string | null; avatarPath: string | null }
+    ) {
+      unwrap(
+        await db.rpc('update_room_details', {
+          p_room_id: roomId,
+          p_name: details.name.trim(),
+          p_topic: details.topic,
+          p_avatar_path: details.avatarPath,
+        })
+      );
+    },
+
+    async archive(roomId: string) {
+      unwrap(await db.rpc('archive_room', { p_room_id: roomId }));
+    },
+
+    // Every room the current user belongs to, newest activity first
+    async listInbox(): Promise<InboxRoom[]> {
+      const rows = unwrap(await db.rpc('get_inbox'));
+      return rows.map((row) => ({
+        ...row,
+        last_message_attachment: row.last_message_attachment as MessageAttachment | null,
+      }));
+    },
+  };
+}
+
+export type RoomRepository = ReturnType<typeof createRoomRepository>;
@@ -0,0 +1,35 @@
+import type { Database as GeneratedDatabase } from '@/lib/database.types';
+
+// The schema types the app's Supabase client is built with. database.types.ts
+// is generated by `npm run gen:types` and must not be edited by hand; what
+// the generator gets wrong is corrected here, so regenerating keeps it.
+//
+// The generator types every function argument as non-null. The functions
+// below accept null for the listed arguments (an invite that never expires,
+// a room without a topic, ...).
+
+type Functions = GeneratedDatabase['public']['Functions'];
+
+// A function whose `Keys` arguments may be null; optional ones stay optional
+type WithNullableArgs<Name extends keyof Functions, Keys extends keyof Functions[Name]['Args']> = Omit<
+  Functions[Name],
+  'Args'
+> & {
+  Args: Omit<Functions[Name]['Args'], Keys> & {
+    [Key in keyof Pick<Functions[Name]['Args'], Keys>]: Functions[Name]['Args'][Key] | null;
+  };
+};
+
+type FunctionOverrides = {
+  create_room_invite: WithNullableArgs<'create_room_invite', 'p_expires_at' | 'p_max_uses'>;
+  mark_room_read: WithNullableArgs<'mark_room_read', 'p_message_id'>;
+  report_message: WithNullableArgs<'report_message', 'p_details'>;
+  resolve_report: WithNullableArgs<'resolve_report', 'p_mute_minutes'>;
+  update_room_details: WithNullableArgs<'update_room_details', 'p_topic' | 'p_avatar_path'>;
+};
+
+export type Database = Omit<GeneratedDatabase, 'public'> & {
+  public: Omit<GeneratedDatabase['public'], 'Functions'> & {
+    Functions: Omit<Functions, keyof FunctionOverrides> & FunctionOverrides;
+  };
+};
@@ -0,0 +1,616 @@
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];
+
+export type Database = {
+  __InternalSupabase: {
+    PostgrestVersion: '12.2.3';
+  };
+  public: {
+    Tables: {
+      direct_rooms: {
+        Row: {
+          room_id: string;
+          user_high: string;
+          user_low: string;
+        };
+        Insert: {
+          room_id: string;
+          user_high: string;
+          user_low: string;
+        };
+        Update: {
+          room_id?: string;
+          user_high?: string;
+          user_low?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'direct_rooms_room_id_fkey';
+            columns: ['room_id'];
+            isOneToOne: true;
+            referencedRelation: 'rooms';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'direct_rooms_user_high_fkey';
+            columns: ['user_high'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'direct_rooms_user_low_fkey';
+            columns: ['user_low'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      message_reactions: {
+        Row: {
+          created_at: string;
+          emoji: string;
+          message_id: number;
+          room_id: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          emoji: string;
+          message_id: number;
+          room_id?: string;
+          user_id?: string;
+        };
+        Update: {
+          created_at?: string;
+          emoji?: string;
+          message_id?: number;
+          room_id?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'message_reactions_message_id_fkey';
+            columns: ['message_id'];
+            isOneToOne: false;
+            referencedRelation: 'messages';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      message_reports: {
+        Row: {
+          created_at: string;
+          details: string | null;
+          id: number;
+          message_id: number;
+          reason: string;
+          reporter_id: string | null;
+          resolved_at: string | null;
+          resolved_by: string | null;
+          room_id: string;
+          source: string;
+          status: string;
+        };
+        Insert: {
+          created_at?: string;
+          details?: string | null;
+          id?: never;
+          message_id: number;
+          reason: string;
+          reporter_id?: string | null;
+          resolved_at?: string | null;
+          resolved_by?: string | null;
+          room_id: string;
+          source?: string;
+          status?: string;
+        };
+        Update: {
+          created_at?: string;
+          details?: string | null;
+          id?: never;
+          message_id?: number;
+          reason?: string;
+          reporter_id?: string | null;
+          resolved_at?: string | null;
+          resolved_by?: string | null;
+          room_id?: string;
+          source?: string;
+          status?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'message_reports_message_id_fkey';
+            columns: ['message_id'];
+            isOneToOne: false;
+            referencedRelation: 'messages';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'message_reports_reporter_id_fkey';
+            columns: ['reporter_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'message_reports_room_id_fkey';
+            columns: ['room_id'];
+            isOneToOne: false;
+            referencedRelation: 'rooms';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      moderation_actions: {
+        Row: {
+          action: string;
+          actor_id: string | null;
+          created_at: string;
+          details: Json;
+          id: number;
+          message_id: number | null;
+          room_id: string;
+          target_user_id: string | null;
+        };
+        Insert: {
+          action: string;
+          actor_id?: string | null;
+          created_at?: string;
+          details?: Json;
+          id?: never;
+          message_id?: number | null;
+          room_id: string;
+          target_user_id?: string | null;
+        };
+        Update: {
+          action?: string;
+          actor_id?: string | null;
+          created_at?: string;
+          details?: Json;
+          id?: never;
+          message_id?: number | null;
+          room_id?: string;
+          target_user_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'moderation_actions_message_id_fkey';
+            columns: ['message_id'];
+            isOneToOne: false;
+            referencedRelation: 'messages';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'moderation_actions_room_id_fkey';
+            columns: ['room_id'];
+            isOneToOne: false;
+            referencedRelation: 'rooms';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      messages: {
+        Row: {
+          attachment: Json | null;
+          body: string;
+          client_id: string | null;
+          created_at: string;
+          deleted_at: string | null;
+          edited_at: string | null;
+          id: number;
+          reply_to_id: number | null;
+          room_id: string;
+          user_id: string | null;
+        };
+        Insert: {
+          attachment?: Json | null;
+          body: string;
+          client_id?: string | null;
+          created_at?: string;
+          deleted_at?: string | null;
+          edited_at?: string | null;
+          id?: number;
+          reply_to_id?: number | null;
+          room_id: string;
+          user_id?: string | null;
+        };
+        Update: {
+          attachment?: Json | null;
+          body?: string;
+          client_id?: string | null;
+          created_at?: string;
+          deleted_at?: string | null;
+          edited_at?: string | null;
+          id?: number;
+          reply_to_id?: number | null;
+          room_id?: string;
+          user_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'messages_reply_to_id_fkey';
+            columns: ['reply_to_id'];
+            isOneToOne: false;
+            referencedRelation: 'messages';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'messages_room_id_fkey';
+            columns: ['room_id'];
+            isOneToOne: false;
+            referencedRelation: 'rooms';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'messages_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      profiles: {
+        Row: {
+          avatar_url: string | null;
+          bio: string | null;
+          handle: string | null;
+          id: string;
+          is_moderator: boolean;
+          username: string | null;
+        };
+        Insert: {
+          avatar_url?: string | null;
+          bio?: string | null;
+          handle?: string | null;
+          id: string;
+          is_moderator?: boolean;
+          username?: string | null;
+        };
+        Update: {
+          avatar_url?: string | null;
+          bio?: string | null;
+          handle?: string | null;
+          id?: string;
+          is_moderator?: boolean;
+          username?: string | null;
+        };
+        Relationships: [];
+      };
+      room_invites: {
+        Row: {
+          created_at: string;
+          created_by: string;
+          expires_at: string | null;
+          id: string;
+          max_uses: number | null;
+          revoked_at: string | null;
+          room_id: string;
+          token: string;
+          use_count: number;
+        };
+        Insert: {
+          created_at?: string;
+          created_by?: string;
+          expires_at?: string | null;
+          id?: string;
+          max_uses?: number | null;
+          revoked_at?: string | null;
+          room_id: string;
+          token: string;
+          use_count?: number;
+        };
+        Update: {
+          created_at?: string;
+          created_by?: string;
+          expires_at?: string | null;
+          id?: string;
+          max_uses?: number | null;
+          revoked_at?: string | null;
+          room_id?: string;
+          token?: string;
+          use_count?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'room_invites_room_id_fkey';
+            columns: ['room_id'];
+            isOneToOne: false;
+            referencedRelation: 'rooms';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      room_members: {
+        Row: {
+          last_read_at: string;
+          last_read_message_id: number | null;
+          muted_until: string | null;
+          role: string;
+          room_id: string;
+          user_id: string;
+        };
+        Insert: {
+          last_read_at?: string;
+          last_read_message_id?: number | null;
+          muted_until?: string | null;
+          role?: string;
+          room_id: string;
+          user_id: string;
+        };
+        Update: {
+          last_read_at?: string;
+          last_read_message_id?: number | null;
+          muted_until?: string | null;
+          role?: string;
+          room_id?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'room_members_room_id_fkey';
+            columns: ['room_id'];
+            isOneToOne: false;
+            referencedRelation: 'rooms';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'room_members_last_read_message_id_fkey';
+            columns: ['last_read_message_id'];
+            isOneToOne: false;
+            referencedRelation: 'messages';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      rooms: {
+        Row: {
+          archived_at: string | null;
+          avatar_path: string | null;
+          created_at: string;
+          created_by: string | null;
+          id: string;
+          is_direct: boolean;
+          is_group: boolean;
+          name: string | null;
+          topic: string | null;
+        };
+        Insert: {
+          archived_at?: string | null;
+          avatar_path?: string | null;
+          created_at?: string;
+          created_by?: string | null;
+          id?: string;
+          is_direct?: boolean;
+          is_group?: boolean;
+          name?: string | null;
+          topic?: string | null;
+        };
+        Update: {
+          archived_at?: string | null;
+          avatar_path?: string | null;
+          created_at?: string;
+          created_by?: string | null;
+          id?: string;
+          is_direct?: boolean;
+          is_group?: boolean;
+          name?: string | null;
+          topic?: string | null;
+        };
+        Relationships: [];
+      };
+      user_blocks: {
+        Row: {
+          blocked_id: string;
+          blocker_id: string;
+          created_at: string;
+        };
+        Insert: {
+          blocked_id: string;
+          blocker_id?: string;
+          created_at?: string;
+        };
+        Update: {
+          blocked_id?: string;
+          blocker_id?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'user_blocks_blocked_id_fkey';
+            columns: ['blocked_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'user_blocks_blocker_id_fkey';
+            columns: ['blocker_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      user_last_seen: {
+        Row: {
+          last_seen_at: string;
+          user_id: string;
+        };
+        Insert: {
+          last_seen_at?: string;
+          user_id: string;
+        };
+        Update: {
+          last_seen_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'user_last_seen_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: true;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+    };
+    Views: {
+      [_ in never]: never;
+    };
+    Functions: {
+      accept_room_invite: {
+        Args: { p_token: string };
+        Returns: string;
+      };
+      archive_room: {
+        Args: { p_room_id: string };
+        Returns: undefined;
+      };
+      can_moderate_room: {
+        Args: { p_room_id: string };
+        Returns: boolean;
+      };
+      create_group_room: {
+        Args: { p_member_ids: string[]; p_name: string };
+        Returns: string;
+      };
+      create_room_invite: {
+        Args: { p_expires_at?: string; p_max_uses?: number; p_room_id: string };
+        Returns: Database['public']['Tables']['room_invites']['Row'];
+      };
+      delete_message: {
+        Args: { p_message_id: number };
+        Returns: undefined;
+      };
+      get_message_context: {
+        Args: { p_message_id: number; p_radius?: number };
+        Returns: {
+          attachment: Json | null;
+          body: string;
+          created_at: string;
+          deleted_at: string | null;
+          id: number;
+          user_id: string;
+          username: string | null;
+        }[];
+      };
+      get_moderation_queue: {
+        Args: never;
+        Returns: {
+          attachment: Json | null;
+          author_id: string;
+          author_username: string | null;
+          body: string;
+          deleted_at: string | null;
+          first_reported_at: string;
+          message_created_at: string;
+          message_id: number;
+          reports: Json;
+          room_id: string;
+          room_is_direct: boolean;
+          room_name: string | null;
+        }[];
+      };
+      get_or_create_direct_room: {
+        Args: { p_other_user_id: string };
+        Returns: string;
+      };
+      get_inbox: {
+        Args: never;
+        Returns: {
+          is_direct: boolean;
+          is_group: boolean;
+          last_message_at: string | null;
+          last_message_attachment: Json | null;
+          last_message_body: string | null;
+          last_message_id: number | null;
+          last_message_user_id: string | null;
+          name: string | null;
+          other_avatar_url: string | null;
+          other_user_id: string | null;
+          other_username: string | null;
+          room_id: string;
+          unread_count: number;
+        }[];
+      };
+      get_invite_preview: {
+        Args: { p_token: string };
+        Returns: {
+          is_member: boolean;
+          member_count: number;
+          name: string | null;
+          problem: string | null;
+          room_id: string;
+          topic: string | null;
+        }[];
+      };
+      has_moderation_access: {
+        Args: never;
+        Returns: boolean;
+      };
+      is_app_moderator: {
+        Args: never;
+        Returns: boolean;
+      };
+      is_blocked_between: {
+        Args: { p_user_a: string; p_user_b: string };
+        Returns: boolean;
+      };
+      is_handle_available: {
+        Args: { p_handle: string };
+        Returns: boolean;
+      };
+      mark_room_read: {
+        Args: { p_message_id?: number; p_room_id: string };
+        Returns: undefined;
+      };
+      report_message: {
+        Args: { p_details?: string; p_message_id: number; p_reason: string };
+        Returns: undefined;
+      };
+      resolve_report: {
+        Args: { p_action: string; p_message_id: number; p_mute_minutes?: number };
+        Returns: undefined;
+      };
+      revoke_room_invite: {
+        Args: { p_invite_id: string };
+        Returns: undefined;
+      };
+      room_role: {
+        Args: { p_room_id: string };
+        Returns: string | null;
+      };
+      set_member_role: {
+        Args: { p_role: string; p_room_id: string; p_user_id: string };
+        Returns: undefined;
+      };
+      touch_last_seen: {
+        Args: never;
+        Returns: undefined;
+      };
+      transfer_room_ownership: {
+        Args: { p_room_id: string; p_user_id: string };
+        Returns: undefined;
+      };
+      update_room_details: {
+        Args: { p_avatar_path: string; p_name: string; p_room_id: string; p_topic: string };
+        Returns: undefined;
+      };
+    };
+    Enums: {
+      [_ in never]: never;
+    };
+    CompositeTypes: {
+      [_ in never]: never;
+    };
+  };
+};
+
+type PublicSchema = Database['public'];
+
+export type Tables<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Row'];
+export type TablesInsert<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Insert'];
+export type TablesUpdate<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Update'];
@@ -0,0 +1,39 @@
+// Short timestamp for list rows: time of day for today, weekday within the
+// last week, otherwise a short date.
+export function formatListTimestamp(value: string | Date | null | undefined) {
+  if (!value) return '';
+  const date = typeof value === 'string' ? new Date(value) : value;
+  const now = new Date();
+
+  if (date.toDateString() === now.toDateString()) {
+    return date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  }
+
+  const sixDaysAgo = new Date(now);
+  sixDaysAgo.setDate(now.getDate() - 6);
+  sixDaysAgo.setHours(0, 0, 0, 0);
+  if (date >= sixDaysAgo) {
+    return date.toLocaleDateString([], { weekday: 'short' });
+  }
+
+  return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+// "last seen 5m ago" style label for offline users.
+export function formatLastSeen(value: string | null | undefined) {
+  if (!value) return 'Offline';
+
+  const seconds = Math.max(0, Math.floor((Date.now() - new Date(value).getTime()) / 1000));
+  if (seconds < 60) return 'last seen just now';
+
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `last seen ${minutes}m ago`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `last seen ${hours}h ago`;
+
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `last seen ${days}d ago`;
+
+  return `last seen ${formatListTimestamp(value)}`;
+}
@@ -0,0 +1,52 @@
+import * as Linking from 'expo-linking';
+
+// Room invite links (public.room_invites). A link carries only the token;
+// app/invite/[token].tsx previews the room and joins it on accept. Queries
+// live in inviteRepository (lib/data/invites.ts).
+
+export type RoomInvite = {
+  id: string;
+  room_id: string;
+  token: string;
+  created_at: string;
+  expires_at: string | null;
+  max_uses: number | null;
+  use_count: number;
+  revoked_at: string | null;
+};
+
+// Why an invite cannot be used (see room_invite_problem in the migration)
+export type InviteProblem = 'revoked' | 'expired' | 'used_up' | 'archived';
+
+export type InvitePreview = {
+  room_id: string;
+  name: string | null;
+  topic: string | null;
+  member_count: number;
+  is_member: boolean;
+  problem: InviteProblem | null;
+};
+
+export const INVITE_PROBLEM_MESSAGES: Record<InviteProblem, string> = {
+  revoked: 'This invite link has been revoked.',
+  expired: 'This invite link has expired.',
+  used_up: 'This invite link has already been used.',
+  archived: 'This room has been archived.',
+};
+
+// mobile://invite/<token> in the app, the site's /invite/<token> on web
+export const buildInviteLink = (token: string) => Linking.createURL(`/invite/${token}`);
+
+export function isInviteActive(invite: RoomInvite, now = Date.now()) {
+  if (invite.revoked_at) return false;
+  if (invite.expires_at && new Date(invite.expires_at).getTime() <= now) return false;
+  return invite.max_uses === null || invite.use_count < invite.max_uses;
+}
+
+export function describeInvite(invite: RoomInvite) {
+  const uses = invite.max_uses === 1 ? 'Single use' : `Used ${invite.use_count} times`;
+  const expiry = invite.expires_at
+    ? `expires ${new Date(invite.expires_at).toLocaleString()}`
+    : 'never expires';
+  return `${uses}, ${expiry}`;
+}
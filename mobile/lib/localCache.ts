@@ -0,0 +1,308 @@
+import type { MessageAttachment } from '@/lib/attachments';
+import { getLocalDb } from '@/lib/localDb';
+
+// Read-through cache of rooms, profiles and recent messages so screens can
+// render before (or without) the network. The server stays the source of
+// truth: callers render cached rows first, then overwrite them with fresh
+// results and realtime deltas.
+//
+// Rooms and messages are stored per account (`accountId`, the signed-in
+// user's id), so nobody sees what another account on the device cached.
+// Profiles are public and shared. Everything is wiped on sign-out
+// (clearLocalCache).
+
+export type CachedProfile = {
+  id: string;
+  username: string | null;
+  avatar_url: string | null;
+};
+
+export type CachedMessage = {
+  id: number;
+  room_id: string;
+  body: string;
+  created_at: string;
+  user_id: string | null;
+  client_id: string | null;
+  edited_at: string | null;
+  deleted_at: string | null;
+  reply_to_id: number | null;
+  attachment: MessageAttachment | null;
+  profiles: CachedProfile | null;
+};
+
+export type CachedRoom = {
+  room_id: string;
+  name: string | null;
+  is_direct: boolean;
+  is_group: boolean;
+  other_user_id: string | null;
+  other_username: string | null;
+  other_avatar_url: string | null;
+  last_message_id: number | null;
+  last_message_body: string | null;
+  last_message_at: string | null;
+  last_message_user_id: string | null;
+  last_message_attachment: MessageAttachment | null;
+  unread_count: number;
+};
+
+// Attachments are stored as JSON text
+type MessageJoinRow = Omit<CachedMessage, 'profiles' | 'attachment'> & {
+  attachment: string | null;
+  username: string | null;
+  avatar_url: string | null;
+};
+
+type RoomJoinRow = Omit<
+  CachedRoom,
+  'is_direct' | 'is_group' | 'other_username' | 'other_avatar_url' | 'last_message_attachment'
+> & {
+  is_direct: number;
+  is_group: number;
+  last_message_attachment: string | null;
+  username: string | null;
+  avatar_url: string | null;
+};
+
+// Messages kept per room; older ones are fetched from the server on demand.
+const MESSAGES_PER_ROOM = 200;
+
+export async function cacheProfiles(profiles: CachedProfile[]) {
+  if (profiles.length === 0) return;
+  const db = await getLocalDb();
+  await db.withTransactionAsync(async () => {
+    for (const profile of profiles) {
+      await db.runAsync(
+        'INSERT OR REPLACE INTO profiles (id, username, avatar_url) VALUES (?, ?, ?)',
+        profile.id,
+        profile.username,
+        profile.avatar_url
+      );
+    }
+  });
+}
+
+export async function getCachedProfile(id: string) {
+  const db = await getLocalDb();
+  return db.getFirstAsync<CachedProfile>('SELECT id, username, avatar_url FROM profiles WHERE id = ?', id);
+}
+
+export async function getCachedProfiles() {
+  const db = await getLocalDb();
+  return db.getAllAsync<CachedProfile>('SELECT id, username, avatar_url FROM profiles ORDER BY username ASC');
+}
+
+export async function cacheMessages(accountId: string, messages: CachedMessage[]) {
+  if (messages.length === 0) return;
+  const db = await getLocalDb();
+  const roomIds = new Set(messages.map((m) => m.room_id));
+
+  await db.withTransactionAsync(async () => {
+    for (const message of messages) {
+      await db.runAsync(
+        `INSERT OR REPLACE INTO messages (
+           account_id, id, room_id, body, created_at, user_id, client_id, edited_at, deleted_at,
+           reply_to_id, attachment
+         ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        accountId,
+        message.id,
+        message.room_id,
+        message.body,
+        message.created_at,
+        message.user_id,
+        message.client_id,
+        message.edited_at,
+        message.deleted_at,
+        message.reply_to_id,
+        message.attachment ? JSON.stringify(message.attachment) : null
+      );
+      if (message.profiles) {
+        await db.runAsync(
+          'INSERT OR REPLACE INTO profiles (id, username, avatar_url) VALUES (?, ?, ?)',
+          message.profiles.id,
+          message.profiles.username,
+          message.profiles.avatar_url
+        );
+      }
+    }
+
+    for (const roomId of roomIds) {
+      await db.runAsync(
+        `DELETE FROM messages WHERE account_id = ? AND room_id = ? AND id NOT IN (
+           SELECT id FROM messages
+           WHERE account_id = ? AND room_id = ?
+           ORDER BY created_at DESC, id DESC
+           LIMIT ?
+         )`,
+        accountId,
+        roomId,
+        accountId,
+        roomId,
+        MESSAGES_PER_ROOM
+      );
+    }
+  });
+}
+
+// Newest-first, matching the order of the server query in ChatScreen.
+export async function getCachedMessages(accountId: string, roomId: string, limit = MESSAGES_PER_ROOM) {
+  const db = await getLocalDb();
+  const rows = await db.getAllAsync<MessageJoinRow>(
+    `SELECT m.id, m.room_id, m.body, m.created_at, m.user_id, m.client_id, m.edited_at, m.deleted_at,
+            m.reply_to_id, m.attachment, p.username, p.avatar_url
+     FROM messages m
+     LEFT JOIN profiles p ON p.id = m.user_id
+     WHERE m.account_id = ? AND m.room_id = ?
+     ORDER BY m.created_at DESC, m.id DESC
+     LIMIT ?`,
+    accountId,
+    roomId,
+    limit
+  );
+
+  return rows.map(
+    ({ username, avatar_url, attachment, ...row }): CachedMessage => ({
+      ...row,
+      attachment: attachment ? (JSON.parse(attachment) as MessageAttachment) : null,
+      profiles: row.user_id ? { id: row.user_id, username, avatar_url } : null,
+    })
+  );
+}
+
+// Replaces the cached room list with the latest inbox snapshot. Messages of
+// rooms that are no longer in it (left or removed from) are dropped too.
+export async function cacheRooms(accountId: string, rooms: CachedRoom[]) {
+  const db = await getLocalDb();
+  await db.withTransactionAsync(async () => {
+    await db.runAsync('DELETE FROM rooms WHERE account_id = ?', accountId);
+    for (const room of rooms) {
+      await db.runAsync(
+        `INSERT OR REPLACE INTO rooms (
+           account_id, id, name, is_direct, is_group, other_user_id, last_message_id,
+           last_message_body, last_message_at, last_message_user_id, last_message_attachment,
+           unread_count
+         ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        accountId,
+        room.room_id,
+        room.name,
+        room.is_direct ? 1 : 0,
+        room.is_group ? 1 : 0,
+        room.other_user_id,
+        room.last_message_id,
+        room.last_message_body,
+        room.last_message_at,
+        room.last_message_user_id,
+        room.last_message_attachment ? JSON.stringify(room.last_message_attachment) : null,
+        room.unread_count
+      );
+      if (room.other_user_id) {
+        await db.runAsync(
+          'INSERT OR REPLACE INTO profiles (id, username, avatar_url) VALUES (?, ?, ?)',
+          room.other_user_id,
+          room.other_username,
+          room.other_avatar_url
+        );
+      }
+    }
+    await db.runAsync(
+      `DELETE FROM messages
+       WHERE account_id = ? AND room_id NOT IN (SELECT id FROM rooms WHERE account_id = ?)`,
+      accountId,
+      accountId
+    );
+  });
+}
+
+export async function cacheRoom(
+  accountId: string,
+  room: { id: string; name: string | null; is_direct: boolean; is_group: boolean }
+) {
+  const db = await getLocalDb();
+  await db.runAsync(
+    `INSERT INTO rooms (account_id, id, name, is_direct, is_group) VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT (account_id, id) DO UPDATE
+       SET name = excluded.name, is_direct = excluded.is_direct, is_group = excluded.is_group`,
+    accountId,
+    room.id,
+    room.name,
+    room.is_direct ? 1 : 0,
+    room.is_group ? 1 : 0
+  );
+}
+
+const ROOM_SELECT = `
+  SELECT r.id AS room_id, r.name, r.is_direct, r.is_group, r.other_user_id, r.last_message_id,
+         r.last_message_body, r.last_message_at, r.last_message_user_id, r.last_message_attachment,
+         r.unread_count,
+         p.username, p.avatar_url
+  FROM rooms r
+  LEFT JOIN profiles p ON p.id = r.other_user_id`;
+
+const toCachedRoom = ({
+  username,
+  avatar_url,
+  is_direct,
+  is_group,
+  last_message_attachment,
+  ...row
+}: RoomJoinRow): CachedRoom => ({
+  ...row,
+  is_direct: is_direct === 1,
+  is_group: is_group === 1,
+  last_message_attachment: last_message_attachment
+    ? (JSON.parse(last_message_attachment) as MessageAttachment)
+    : null,
+  other_username: username,
+  other_avatar_url: avatar_url,
+});
+
+export async function getCachedRooms(accountId: string) {
+  const db = await getLocalDb();
+  const rows = await db.getAllAsync<RoomJoinRow>(
+    `${ROOM_SELECT} WHERE r.account_id = ? ORDER BY r.last_message_at DESC`,
+    accountId
+  );
+  return rows.map(toCachedRoom);
+}
+
+export async function getCachedRoom(accountId: string, roomId: string) {
+  const db = await getLocalDb();
+  const row = await db.getFirstAsync<RoomJoinRow>(
+    `${ROOM_SELECT} WHERE r.account_id = ? AND r.id = ?`,
+    accountId,
+    roomId
+  );
+  return row ? toCachedRoom(row) : null;
+}
+
+// Forgets a room the account has left, with its messages
+export async function removeCachedRoom(accountId: string, roomId: string) {
+  const db = await getLocalDb();
+  await db.withTransactionAsync(async () => {
+    await db.runAsync('DELETE FROM messages WHERE account_id = ? AND room_id = ?', accountId, roomId);
+    await db.runAsync('DELETE FROM rooms WHERE account_id = ? AND id = ?', accountId, roomId);
+  });
+}
+
+// Same as roomRepository.findOpenByName: groups may share the name
+export async function getCachedOpenRoomByName(accountId: string, name: string) {
+  const db = await getLocalDb();
+  return db.getFirstAsync<{ id: string; name: string | null }>(
+    `SELECT id, name FROM rooms
+     WHERE account_id = ? AND name = ? AND is_direct = 0 AND is_group = 0
+     LIMIT 1`,
+    accountId,
+    name
+  );
+}
+
+// Forgets everything cached, for sign-out
+export async function clearLocalCache() {
+  const db = await getLocalDb();
+  await db.withTransactionAsync(async () => {
+    await db.runAsync('DELETE FROM messages');
+    await db.runAsync('DELETE FROM rooms');
+    await db.runAsync('DELETE FROM profiles');
+  });
+}
@@ -0,0 +1,141 @@
+import * as SQLite from 'expo-sqlite';
+
+// On-device SQLite database shared by the outbox and local caches. Schema
+// changes are appended to MIGRATIONS; PRAGMA user_version records how many
+// have been applied on this device.
+
+const DATABASE_NAME = 'chat.db';
+
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE IF NOT EXISTS outbox (
+    client_id TEXT PRIMARY KEY NOT NULL,
+    room_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    body TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    status TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT
+  );
+  CREATE INDEX IF NOT EXISTS outbox_room_id_idx ON outbox (room_id, created_at);
+  `,
+  `
+  CREATE TABLE IF NOT EXISTS profiles (
+    id TEXT PRIMARY KEY NOT NULL,
+    username TEXT,
+    avatar_url TEXT
+  );
+  CREATE TABLE IF NOT EXISTS rooms (
+    id TEXT PRIMARY KEY NOT NULL,
+    name TEXT,
+    is_direct INTEGER NOT NULL DEFAULT 0,
+    other_user_id TEXT,
+    last_message_id INTEGER,
+    last_message_body TEXT,
+    last_message_at TEXT,
+    last_message_user_id TEXT,
+    unread_count INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE TABLE IF NOT EXISTS messages (
+    id INTEGER PRIMARY KEY NOT NULL,
+    room_id TEXT NOT NULL,
+    body TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    user_id TEXT,
+    client_id TEXT
+  );
+  CREATE INDEX IF NOT EXISTS messages_room_id_created_at_idx ON messages (room_id, created_at DESC, id DESC);
+  `,
+  `
+  ALTER TABLE messages ADD COLUMN edited_at TEXT;
+  ALTER TABLE messages ADD COLUMN deleted_at TEXT;
+  `,
+  `
+  ALTER TABLE outbox ADD COLUMN reply_to_id INTEGER;
+  ALTER TABLE messages ADD COLUMN reply_to_id INTEGER;
+  `,
+  `
+  ALTER TABLE outbox ADD COLUMN attachment TEXT;
+  ALTER TABLE messages ADD COLUMN attachment TEXT;
+  ALTER TABLE rooms ADD COLUMN last_message_attachment TEXT;
+  `,
+  `
+  ALTER TABLE outbox ADD COLUMN moderation_category TEXT;
+  ALTER TABLE outbox ADD COLUMN moderation_reason TEXT;
+  ALTER TABLE outbox ADD COLUMN acknowledged_warning INTEGER NOT NULL DEFAULT 0;
+  `,
+  // Rooms and messages are cached per signed-in account. The old rows cannot
+  // be attributed to one, so the cache starts over.
+  `
+  DROP TABLE IF EXISTS rooms;
+  DROP TABLE IF EXISTS messages;
+  CREATE TABLE rooms (
+    account_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    name TEXT,
+    is_direct INTEGER NOT NULL DEFAULT 0,
+    other_user_id TEXT,
+    last_message_id INTEGER,
+    last_message_body TEXT,
+    last_message_at TEXT,
+    last_message_user_id TEXT,
+    last_message_attachment TEXT,
+    unread_count INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (account_id, id)
+  );
+  CREATE TABLE messages (
+    account_id TEXT NOT NULL,
+    id INTEGER NOT NULL,
+    room_id TEXT NOT NULL,
+    body TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    user_id TEXT,
+    client_id TEXT,
+    edited_at TEXT,
+    deleted_at TEXT,
+    reply_to_id INTEGER,
+    attachment TEXT,
+    PRIMARY KEY (account_id, id)
+  );
+  CREATE INDEX messages_room_id_created_at_idx
+    ON messages (account_id, room_id, created_at DESC, id DESC);
+  CREATE INDEX IF NOT EXISTS outbox_user_id_idx ON outbox (user_id, created_at);
+  `,
+  // Rows cached so far do not say whether they are groups; the inbox fills
+  // the list again on its next load
+  `
+  ALTER TABLE rooms ADD COLUMN is_group INTEGER NOT NULL DEFAULT 0;
+  DELETE FROM rooms;
+  `,
+];
+
+let dbPromise: Promise<SQLite.SQLiteDatabase> | null = null;
+
+const migrate = async (db: SQLite.SQLiteDatabase) => {
+  const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  const currentVersion = row?.user_version ?? 0;
+
+  for (let version = currentVersion; version < MIGRATIONS.length; version++) {
+    await db.withTransactionAsync(async () => {
+      await db.execAsync(MIGRATIONS[version]);
+      await db.execAsync(`PRAGMA user_version = ${version + 1}`);
+    });
+  }
+};
+
+export function getLocalDb() {
+  if (!dbPromise) {
+    dbPromise = (async () => {
+      const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+      await db.execAsync('PRAGMA journal_mode = WAL');
+      await migrate(db);
+      return db;
+    })().catch((error) => {
+      // Allow a later call to retry opening the database
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
@@ -0,0 +1,94 @@
+import type { MessageAttachment } from '@/lib/attachments';
+import type { SentMessageRow } from '@/lib/outbox';
+import { supabase } from '@/lib/supabaseClient';
+
+// Contract of the moderate-message edge function (source in
+// supabase/functions/moderate-message), which checks a message and saves it
+// when it passes. New messages and edits both go through it. Besides allowing
+// or blocking, it may warn: the text is borderline, nothing is saved yet, and
+// the same request sent again with `acknowledgeWarning` goes through.
+
+type ModerationRequestBase = {
+  roomId: string;
+  userId: string;
+  text: string;
+  // The user saw the warning for this text and chose to send it anyway
+  acknowledgeWarning?: boolean;
+};
+
+export type ModerateMessageRequest =
+  | (ModerationRequestBase & {
+      // Idempotency key, stored in messages.client_id (see lib/outbox.ts)
+      clientId: string;
+      replyToId: number | null;
+      attachment: MessageAttachment | null;
+    })
+  // Edit of an existing message
+  | (ModerationRequestBase & { messageId: number });
+
+// Why a message was blocked or warned about. Both fields are optional in the
+// response; the app falls back to generic wording.
+export type ModerationVerdict = {
+  category: string | null;
+  reason: string | null;
+};
+
+export type ModerateMessageResponse =
+  | { allowed: true; message: SentMessageRow }
+  | ({ allowed: false; outcome?: 'block' | 'warn' } & Partial<ModerationVerdict>);
+
+export type ModerationResult =
+  | { outcome: 'sent'; message: SentMessageRow }
+  | { outcome: 'blocked'; verdict: ModerationVerdict }
+  | { outcome: 'warned'; verdict: ModerationVerdict };
+
+const CATEGORY_LABELS: Record<string, string> = {
+  harassment: 'Harassment',
+  hate: 'Hate speech',
+  sexual: 'Sexual content',
+  violence: 'Violence',
+  self_harm: 'Self-harm',
+  spam: 'Spam',
+};
+
+// Reasons people can give when reporting a message (message_reports_reason_check)
+export const REPORT_REASONS = [
+  'spam',
+  'harassment',
+  'hate',
+  'sexual',
+  'violence',
+  'self_harm',
+  'other',
+] as const;
+
+export type ReportReason = (typeof REPORT_REASONS)[number];
+
+export function formatCategory(category: string) {
+  if (category === 'other') return 'Something else';
+  return CATEGORY_LABELS[category] ?? category.replace(/_/g, ' ');
+}
+
+// One line for bubbles and alerts, e.g. "Harassment: Personal insult"
+export function describeVerdict(verdict: ModerationVerdict) {
+  const category = verdict.category ? formatCategory(verdict.category) : null;
+  if (category && verdict.reason) return `${category}: ${verdict.reason}`;
+  return verdict.reason ?? category ?? 'Against the community guidelines';
+}
+
+// Calls moderate-message. Errors from the call itself (network, non-2xx, an
+// empty response) are thrown so callers can tell a failed send, which may be
+// retried, from a rejection.
+export async function moderateMessage(request: ModerateMessageRequest): Promise<ModerationResult> {
+  const { data, error } = await supabase.functions.invoke<ModerateMessageResponse>('moderate-message', {
+    body: request,
+  });
+  if (error) throw error;
+  if (!data) throw new Error('moderate-message returned no response');
+
+  if (data.allowed === false) {
+    const verdict: ModerationVerdict = { category: data.category ?? null, reason: data.reason ?? null };
+    return data.outcome === 'warn' ? { outcome: 'warned', verdict } : { outcome: 'blocked', verdict };
+  }
+  return { outcome: 'sent', message: data.message };
+}
@@ -0,0 +1,420 @@
+import NetInfo from '@react-native-community/netinfo';
+import { FunctionsFetchError } from '@supabase/supabase-js';
+
+import {
+  removeLocalAttachment,
+  removeLocalAttachments,
+  toMessageAttachment,
+  uploadAttachment,
+  type LocalAttachment,
+  type MessageAttachment,
+} from '@/lib/attachments';
+import { getLocalDb } from '@/lib/localDb';
+import { moderateMessage, type ModerationResult, type ModerationVerdict } from '@/lib/moderation';
+import { supabase } from '@/lib/supabaseClient';
+
+// Durable queue of messages the user has composed but the server has not yet
+// accepted. Every entry carries a client-generated id that is sent to the
+// moderate-message function as `clientId` and stored in messages.client_id,
+// whose unique constraint guarantees a retried send can never create a
+// second row. A reply's parent travels with the entry as `replyToId`, and an
+// attached file is uploaded before the message itself is sent.
+//
+// Entries moderation rejects stay in the outbox as 'blocked', and ones it
+// warns about as 'warned', together with the verdict. Neither is sent again
+// until the user revises the text, or for a warning, confirms it.
+//
+// Only the signed-in user's entries are sent, and sign-out empties the
+// outbox (clearOutbox) so nothing is replayed under the next account.
+
+export type OutboxStatus = 'pending' | 'sending' | 'failed' | 'blocked' | 'warned';
+
+export type OutboxEntry = {
+  clientId: string;
+  roomId: string;
+  userId: string;
+  body: string;
+  // Message this one replies to
+  replyToId: number | null;
+  attachment: LocalAttachment | null;
+  createdAt: string;
+  status: OutboxStatus;
+  attempts: number;
+  lastError: string | null;
+  // 0..1 while the attachment is uploading, otherwise null
+  uploadProgress: number | null;
+  // Set while the entry is blocked or warned
+  moderation: ModerationVerdict | null;
+  // Send even if moderation warns about it
+  acknowledgedWarning: boolean;
+};
+
+export type SentMessageRow = {
+  id: number;
+  room_id: string;
+  body: string;
+  created_at: string;
+  user_id: string | null;
+  client_id: string | null;
+  edited_at: string | null;
+  deleted_at: string | null;
+  reply_to_id: number | null;
+  attachment: MessageAttachment | null;
+};
+
+export type OutboxEvent =
+  | { type: 'changed'; roomId: string }
+  | { type: 'progress'; roomId: string; clientId: string; progress: number }
+  | { type: 'sent'; roomId: string; clientId: string; message: SentMessageRow };
+
+type OutboxRow = {
+  client_id: string;
+  room_id: string;
+  user_id: string;
+  body: string;
+  reply_to_id: number | null;
+  // JSON-encoded LocalAttachment
+  attachment: string | null;
+  created_at: string;
+  status: OutboxStatus;
+  attempts: number;
+  last_error: string | null;
+  moderation_category: string | null;
+  moderation_reason: string | null;
+  acknowledged_warning: number;
+};
+
+// Automatic retries stop after this many failed attempts; the entry is then
+// marked failed and waits for the user to retry or discard it.
+const MAX_AUTO_ATTEMPTS = 3;
+
+const listeners = new Set<(event: OutboxEvent) => void>();
+let flushPromise: Promise<void> | null = null;
+let flushRequested = false;
+// Upload progress is transient, so it lives in memory rather than SQLite
+const uploadProgress = new Map<string, number>();
+
+const toEntry = (row: OutboxRow): OutboxEntry => ({
+  clientId: row.client_id,
+  roomId: row.room_id,
+  userId: row.user_id,
+  body: row.body,
+  replyToId: row.reply_to_id,
+  attachment: row.attachment ? (JSON.parse(row.attachment) as LocalAttachment) : null,
+  createdAt: row.created_at,
+  status: row.status,
+  attempts: row.attempts,
+  lastError: row.last_error,
+  uploadProgress: uploadProgress.get(row.client_id) ?? null,
+  moderation:
+    row.status === 'blocked' || row.status === 'warned'
+      ? { category: row.moderation_category, reason: row.moderation_reason }
+      : null,
+  acknowledgedWarning: row.acknowledged_warning === 1,
+});
+
+const emit = (event: OutboxEvent) => {
+  listeners.forEach((listener) => listener(event));
+};
+
+export function subscribeOutbox(listener: (event: OutboxEvent) => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export async function listOutbox(roomId: string) {
+  const db = await getLocalDb();
+  const rows = await db.getAllAsync<OutboxRow>(
+    'SELECT * FROM outbox WHERE room_id = ? ORDER BY created_at ASC',
+    roomId
+  );
+  return rows.map(toEntry);
+}
+
+export async function enqueueOutbox(
+  entry: Pick<OutboxEntry, 'clientId' | 'roomId' | 'userId' | 'body'> & {
+    replyToId?: number | null;
+    attachment?: LocalAttachment | null;
+  }
+) {
+  const db = await getLocalDb();
+  await db.runAsync(
+    `INSERT INTO outbox (
+       client_id, room_id, user_id, body, reply_to_id, attachment, created_at, status, attempts
+     ) VALUES (?, ?, ?, ?, ?, ?, ?, 'pending', 0)`,
+    entry.clientId,
+    entry.roomId,
+    entry.userId,
+    entry.body,
+    entry.replyToId ?? null,
+    entry.attachment ? JSON.stringify(entry.attachment) : null,
+    new Date().toISOString()
+  );
+  emit({ type: 'changed', roomId: entry.roomId });
+}
+
+export async function discardOutbox(entry: OutboxEntry) {
+  await removeEntry(entry);
+  emit({ type: 'changed', roomId: entry.roomId });
+}
+
+// Manual retry from the UI: resets the attempt budget and flushes right away.
+export async function retryOutbox(entry: OutboxEntry) {
+  const db = await getLocalDb();
+  await db.runAsync(
+    "UPDATE outbox SET status = 'pending', attempts = 0, last_error = NULL WHERE client_id = ?",
+    entry.clientId
+  );
+  emit({ type: 'changed', roomId: entry.roomId });
+  await flushOutbox();
+}
+
+// Replaces the text of a blocked or warned entry and sends it again
+export async function reviseOutbox(entry: OutboxEntry, body: string) {
+  const db = await getLocalDb();
+  await db.runAsync(
+    `UPDATE outbox
+     SET body = ?, status = 'pending', attempts = 0, last_error = NULL,
+         moderation_category = NULL, moderation_reason = NULL, acknowledged_warning = 0
+     WHERE client_id = ?`,
+    body,
+    entry.clientId
+  );
+  emit({ type: 'changed', roomId: entry.roomId });
+  await flushOutbox();
+}
+
+// Sends a warned entry as it is
+export async function acknowledgeOutboxWarning(entry: OutboxEntry) {
+  const db = await getLocalDb();
+  await db.runAsync(
+    `UPDATE outbox
+     SET status = 'pending', attempts = 0, last_error = NULL, acknowledged_warning = 1
+     WHERE client_id = ?`,
+    entry.clientId
+  );
+  emit({ type: 'changed', roomId: entry.roomId });
+  await flushOutbox();
+}
+
+const setStatus = async (
+  entry: OutboxEntry,
+  status: OutboxStatus,
+  attempts: number,
+  lastError: string | null
+) => {
+  const db = await getLocalDb();
+  await db.runAsync(
+    'UPDATE outbox SET status = ?, attempts = ?, last_error = ? WHERE client_id = ?',
+    status,
+    attempts,
+    lastError,
+    entry.clientId
+  );
+  emit({ type: 'changed', roomId: entry.roomId });
+};
+
+const setVerdict = async (
+  entry: OutboxEntry,
+  status: Extract<OutboxStatus, 'blocked' | 'warned'>,
+  verdict: ModerationVerdict
+) => {
+  const db = await getLocalDb();
+  await db.runAsync(
+    `UPDATE outbox
+     SET status = ?, attempts = ?, last_error = NULL, moderation_category = ?, moderation_reason = ?
+     WHERE client_id = ?`,
+    status,
+    entry.attempts + 1,
+    verdict.category,
+    verdict.reason,
+    entry.clientId
+  );
+  emit({ type: 'changed', roomId: entry.roomId });
+};
+
+const removeEntry = async (entry: OutboxEntry) => {
+  const db = await getLocalDb();
+  await db.runAsync('DELETE FROM outbox WHERE client_id = ?', entry.clientId);
+  uploadProgress.delete(entry.clientId);
+  if (entry.attachment) {
+    removeLocalAttachment(entry.attachment).catch((error) =>
+      console.error('Error removing attachment copy', error)
+    );
+  }
+};
+
+// Uploads the entry's file once; the flag is persisted so a later attempt
+// (e.g. after the moderation call failed) does not upload it again.
+const uploadEntryAttachment = async (entry: OutboxEntry, attachment: LocalAttachment) => {
+  uploadProgress.set(entry.clientId, 0);
+  try {
+    await uploadAttachment(attachment, (progress) => {
+      uploadProgress.set(entry.clientId, progress);
+      emit({ type: 'progress', roomId: entry.roomId, clientId: entry.clientId, progress });
+    });
+  } finally {
+    uploadProgress.delete(entry.clientId);
+  }
+
+  const uploaded = { ...attachment, uploaded: true };
+  const db = await getLocalDb();
+  await db.runAsync(
+    'UPDATE outbox SET attachment = ? WHERE client_id = ?',
+    JSON.stringify(uploaded),
+    entry.clientId
+  );
+  return uploaded;
+};
+
+// A previous attempt may have reached the server even though the response
+// was lost, so check for the row before treating a failure as a failure.
+const findDeliveredMessage = async (clientId: string) => {
+  const { data, error } = await supabase
+    .from('messages')
+    .select(
+      'id, room_id, body, created_at, user_id, client_id, edited_at, deleted_at, reply_to_id, attachment'
+    )
+    .eq('client_id', clientId)
+    .maybeSingle();
+
+  if (error && error.code !== 'PGRST116') {
+    return null;
+  }
+  return (data as SentMessageRow | null) ?? null;
+};
+
+// Returns false when the request never reached the server (connection lost),
+// in which case the attempt is not counted and the flush stops early.
+const sendEntry = async (entry: OutboxEntry) => {
+  const attempts = entry.attempts + 1;
+  await setStatus(entry, 'sending', entry.attempts, entry.lastError);
+
+  let attachment = entry.attachment;
+  if (attachment && !attachment.uploaded) {
+    try {
+      attachment = await uploadEntryAttachment(entry, attachment);
+    } catch (error) {
+      console.error('Error uploading attachment', error);
+      const status = attempts >= MAX_AUTO_ATTEMPTS ? 'failed' : 'pending';
+      await setStatus(entry, status, attempts, 'The attachment could not be uploaded');
+      return true;
+    }
+  }
+
+  let result: ModerationResult;
+  try {
+    result = await moderateMessage({
+      roomId: entry.roomId,
+      userId: entry.userId,
+      text: entry.body,
+      clientId: entry.clientId,
+      replyToId: entry.replyToId,
+      attachment: attachment ? toMessageAttachment(attachment) : null,
+      acknowledgeWarning: entry.acknowledgedWarning,
+    });
+  } catch (caught) {
+    const error = caught as Error;
+    const delivered = await findDeliveredMessage(entry.clientId);
+    if (delivered) {
+      await removeEntry(entry);
+      emit({ type: 'sent', roomId: entry.roomId, clientId: entry.clientId, message: delivered });
+      return true;
+    }
+
+    if (error instanceof FunctionsFetchError) {
+      await setStatus(entry, 'pending', entry.attempts, entry.lastError);
+      return false;
+    }
+
+    console.error('Error sending moderated message', error);
+    const status = attempts >= MAX_AUTO_ATTEMPTS ? 'failed' : 'pending';
+    await setStatus(entry, status, attempts, error.message ?? 'Send failed');
+    return true;
+  }
+
+  if (result.outcome !== 'sent') {
+    await setVerdict(entry, result.outcome, result.verdict);
+    return true;
+  }
+
+  await removeEntry(entry);
+  emit({ type: 'sent', roomId: entry.roomId, clientId: entry.clientId, message: result.message });
+  return true;
+};
+
+const runFlush = async () => {
+  const state = await NetInfo.fetch();
+  if (!state.isConnected || state.isInternetReachable === false) {
+    return;
+  }
+
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session) return;
+
+  const db = await getLocalDb();
+  // 'sending' rows left over from a previous run (e.g. the app was killed
+  // mid-request) are retried; the idempotency key makes this safe.
+  const rows = await db.getAllAsync<OutboxRow>(
+    `SELECT * FROM outbox
+     WHERE user_id = ? AND status IN ('pending', 'sending')
+     ORDER BY created_at ASC`,
+    session.user.id
+  );
+
+  for (const row of rows) {
+    const reachedServer = await sendEntry(toEntry(row));
+    if (!reachedServer) break;
+  }
+};
+
+// Sends every queued entry in order. Calls made while a flush is running
+// share it, and trigger one more pass so freshly queued entries are picked up.
+export function flushOutbox() {
+  flushRequested = true;
+  if (!flushPromise) {
+    flushPromise = (async () => {
+      while (flushRequested) {
+        flushRequested = false;
+        await runFlush();
+      }
+    })()
+      .catch((error) => {
+        console.error('Error flushing outbox', error);
+      })
+      .finally(() => {
+        flushPromise = null;
+      });
+  }
+  return flushPromise;
+}
+
+// Drops every queued entry and the local copies of their attachments, for
+// sign-out
+export async function clearOutbox() {
+  const db = await getLocalDb();
+  const rooms = await db.getAllAsync<{ room_id: string }>('SELECT DISTINCT room_id FROM outbox');
+  await db.runAsync('DELETE FROM outbox');
+  uploadProgress.clear();
+  await removeLocalAttachments();
+  rooms.forEach(({ room_id }) => emit({ type: 'changed', roomId: room_id }));
+}
+
+// Flushes the outbox whenever the device regains connectivity.
+export function startOutboxSync() {
+  let wasOnline = false;
+
+  const unsubscribe = NetInfo.addEventListener((state) => {
+    const online = Boolean(state.isConnected) && state.isInternetReachable !== false;
+    if (online && !wasOnline) {
+      flushOutbox();
+    }
+    wasOnline = online;
+  });
+
+  return unsubscribe;
+}
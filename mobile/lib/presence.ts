@@ -0,0 +1,78 @@
+import { AppState } from 'react-native';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+
+import { supabase } from '@/lib/supabaseClient';
+
+// App-wide online presence. One Realtime presence channel is joined while the
+// user is signed in, keyed by user id; screens read the shared set of online
+// ids through subscribePresence / usePresence. user_last_seen is bumped on
+// join, on a heartbeat and when the app is backgrounded so offline users can
+// be shown with a "last seen" time.
+
+const PRESENCE_CHANNEL = 'online-users';
+const LAST_SEEN_HEARTBEAT_MS = 60_000;
+
+let onlineUserIds: ReadonlySet<string> = new Set();
+const listeners = new Set<() => void>();
+
+const setOnline = (next: ReadonlySet<string>) => {
+  onlineUserIds = next;
+  listeners.forEach((listener) => listener());
+};
+
+export function getOnlineUserIds() {
+  return onlineUserIds;
+}
+
+export function subscribePresence(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+const touchLastSeen = async () => {
+  const { error } = await supabase.rpc('touch_last_seen');
+  if (error) {
+    console.error('Error updating last seen', error);
+  }
+};
+
+// Joins the presence channel as `userId`; returns a function that leaves it.
+export function startPresence(userId: string) {
+  const channel: RealtimeChannel = supabase.channel(PRESENCE_CHANNEL, {
+    config: { presence: { key: userId } },
+  });
+
+  channel
+    .on('presence', { event: 'sync' }, () => {
+      setOnline(new Set(Object.keys(channel.presenceState())));
+    })
+    .subscribe(async (status) => {
+      if (status === 'SUBSCRIBED') {
+        await channel.track({ online_at: new Date().toISOString() });
+        touchLastSeen();
+      }
+    });
+
+  const heartbeat = setInterval(touchLastSeen, LAST_SEEN_HEARTBEAT_MS);
+
+  // Going to the background counts as leaving; coming back re-announces us
+  const appStateSubscription = AppState.addEventListener('change', (state) => {
+    if (state === 'active') {
+      channel.track({ online_at: new Date().toISOString() });
+      touchLastSeen();
+    } else if (state === 'background') {
+      touchLastSeen();
+      channel.untrack();
+    }
+  });
+
+  return () => {
+    clearInterval(heartbeat);
+    appStateSubscription.remove();
+    touchLastSeen();
+    supabase.removeChannel(channel);
+    setOnline(new Set());
+  };
+}
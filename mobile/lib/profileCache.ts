@@ -0,0 +1,125 @@
+import type { RealtimeChannel } from '@supabase/supabase-js';
+
+import { profileRepository } from '@/lib/data';
+import type { Tables } from '@/lib/database.types';
+import type { MemberProfile } from '@/lib/rooms';
+import { supabase } from '@/lib/supabaseClient';
+
+// Names and avatars of everyone the app has shown, shared by every screen.
+// Screens seed it with profiles they already loaded (message joins, the Users
+// list) and request the ones they are missing; requests made within
+// BATCH_DELAY_MS of each other go out as a single select. While anything is
+// subscribed, a Realtime channel keeps cached profiles up to date when people
+// rename themselves or change their avatar.
+
+const PROFILES_CHANNEL = 'profiles';
+const BATCH_DELAY_MS = 50;
+// Keeps the `id=in.(...)` filter well inside URL length limits
+const MAX_BATCH_SIZE = 100;
+
+let profiles: ReadonlyMap<string, MemberProfile> = new Map();
+const listeners = new Set<() => void>();
+let channel: RealtimeChannel | null = null;
+
+// Ids waiting for the next batch, and every id queued or in flight
+const queued = new Set<string>();
+const requested = new Set<string>();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+export function getProfiles() {
+  return profiles;
+}
+
+// Adds or replaces cached profiles; listeners only hear about real changes.
+export function seedProfiles(rows: Iterable<MemberProfile | null | undefined>) {
+  let next: Map<string, MemberProfile> | null = null;
+  for (const row of rows) {
+    if (!row) continue;
+    const current = (next ?? profiles).get(row.id);
+    if (current && current.username === row.username && current.avatar_url === row.avatar_url) continue;
+
+    next ??= new Map(profiles);
+    next.set(row.id, { id: row.id, username: row.username, avatar_url: row.avatar_url });
+  }
+
+  if (!next) return;
+  profiles = next;
+  listeners.forEach((listener) => listener());
+}
+
+const fetchBatch = async (userIds: string[]) => {
+  try {
+    seedProfiles(await profileRepository.getSummaries(userIds));
+  } catch (error) {
+    console.error('Error loading profiles', error);
+  } finally {
+    // Failed ids can be asked for again
+    userIds.forEach((userId) => requested.delete(userId));
+  }
+};
+
+const flush = () => {
+  flushTimer = null;
+  const userIds = Array.from(queued);
+  queued.clear();
+  for (let start = 0; start < userIds.length; start += MAX_BATCH_SIZE) {
+    fetchBatch(userIds.slice(start, start + MAX_BATCH_SIZE));
+  }
+};
+
+const enqueue = (userIds: Iterable<string>, refresh: boolean) => {
+  for (const userId of userIds) {
+    if (requested.has(userId) || (!refresh && profiles.has(userId))) continue;
+    requested.add(userId);
+    queued.add(userId);
+  }
+  if (queued.size > 0 && !flushTimer) {
+    flushTimer = setTimeout(flush, BATCH_DELAY_MS);
+  }
+};
+
+// Loads the profiles of any of `userIds` that are not cached yet. Results
+// arrive through subscribeProfiles.
+export function requestProfiles(userIds: Iterable<string>) {
+  enqueue(userIds, false);
+}
+
+// Profile rows only change when someone edits their profile; last-seen times
+// are kept in user_last_seen so presence does not wake every client.
+const openChannel = () => {
+  let joinedOnce = false;
+  channel = supabase
+    .channel(PROFILES_CHANNEL)
+    .on<Tables<'profiles'>>(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'profiles' },
+      (payload) => {
+        if (profiles.has(payload.new.id)) {
+          seedProfiles([payload.new]);
+        }
+      }
+    )
+    .subscribe((status) => {
+      if (status !== 'SUBSCRIBED') return;
+      // Edits made while the channel was down were missed
+      if (joinedOnce) {
+        enqueue(profiles.keys(), true);
+      }
+      joinedOnce = true;
+    });
+};
+
+export function subscribeProfiles(listener: () => void) {
+  listeners.add(listener);
+  if (!channel) {
+    openChannel();
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && channel) {
+      supabase.removeChannel(channel);
+      channel = null;
+    }
+  };
+}
@@ -0,0 +1,77 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import * as ImagePicker from 'expo-image-picker';
+
+import { profileRepository } from '@/lib/data';
+import { supabase } from '@/lib/supabaseClient';
+
+// The signed-in user's own profile (public.profiles). username is the display
+// name shown in chat and the Users list; handle is the unique @name. Reads
+// and writes go through profileRepository in lib/data.
+
+export type EditableProfile = {
+  id: string;
+  username: string | null;
+  handle: string | null;
+  bio: string | null;
+  avatar_url: string | null;
+};
+
+export const AVATARS_BUCKET = 'avatars';
+export const MAX_BIO_LENGTH = 280;
+// Same rule as the profiles_handle_format constraint
+export const HANDLE_PATTERN = /^[a-z0-9_]{3,20}$/;
+
+const AVATAR_SIZE = 512;
+
+// "@Some_Name " -> "some_name"
+export const normalizeHandle = (input: string) => input.trim().replace(/^@/, '').toLowerCase();
+
+// Lets the user crop a square photo from their library, or returns null.
+export async function pickAvatar() {
+  const result = await ImagePicker.launchImageLibraryAsync({
+    mediaTypes: ['images'],
+    allowsEditing: true,
+    aspect: [1, 1],
+    quality: 1,
+  });
+  return result.canceled ? null : (result.assets[0]?.uri ?? null);
+}
+
+// Scales the cropped photo down, uploads it under the user's folder and
+// points profiles.avatar_url at it. Every upload gets a new name so cached
+// copies of the old picture are not reused.
+export async function uploadAvatar(userId: string, uri: string) {
+  const rendered = await ImageManipulator.manipulate(uri)
+    .resize({ width: AVATAR_SIZE, height: AVATAR_SIZE })
+    .renderAsync();
+  const image = await rendered.saveAsync({ format: SaveFormat.JPEG, compress: 0.8 });
+
+  const path = `${userId}/avatar-${Date.now()}.jpg`;
+  const { data, error } = await supabase.storage.from(AVATARS_BUCKET).createSignedUploadUrl(path);
+  if (error || !data) throw error ?? new Error('Could not create upload URL');
+
+  const result = await FileSystem.uploadAsync(data.signedUrl, image.uri, {
+    httpMethod: 'PUT',
+    uploadType: FileSystem.FileSystemUploadType.BINARY_CONTENT,
+    headers: { 'content-type': 'image/jpeg' },
+  });
+  if (result.status < 200 || result.status >= 300) {
+    throw new Error(`Upload failed with status ${result.status}`);
+  }
+
+  const avatarUrl = supabase.storage.from(AVATARS_BUCKET).getPublicUrl(path).data.publicUrl;
+  await profileRepository.update(userId, { avatar_url: avatarUrl });
+
+  // Older pictures are no longer referenced
+  const { data: files } = await supabase.storage.from(AVATARS_BUCKET).list(userId);
+  const stale = (files ?? []).map((file) => `${userId}/${file.name}`).filter((name) => name !== path);
+  if (stale.length > 0) {
+    supabase.storage
+      .from(AVATARS_BUCKET)
+      .remove(stale)
+      .catch((removeError) => console.error('Error removing old avatars', removeError));
+  }
+
+  return avatarUrl;
+}
@@ -0,0 +1,46 @@
+// Emoji reactions on messages (public.message_reactions). Each row is one
+// user's reaction; the chat screen keeps the raw rows for the loaded messages
+// and aggregates them per message for display. Queries live in
+// reactionRepository (lib/data/reactions.ts).
+
+export type ReactionRow = {
+  message_id: number;
+  user_id: string;
+  emoji: string;
+};
+
+export type ReactionSummary = {
+  emoji: string;
+  count: number;
+  // Whether the current user is one of the reactors
+  mine: boolean;
+};
+
+// Offered in the long-press picker
+export const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+export const isSameReaction = (a: ReactionRow, b: ReactionRow) =>
+  a.message_id === b.message_id && a.user_id === b.user_id && a.emoji === b.emoji;
+
+// Adds rows that are not already present.
+export function mergeReactions(current: ReactionRow[], incoming: ReactionRow[]) {
+  const added = incoming.filter((row) => !current.some((existing) => isSameReaction(existing, row)));
+  return added.length > 0 ? [...current, ...added] : current;
+}
+
+// Groups rows by message, then by emoji in order of first appearance.
+export function summarizeReactions(rows: ReactionRow[], userId: string | null) {
+  const byMessage = new Map<number, ReactionSummary[]>();
+  for (const row of rows) {
+    const summaries = byMessage.get(row.message_id) ?? [];
+    const summary = summaries.find((s) => s.emoji === row.emoji);
+    if (summary) {
+      summary.count += 1;
+      summary.mine = summary.mine || row.user_id === userId;
+    } else {
+      summaries.push({ emoji: row.emoji, count: 1, mine: row.user_id === userId });
+    }
+    byMessage.set(row.message_id, summaries);
+  }
+  return byMessage;
+}
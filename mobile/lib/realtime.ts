@@ -0,0 +1,220 @@
+import { AppState, type NativeEventSubscription } from 'react-native';
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+
+import type { Tables } from '@/lib/database.types';
+import type { ReactionRow } from '@/lib/reactions';
+import { supabase } from '@/lib/supabaseClient';
+
+// Shared Realtime subscriptions for rooms. Every screen or hook interested in
+// a room calls subscribeToRoom and gets that room's single channel; the
+// channel is opened for the first subscriber and removed when the last one
+// releases it. Rows that change while the socket is down are never replayed,
+// so subscribers also receive a `resync` event after the channel rejoins and
+// when the app returns to the foreground, and are expected to backfill.
+// Room channels are private to the room's members. Removals cannot be
+// filtered by room as postgres_changes, so the database broadcasts them on
+// the room's channel instead (see the room_broadcasts migration).
+
+type RoomTable = 'messages' | 'room_members' | 'rooms' | 'message_reactions';
+
+export type RoomChange = {
+  [T in RoomTable]: {
+    type: 'change';
+    table: T;
+    payload: RealtimePostgresChangesPayload<Tables<T>>;
+  };
+}[RoomTable];
+
+export type RoomEvent =
+  | RoomChange
+  | { type: 'reaction_removed'; reaction: ReactionRow }
+  // Someone left or was removed from the room
+  | { type: 'member_removed'; userId: string }
+  | { type: 'broadcast'; event: string; payload: unknown }
+  // Changes may have been missed; reload anything that matters
+  | { type: 'resync' };
+
+export type RoomListener = (event: RoomEvent) => void;
+
+// 'reconnecting' while any room channel has lost its connection and is
+// waiting for realtime-js to rejoin it.
+export type ConnectionState = 'connecting' | 'connected' | 'reconnecting';
+
+// Sent by the broadcast_* triggers
+const REACTION_REMOVED_EVENT = 'reaction_removed';
+const MEMBER_REMOVED_EVENT = 'member_removed';
+
+type RoomSubscription = {
+  channel: RealtimeChannel;
+  listeners: Set<RoomListener>;
+  status: 'joining' | 'joined' | 'interrupted';
+  // Whether the channel has been joined before, so the next join is a rejoin
+  joinedOnce: boolean;
+};
+
+const rooms = new Map<string, RoomSubscription>();
+const connectionListeners = new Set<() => void>();
+let connectionState: ConnectionState = 'connected';
+let appStateSubscription: NativeEventSubscription | null = null;
+let lastAppState = AppState.currentState;
+
+export function getConnectionState() {
+  return connectionState;
+}
+
+export function subscribeConnectionState(listener: () => void) {
+  connectionListeners.add(listener);
+  return () => {
+    connectionListeners.delete(listener);
+  };
+}
+
+const updateConnectionState = () => {
+  const statuses = Array.from(rooms.values()).map((room) => room.status);
+  const next: ConnectionState = statuses.includes('interrupted')
+    ? 'reconnecting'
+    : statuses.includes('joining')
+      ? 'connecting'
+      : 'connected';
+  if (next === connectionState) return;
+  connectionState = next;
+  connectionListeners.forEach((listener) => listener());
+};
+
+const emit = (room: RoomSubscription, event: RoomEvent) => {
+  // Copy first: a listener may release its subscription while handling
+  Array.from(room.listeners).forEach((listener) => listener(event));
+};
+
+// Coming back from the background: the socket may have been suspended
+const handleAppStateChange = (state: string) => {
+  if (state === 'active' && lastAppState !== 'active') {
+    rooms.forEach((room) => {
+      if (room.status === 'joined') emit(room, { type: 'resync' });
+    });
+  }
+  lastAppState = state as typeof lastAppState;
+};
+
+function openRoom(roomId: string) {
+  // DELETE events cannot be filtered server-side, so those bindings listen to
+  // the whole table and the room is checked here
+  const forwardChange =
+    <T extends RoomTable>(table: T, roomKey: 'room_id' | 'id' = 'room_id') =>
+    (payload: RealtimePostgresChangesPayload<Tables<T>>) => {
+      if (payload.eventType === 'DELETE') {
+        const old = payload.old as Record<string, unknown>;
+        if (old[roomKey] !== undefined && old[roomKey] !== roomId) return;
+      }
+      emit(room, { type: 'change', table, payload } as RoomChange);
+    };
+
+  const channel = supabase
+    .channel(`room:${roomId}`, { config: { private: true } })
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'messages', filter: `room_id=eq.${roomId}` },
+      forwardChange('messages')
+    )
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'messages', filter: `room_id=eq.${roomId}` },
+      forwardChange('messages')
+    )
+    .on(
+      'postgres_changes',
+      { event: 'DELETE', schema: 'public', table: 'messages' },
+      forwardChange('messages')
+    )
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'room_members', filter: `room_id=eq.${roomId}` },
+      forwardChange('room_members')
+    )
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'room_members', filter: `room_id=eq.${roomId}` },
+      forwardChange('room_members')
+    )
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'rooms', filter: `id=eq.${roomId}` },
+      forwardChange('rooms', 'id')
+    )
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'message_reactions', filter: `room_id=eq.${roomId}` },
+      forwardChange('message_reactions')
+    )
+    .on('broadcast', { event: '*' }, ({ event, payload }) => {
+      if (event === REACTION_REMOVED_EVENT) {
+        emit(room, { type: 'reaction_removed', reaction: payload as ReactionRow });
+        return;
+      }
+      if (event === MEMBER_REMOVED_EVENT) {
+        emit(room, { type: 'member_removed', userId: (payload as { user_id: string }).user_id });
+        return;
+      }
+      emit(room, { type: 'broadcast', event, payload });
+    });
+
+  const room: RoomSubscription = { channel, listeners: new Set(), status: 'joining', joinedOnce: false };
+
+  channel.subscribe((status, error) => {
+    // Ignore late callbacks from a channel that has since been released
+    if (rooms.get(roomId) !== room) return;
+
+    if (status === 'SUBSCRIBED') {
+      const rejoined = room.joinedOnce;
+      room.status = 'joined';
+      room.joinedOnce = true;
+      updateConnectionState();
+      if (rejoined) {
+        emit(room, { type: 'resync' });
+      }
+      return;
+    }
+
+    if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+      console.warn(`Realtime channel for room ${roomId} interrupted`, status, error);
+      room.status = 'interrupted';
+      updateConnectionState();
+    }
+  });
+
+  if (!appStateSubscription) {
+    appStateSubscription = AppState.addEventListener('change', handleAppStateChange);
+  }
+
+  rooms.set(roomId, room);
+  updateConnectionState();
+  return room;
+}
+
+// Starts delivering a room's changes and broadcasts to `listener`; returns a
+// function that stops them. The channel closes with its last subscriber.
+export function subscribeToRoom(roomId: string, listener: RoomListener) {
+  const room = rooms.get(roomId) ?? openRoom(roomId);
+  room.listeners.add(listener);
+
+  return () => {
+    room.listeners.delete(listener);
+    if (room.listeners.size > 0 || rooms.get(roomId) !== room) return;
+
+    rooms.delete(roomId);
+    supabase.removeChannel(room.channel);
+    if (rooms.size === 0) {
+      appStateSubscription?.remove();
+      appStateSubscription = null;
+    }
+    updateConnectionState();
+  };
+}
+
+// Sends a broadcast to everyone else subscribed to the room. Dropped when
+// nobody on this device is subscribed to it.
+export function sendRoomBroadcast(roomId: string, event: string, payload: unknown) {
+  const room = rooms.get(roomId);
+  if (!room || room.status !== 'joined') return Promise.resolve();
+  return room.channel.send({ type: 'broadcast', event, payload: payload as Record<string, unknown> });
+}
@@ -0,0 +1,70 @@
+import { buildAttachmentPath, uploadAttachment, type PickedFile } from '@/lib/attachments';
+
+// Group rooms, their settings and members (public.room_members). Roles mirror
+// the checks in the room_members policies and the room RPCs, so the UI only
+// offers what the server will accept. Queries live in roomRepository and
+// memberRepository (lib/data).
+
+export type RoomRole = 'owner' | 'admin' | 'member';
+
+export type MemberProfile = {
+  id: string;
+  username: string | null;
+  avatar_url: string | null;
+};
+
+export type RoomInfo = {
+  id: string;
+  name: string | null;
+  topic: string | null;
+  avatar_path: string | null;
+  is_direct: boolean;
+  is_group: boolean;
+  archived_at: string | null;
+};
+
+export type RoomMember = {
+  userId: string;
+  role: RoomRole;
+  profile: MemberProfile | null;
+};
+
+const ROLE_ORDER: Record<RoomRole, number> = { owner: 0, admin: 1, member: 2 };
+
+export const ROLE_LABELS: Record<RoomRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+};
+
+export const canAddMembers = (role: RoomRole | null) => role === 'owner' || role === 'admin';
+export const canEditRoom = canAddMembers;
+
+// Owners and admins promote members and demote admins; the owner is only
+// replaced through a transfer.
+export const canChangeRole = (actorRole: RoomRole | null, targetRole: RoomRole) =>
+  canAddMembers(actorRole) && targetRole !== 'owner';
+
+// Owners remove anyone but themselves, admins remove plain members. Leaving
+// (removing yourself) is always allowed and handled separately.
+export function canRemoveMember(actorRole: RoomRole | null, targetRole: RoomRole) {
+  if (actorRole === 'owner') return targetRole !== 'owner';
+  if (actorRole === 'admin') return targetRole === 'member';
+  return false;
+}
+
+// Owner first, then admins, then members, alphabetically within each role.
+export function sortMembers(members: RoomMember[]) {
+  return [...members].sort(
+    (a, b) =>
+      ROLE_ORDER[a.role] - ROLE_ORDER[b.role] ||
+      (a.profile?.username ?? '').localeCompare(b.profile?.username ?? '')
+  );
+}
+
+// Stores a picked image in the room's attachments folder and returns its path
+export async function uploadRoomAvatar(roomId: string, file: PickedFile) {
+  const path = buildAttachmentPath(roomId, `avatar-${Date.now()}`, file.name);
+  await uploadAttachment({ ...file, kind: 'image', path, uploaded: false });
+  return path;
+}
@@ -1,4 +1,30 @@
-import { createClient } from '@supabase/supabase-js';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { AppState, Platform } from 'react-native';
+import type { Database } from '@/lib/database';
 import { SUPABASE_URL, SUPABASE_ANON_KEY } from '../supabase.config.local';
 
-export const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
+export type AppSupabaseClient = SupabaseClient<Database>;
+
+export const supabase: AppSupabaseClient = createClient<Database>(SUPABASE_URL, SUPABASE_ANON_KEY, {
+  auth: {
+    // Sessions survive app restarts; on web supabase-js uses localStorage
+    ...(Platform.OS !== 'web' ? { storage: AsyncStorage } : {}),
+    persistSession: true,
+    autoRefreshToken: true,
+    // Emailed links are handled by app/auth-callback.tsx
+    detectSessionInUrl: false,
+  },
+});
+
+// Timers are unreliable in the background, so only refresh tokens while the
+// app is in the foreground
+if (Platform.OS !== 'web') {
+  AppState.addEventListener('change', (state) => {
+    if (state === 'active') {
+      supabase.auth.startAutoRefresh();
+    } else {
+      supabase.auth.stopAutoRefresh();
+    }
+  });
+}
@@ -0,0 +1,68 @@
+import * as FileSystem from 'expo-file-system/legacy';
+
+import type { PickedFile } from '@/lib/attachments';
+
+// Voice notes are audio attachments recorded in the composer. This module
+// turns a finished recording into an attachment and tracks which clip in the
+// message list is playing, so starting one pauses any other.
+
+export const WAVEFORM_BARS = 40;
+// Recordings shorter than this are treated as accidental taps
+export const MIN_VOICE_NOTE_MS = 800;
+
+// Metering is reported in dBFS; anything below this counts as silence
+const SILENCE_DB = -60;
+
+// Averages metering samples (dBFS) into WAVEFORM_BARS bars scaled to 0..1.
+export function buildWaveform(samples: number[]) {
+  if (samples.length === 0) return [];
+
+  const levels = samples.map((db) => Math.min(1, Math.max(0, (db - SILENCE_DB) / -SILENCE_DB)));
+  const bars: number[] = [];
+  for (let bar = 0; bar < WAVEFORM_BARS; bar++) {
+    const start = Math.floor((bar * levels.length) / WAVEFORM_BARS);
+    const end = Math.max(start + 1, Math.floor(((bar + 1) * levels.length) / WAVEFORM_BARS));
+    const slice = levels.slice(start, end);
+    if (slice.length === 0) break;
+    bars.push(Math.round((slice.reduce((sum, level) => sum + level, 0) / slice.length) * 100) / 100);
+  }
+  return bars;
+}
+
+export async function toVoiceNoteFile(
+  uri: string,
+  durationMs: number,
+  samples: number[]
+): Promise<PickedFile> {
+  const info = await FileSystem.getInfoAsync(uri);
+  const extension = uri.split('.').pop() || 'm4a';
+  return {
+    uri,
+    name: `voice-note-${new Date().toISOString().replace(/[:.]/g, '-')}.${extension}`,
+    mimeType: 'audio/mp4',
+    size: info.exists ? info.size : 0,
+    durationMs,
+    waveform: buildWaveform(samples),
+  };
+}
+
+let activeClipId: string | null = null;
+const listeners = new Set<() => void>();
+
+export function getActiveClip() {
+  return activeClipId;
+}
+
+// Pass null to stop whatever is playing
+export function setActiveClip(id: string | null) {
+  if (activeClipId === id) return;
+  activeClipId = id;
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeActiveClip(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
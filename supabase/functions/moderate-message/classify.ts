@@ -0,0 +1,87 @@
+// Text classification for moderate-message, backed by OpenAI's moderation
+// endpoint (OPENAI_API_KEY). Flagged text is blocked; text that is not
+// flagged but scores at least WARN_SCORE in some category gets a warning the
+// sender can override.
+
+export type Verdict =
+  | { outcome: 'allow' }
+  | { outcome: 'block' | 'warn'; category: string; reason: string | null };
+
+const MODERATION_URL = 'https://api.openai.com/v1/moderations';
+const MODERATION_MODEL = 'omni-moderation-latest';
+const WARN_SCORE = 0.3;
+
+// OpenAI categories mapped onto the app's (see formatCategory in the app and
+// message_reports_reason_check). Anything unlisted becomes 'other'.
+const CATEGORIES: Record<string, string> = {
+  harassment: 'harassment',
+  'harassment/threatening': 'harassment',
+  hate: 'hate',
+  'hate/threatening': 'hate',
+  sexual: 'sexual',
+  'sexual/minors': 'sexual',
+  violence: 'violence',
+  'violence/graphic': 'violence',
+  'self-harm': 'self_harm',
+  'self-harm/intent': 'self_harm',
+  'self-harm/instructions': 'self_harm',
+};
+
+// Shown under the category, e.g. "Harassment: Threatening"
+const REASONS: Record<string, string> = {
+  'harassment/threatening': 'Threatening',
+  'hate/threatening': 'Threatening',
+  'sexual/minors': 'Involves minors',
+  'violence/graphic': 'Graphic',
+  'self-harm/intent': 'Intent to self-harm',
+  'self-harm/instructions': 'Self-harm instructions',
+};
+
+type ModerationResponse = {
+  results: {
+    flagged: boolean;
+    categories: Record<string, boolean>;
+    category_scores: Record<string, number>;
+  }[];
+};
+
+const toVerdict = (outcome: 'block' | 'warn', category: string): Verdict => ({
+  outcome,
+  category: CATEGORIES[category] ?? 'other',
+  reason: REASONS[category] ?? null,
+});
+
+export async function classify(text: string): Promise<Verdict> {
+  if (!text.trim()) return { outcome: 'allow' };
+
+  const apiKey = Deno.env.get('OPENAI_API_KEY');
+  if (!apiKey) throw new Error('OPENAI_API_KEY is not set');
+
+  const response = await fetch(MODERATION_URL, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ model: MODERATION_MODEL, input: text }),
+  });
+  if (!response.ok) {
+    throw new Error(`Moderation request failed with ${response.status}`);
+  }
+
+  const [result] = ((await response.json()) as ModerationResponse).results;
+  const [topCategory, topScore] = Object.entries(result.category_scores).reduce(
+    (top, entry) => (entry[1] > top[1] ? entry : top),
+    ['', 0] as [string, number]
+  );
+
+  // The flagged category with the highest score explains a block
+  const flagged = Object.keys(result.categories)
+    .filter((category) => result.categories[category])
+    .sort((a, b) => result.category_scores[b] - result.category_scores[a]);
+
+  if (result.flagged && flagged.length > 0) {
+    return toVerdict('block', flagged[0]);
+  }
+  if (topScore >= WARN_SCORE) {
+    return toVerdict('warn', topCategory);
+  }
+  return { outcome: 'allow' };
+}
@@ -0,0 +1,211 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+import type { Verdict } from './classify.ts';
+
+// Request handling for moderate-message (see index.ts for the contract). The
+// database client and the classifier are passed in so tests can replace them.
+
+export type HandlerDeps = {
+  // Service role client
+  admin: SupabaseClient;
+  classify: (text: string) => Promise<Verdict>;
+};
+
+const MESSAGE_COLUMNS =
+  'id, room_id, body, created_at, user_id, client_id, edited_at, deleted_at, reply_to_id, attachment';
+
+type SendRequest = {
+  roomId: string;
+  userId: string;
+  text: string;
+  clientId: string;
+  replyToId?: number | null;
+  attachment?: Record<string, unknown> | null;
+  acknowledgeWarning?: boolean;
+};
+
+type EditRequest = {
+  roomId: string;
+  userId: string;
+  text: string;
+  messageId: number;
+  acknowledgeWarning?: boolean;
+};
+
+class RequestError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+const json = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+// Postgres errors raised by triggers and constraints, as HTTP statuses
+const statusForDbError = (error: { code?: string }) =>
+  error.code === '42501' ? 403 : error.code === '23514' || error.code === '22023' ? 400 : 500;
+
+const rejection = (verdict: Exclude<Verdict, { outcome: 'allow' }>) => ({
+  allowed: false,
+  outcome: verdict.outcome,
+  category: verdict.category,
+  reason: verdict.reason,
+});
+
+async function authenticate(admin: SupabaseClient, request: Request) {
+  const token = request.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) throw new RequestError(401, 'Not authenticated');
+
+  const { data, error } = await admin.auth.getUser(token);
+  if (error || !data.user) throw new RequestError(401, 'Not authenticated');
+  return data.user.id;
+}
+
+async function requireMembership(admin: SupabaseClient, roomId: string, userId: string) {
+  const { data, error } = await admin
+    .from('room_members')
+    .select('user_id')
+    .eq('room_id', roomId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new RequestError(403, 'Only room members can send messages');
+}
+
+// Files a warned message the sender chose to send anyway
+async function flagMessage(
+  admin: SupabaseClient,
+  message: { id: number; room_id: string },
+  verdict: Verdict
+) {
+  if (verdict.outcome !== 'warn') return;
+
+  const { error } = await admin.from('message_reports').insert({
+    message_id: message.id,
+    room_id: message.room_id,
+    reporter_id: null,
+    source: 'moderation',
+    reason: verdict.category,
+    details: verdict.reason,
+  });
+  // The message is already saved, so a failed flag is only logged
+  if (error) console.error('Error flagging message', error);
+}
+
+async function sendMessage({ admin, classify }: HandlerDeps, userId: string, request: SendRequest) {
+  if (!request.clientId) throw new RequestError(400, 'clientId is required');
+  if (!request.text.trim() && !request.attachment) throw new RequestError(400, 'Message is empty');
+
+  await requireMembership(admin, request.roomId, userId);
+
+  // Already saved by an earlier attempt whose response was lost
+  const { data: existing, error: existingError } = await admin
+    .from('messages')
+    .select(MESSAGE_COLUMNS)
+    .eq('client_id', request.clientId)
+    .maybeSingle();
+  if (existingError) throw existingError;
+  if (existing) {
+    if (existing.user_id !== userId) throw new RequestError(409, 'clientId is already in use');
+    return json(200, { allowed: true, message: existing });
+  }
+
+  const verdict = await classify(request.text);
+  if (verdict.outcome === 'block' || (verdict.outcome === 'warn' && !request.acknowledgeWarning)) {
+    return json(200, rejection(verdict));
+  }
+
+  const { data: saved, error } = await admin
+    .from('messages')
+    .insert({
+      room_id: request.roomId,
+      user_id: userId,
+      body: request.text,
+      client_id: request.clientId,
+      reply_to_id: request.replyToId ?? null,
+      attachment: request.attachment ?? null,
+    })
+    .select(MESSAGE_COLUMNS)
+    .single();
+
+  if (error?.code === '23505') {
+    // A concurrent attempt with the same clientId won the race
+    const { data: raced, error: racedError } = await admin
+      .from('messages')
+      .select(MESSAGE_COLUMNS)
+      .eq('client_id', request.clientId)
+      .single();
+    if (racedError) throw racedError;
+    return json(200, { allowed: true, message: raced });
+  }
+  if (error) throw new RequestError(statusForDbError(error), error.message);
+
+  await flagMessage(admin, saved, verdict);
+  return json(200, { allowed: true, message: saved });
+}
+
+async function editMessage({ admin, classify }: HandlerDeps, userId: string, request: EditRequest) {
+  if (typeof request.messageId !== 'number') throw new RequestError(400, 'messageId must be a number');
+
+  const { data: message, error: messageError } = await admin
+    .from('messages')
+    .select(MESSAGE_COLUMNS)
+    .eq('id', request.messageId)
+    .eq('room_id', request.roomId)
+    .maybeSingle();
+  if (messageError) throw messageError;
+  if (!message) throw new RequestError(404, 'Message not found');
+  if (message.user_id !== userId) throw new RequestError(403, 'Only the author can edit a message');
+  if (message.deleted_at) throw new RequestError(409, 'Deleted messages cannot be edited');
+  if (!request.text.trim() && !message.attachment) throw new RequestError(400, 'Message is empty');
+
+  const verdict = await classify(request.text);
+  if (verdict.outcome === 'block' || (verdict.outcome === 'warn' && !request.acknowledgeWarning)) {
+    return json(200, rejection(verdict));
+  }
+
+  // edited_at is stamped by the messages_stamp_edited_at trigger
+  const { data: saved, error } = await admin
+    .from('messages')
+    .update({ body: request.text })
+    .eq('id', request.messageId)
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .select(MESSAGE_COLUMNS)
+    .maybeSingle();
+  if (error) throw new RequestError(statusForDbError(error), error.message);
+  // Deleted in the meantime
+  if (!saved) throw new RequestError(409, 'Deleted messages cannot be edited');
+
+  await flagMessage(admin, saved, verdict);
+  return json(200, { allowed: true, message: saved });
+}
+
+export function createHandler(deps: HandlerDeps) {
+  return async (request: Request) => {
+    if (request.method !== 'POST') return json(405, { error: 'Method not allowed' });
+
+    try {
+      const userId = await authenticate(deps.admin, request);
+      const body = await request.json().catch(() => null);
+      if (!body || typeof body.roomId !== 'string' || typeof body.text !== 'string') {
+        throw new RequestError(400, 'roomId and text are required');
+      }
+      if (body.userId !== undefined && body.userId !== userId) {
+        throw new RequestError(403, 'userId does not match the signed-in user');
+      }
+
+      if (body.messageId !== undefined) {
+        return await editMessage(deps, userId, body as EditRequest);
+      }
+      return await sendMessage(deps, userId, body as SendRequest);
+    } catch (error) {
+      if (error instanceof RequestError) return json(error.status, { error: error.message });
+      console.error('moderate-message failed', error);
+      return json(500, { error: 'Message could not be checked' });
+    }
+  };
+}
@@ -0,0 +1,158 @@
+import assert from 'node:assert/strict';
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+import type { Verdict } from './classify.ts';
+import { createHandler } from './handler.ts';
+
+// Run with `deno test supabase/functions/moderate-message`
+
+type Row = Record<string, unknown>;
+
+const ROOM_ID = 'room-1';
+const AUTHOR_ID = 'author';
+const OTHER_ID = 'other';
+
+// Just enough of the supabase-js query builder for the handler, over
+// in-memory tables
+function fakeAdmin(tables: Record<string, Row[]>, signedInUserId: string) {
+  let nextId = 100;
+
+  const from = (table: string) => {
+    const filters: ((row: Row) => boolean)[] = [];
+    let patch: Row | null = null;
+    let insert: Row | null = null;
+
+    const run = () => {
+      if (insert) {
+        const row = { id: nextId++, created_at: new Date().toISOString(), deleted_at: null, ...insert };
+        tables[table].push(row);
+        return [row];
+      }
+      const matched = tables[table].filter((row) => filters.every((filter) => filter(row)));
+      if (patch) matched.forEach((row) => Object.assign(row, patch));
+      return matched;
+    };
+
+    const builder = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      is: (column: string, value: unknown) => {
+        filters.push((row) => (row[column] ?? null) === value);
+        return builder;
+      },
+      update: (values: Row) => {
+        patch = values;
+        return builder;
+      },
+      insert: (values: Row) => {
+        insert = values;
+        return builder;
+      },
+      maybeSingle: () => Promise.resolve({ data: run()[0] ?? null, error: null }),
+      single: () => Promise.resolve({ data: run()[0], error: null }),
+      then: (resolve: (result: { data: Row[]; error: null }) => void) =>
+        resolve({ data: run(), error: null }),
+    };
+    return builder;
+  };
+
+  return {
+    from,
+    auth: { getUser: () => Promise.resolve({ data: { user: { id: signedInUserId } }, error: null }) },
+  } as unknown as SupabaseClient;
+}
+
+const seed = () => ({
+  room_members: [
+    { room_id: ROOM_ID, user_id: AUTHOR_ID },
+    { room_id: ROOM_ID, user_id: OTHER_ID },
+  ],
+  messages: [
+    { id: 1, room_id: ROOM_ID, user_id: AUTHOR_ID, body: 'hello', client_id: 'c-1', deleted_at: null },
+    { id: 2, room_id: ROOM_ID, user_id: AUTHOR_ID, body: '', client_id: 'c-2', deleted_at: '2026-10-19' },
+  ] as Row[],
+  message_reports: [] as Row[],
+});
+
+const call = async (
+  tables: ReturnType<typeof seed>,
+  userId: string,
+  body: Row,
+  verdict: Verdict = { outcome: 'allow' }
+) => {
+  const handler = createHandler({
+    admin: fakeAdmin(tables, userId),
+    classify: () => Promise.resolve(verdict),
+  });
+  const response = await handler(
+    new Request('http://localhost/moderate-message', {
+      method: 'POST',
+      headers: { Authorization: 'Bearer token' },
+      body: JSON.stringify({ roomId: ROOM_ID, userId, ...body }),
+    })
+  );
+  return { status: response.status, json: await response.json() };
+};
+
+Deno.test('the author can edit their message', async () => {
+  const tables = seed();
+  const { status, json } = await call(tables, AUTHOR_ID, { messageId: 1, text: 'hello again' });
+
+  assert.equal(status, 200);
+  assert.equal(json.allowed, true);
+  assert.equal(json.message.body, 'hello again');
+  assert.equal(tables.messages[0].body, 'hello again');
+});
+
+Deno.test("nobody else can edit someone's message", async () => {
+  const tables = seed();
+  const { status } = await call(tables, OTHER_ID, { messageId: 1, text: 'hijacked' });
+
+  assert.equal(status, 403);
+  assert.equal(tables.messages[0].body, 'hello');
+});
+
+Deno.test('deleted messages cannot be edited', async () => {
+  const tables = seed();
+  const { status } = await call(tables, AUTHOR_ID, { messageId: 2, text: 'back from the dead' });
+
+  assert.equal(status, 409);
+  assert.equal(tables.messages[1].body, '');
+});
+
+Deno.test('edits are moderated like new messages', async () => {
+  const tables = seed();
+  const { json } = await call(
+    tables,
+    AUTHOR_ID,
+    { messageId: 1, text: 'something nasty' },
+    { outcome: 'block', category: 'harassment', reason: null }
+  );
+
+  assert.deepEqual(json, { allowed: false, outcome: 'block', category: 'harassment', reason: null });
+  assert.equal(tables.messages[0].body, 'hello');
+});
+
+Deno.test('an acknowledged warning saves the edit and flags it for moderators', async () => {
+  const tables = seed();
+  const verdict: Verdict = { outcome: 'warn', category: 'violence', reason: null };
+
+  const warned = await call(tables, AUTHOR_ID, { messageId: 1, text: 'borderline' }, verdict);
+  assert.equal(warned.json.outcome, 'warn');
+  assert.equal(tables.messages[0].body, 'hello');
+
+  const { json } = await call(
+    tables,
+    AUTHOR_ID,
+    { messageId: 1, text: 'borderline', acknowledgeWarning: true },
+    verdict
+  );
+  assert.equal(json.allowed, true);
+  assert.equal(tables.messages[0].body, 'borderline');
+  assert.equal(tables.message_reports.length, 1);
+  assert.equal(tables.message_reports[0].source, 'moderation');
+  assert.equal(tables.message_reports[0].reporter_id, null);
+});
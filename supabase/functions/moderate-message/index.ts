@@ -0,0 +1,35 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+import { classify } from './classify.ts';
+import { createHandler } from './handler.ts';
+
+// moderate-message: checks a message and saves it when it passes. The app's
+// side of the contract is mobile/lib/moderation.ts.
+//
+// Request (JSON, with the user's access token in Authorization):
+//   { roomId, userId, text, clientId, replyToId, attachment, acknowledgeWarning? }
+//   { roomId, userId, text, messageId, acknowledgeWarning? }     an edit
+//
+// Response:
+//   { allowed: true, message }                                the saved row
+//   { allowed: false, outcome: 'block' | 'warn', category, reason }
+//
+// The sender is the user the access token belongs to; `userId` must match
+// it. `clientId` is stored in messages.client_id, so a retried send returns
+// the row saved the first time instead of inserting another. A warned message
+// sent again with `acknowledgeWarning` is saved and filed as a 'moderation'
+// report for the room's moderators. Edits replace the body of the sender's
+// own message, which must not be deleted; they are checked like new text.
+//
+// Writes use the service role. Membership is checked here; the triggers on
+// messages (archived rooms, reply parents, mutes) still apply.
+//
+// Deploy with `supabase functions deploy moderate-message` after setting
+// OPENAI_API_KEY (`supabase secrets set OPENAI_API_KEY=...`). The app relies
+// on every field above, so deploy this together with the migrations.
+
+const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+  auth: { persistSession: false },
+});
+
+Deno.serve(createHandler({ admin, classify }));
@@ -0,0 +1,83 @@
+-- Conversations inbox: per-member read marker plus a single RPC that returns
+-- every room the caller belongs to with its latest message and unread count.
+
+alter table public.room_members
+  add column if not exists last_read_at timestamptz not null default now();
+
+create index if not exists messages_room_id_created_at_idx
+  on public.messages (room_id, created_at desc, id desc);
+
+create or replace function public.get_inbox()
+returns table (
+  room_id uuid,
+  name text,
+  is_direct boolean,
+  other_user_id uuid,
+  other_username text,
+  other_avatar_url text,
+  last_message_id bigint,
+  last_message_body text,
+  last_message_at timestamptz,
+  last_message_user_id uuid,
+  unread_count integer
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    r.id,
+    r.name,
+    r.is_direct,
+    other.id,
+    other.username,
+    other.avatar_url,
+    lm.id,
+    lm.body,
+    lm.created_at,
+    lm.user_id,
+    (
+      select count(*)::integer
+      from messages m
+      where m.room_id = r.id
+        and m.created_at > rm.last_read_at
+        and m.user_id is distinct from auth.uid()
+    )
+  from room_members rm
+  join rooms r on r.id = rm.room_id
+  left join lateral (
+    select m.id, m.body, m.created_at, m.user_id
+    from messages m
+    where m.room_id = r.id
+    order by m.created_at desc, m.id desc
+    limit 1
+  ) lm on true
+  left join lateral (
+    select p.id, p.username, p.avatar_url
+    from room_members om
+    join profiles p on p.id = om.user_id
+    where r.is_direct
+      and om.room_id = r.id
+      and om.user_id <> auth.uid()
+    limit 1
+  ) other on true
+  where rm.user_id = auth.uid()
+  order by lm.created_at desc nulls last;
+$$;
+
+-- Marks everything in the room as read for the calling user.
+create or replace function public.mark_room_read(p_room_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update room_members
+  set last_read_at = now()
+  where room_id = p_room_id
+    and user_id = auth.uid();
+$$;
+
+grant execute on function public.get_inbox() to authenticated;
+grant execute on function public.mark_room_read(uuid) to authenticated;
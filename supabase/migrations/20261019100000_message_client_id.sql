@@ -0,0 +1,9 @@
+-- Idempotency key for message sends. The app generates a UUID per composed
+-- message and passes it to the moderate-message function as `clientId`; the
+-- function stores it here so a retried send cannot insert a second row.
+
+alter table public.messages
+  add column if not exists client_id uuid;
+
+alter table public.messages
+  add constraint messages_client_id_key unique (client_id);
@@ -0,0 +1,18 @@
+-- Last-seen timestamp for presence. Live "online" state comes from Realtime
+-- presence; this column is what offline users are shown with.
+
+alter table public.profiles
+  add column if not exists last_seen_at timestamptz;
+
+create or replace function public.touch_last_seen()
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update profiles
+  set last_seen_at = now()
+  where id = auth.uid();
+$$;
+
+grant execute on function public.touch_last_seen() to authenticated;
@@ -0,0 +1,45 @@
+-- Per-member read pointer. last_read_message_id is the newest message the
+-- member has seen and last_read_at its created_at, so unread counts (see
+-- get_inbox) keep comparing against last_read_at.
+
+alter table public.room_members
+  add column if not exists last_read_message_id bigint references public.messages (id) on delete set null;
+
+drop function if exists public.mark_room_read(uuid);
+
+-- Advances the caller's read pointer to p_message_id (or to the newest message
+-- when omitted). The pointer never moves backwards.
+create or replace function public.mark_room_read(p_room_id uuid, p_message_id bigint default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target record;
+begin
+  select m.id, m.created_at
+  into target
+  from messages m
+  where m.room_id = p_room_id
+    and (p_message_id is null or m.id = p_message_id)
+  order by m.created_at desc, m.id desc
+  limit 1;
+
+  if not found then
+    return;
+  end if;
+
+  update room_members
+  set last_read_message_id = target.id,
+      last_read_at = target.created_at
+  where room_id = p_room_id
+    and user_id = auth.uid()
+    and (
+      last_read_at < target.created_at
+      or (last_read_at = target.created_at and coalesce(last_read_message_id, 0) < target.id)
+    );
+end;
+$$;
+
+grant execute on function public.mark_room_read(uuid, bigint) to authenticated;
@@ -0,0 +1,54 @@
+-- Editing and deleting messages. Edits go back through the moderate-message
+-- function (called with `messageId`), which updates the body; the trigger
+-- below stamps edited_at however the body changes. Deletes are soft so every
+-- client can show a tombstone in place of the message.
+
+alter table public.messages
+  add column if not exists edited_at timestamptz,
+  add column if not exists deleted_at timestamptz;
+
+create or replace function public.stamp_message_edited_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.body is distinct from old.body and new.deleted_at is null then
+    new.edited_at := now();
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists messages_stamp_edited_at on public.messages;
+create trigger messages_stamp_edited_at
+  before update of body on public.messages
+  for each row
+  execute function public.stamp_message_edited_at();
+
+-- Authors can delete their own messages. The body is cleared so the text is
+-- gone from the server, not just hidden by the app.
+create or replace function public.delete_message(p_message_id bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update messages
+  set body = '',
+      deleted_at = now()
+  where id = p_message_id
+    and user_id = auth.uid()
+    and deleted_at is null;
+
+  if not found then
+    raise exception 'Message not found or not yours' using errcode = '42501';
+  end if;
+end;
+$$;
+
+grant execute on function public.delete_message(bigint) to authenticated;
+
+-- Full old rows on UPDATE/DELETE so realtime subscribers can tell which room a
+-- removed message belonged to.
+alter table public.messages replica identity full;
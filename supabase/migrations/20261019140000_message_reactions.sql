@@ -0,0 +1,70 @@
+-- Emoji reactions, one row per (message, user, emoji). room_id is copied from
+-- the message so realtime subscribers can filter reactions by room.
+
+create table if not exists public.message_reactions (
+  message_id bigint not null references public.messages (id) on delete cascade,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  emoji text not null check (char_length(emoji) between 1 and 16),
+  room_id uuid not null,
+  created_at timestamptz not null default now(),
+  primary key (message_id, user_id, emoji)
+);
+
+create index if not exists message_reactions_room_id_idx
+  on public.message_reactions (room_id);
+
+create or replace function public.set_reaction_room_id()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  select m.room_id into new.room_id from messages m where m.id = new.message_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists message_reactions_set_room_id on public.message_reactions;
+create trigger message_reactions_set_room_id
+  before insert on public.message_reactions
+  for each row
+  execute function public.set_reaction_room_id();
+
+alter table public.message_reactions enable row level security;
+
+create policy "Members can read reactions in their rooms"
+  on public.message_reactions for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.room_members rm
+      where rm.room_id = message_reactions.room_id
+        and rm.user_id = auth.uid()
+    )
+  );
+
+create policy "Members can react in their rooms"
+  on public.message_reactions for insert
+  to authenticated
+  with check (
+    user_id = auth.uid()
+    and exists (
+      select 1
+      from public.messages m
+      join public.room_members rm on rm.room_id = m.room_id
+      where m.id = message_reactions.message_id
+        and rm.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can remove their own reactions"
+  on public.message_reactions for delete
+  to authenticated
+  using (user_id = auth.uid());
+
+-- New reactions arrive as INSERTs filtered by room_id. Removals are
+-- broadcast on the room's channel instead (see room_broadcasts), since
+-- DELETE events cannot be filtered by room.
+alter table public.message_reactions replica identity full;
+alter publication supabase_realtime add table public.message_reactions;
@@ -0,0 +1,35 @@
+-- Replies: a message can quote an earlier message in the same room.
+--
+-- The moderate-message function receives the parent as `replyToId` next to
+-- roomId/userId/text/clientId and must write it to reply_to_id; the trigger
+-- below rejects parents from other rooms whichever path inserts the row.
+
+alter table public.messages
+  add column if not exists reply_to_id bigint references public.messages (id) on delete set null;
+
+create index if not exists messages_reply_to_id_idx
+  on public.messages (reply_to_id)
+  where reply_to_id is not null;
+
+create or replace function public.check_message_reply_room()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.reply_to_id is not null and not exists (
+    select 1 from messages m where m.id = new.reply_to_id and m.room_id = new.room_id
+  ) then
+    raise exception 'reply_to_id must reference a message in the same room'
+      using errcode = '23514';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists messages_check_reply_room on public.messages;
+create trigger messages_check_reply_room
+  before insert or update of reply_to_id on public.messages
+  for each row
+  execute function public.check_message_reply_room();
@@ -0,0 +1,156 @@
+-- Message attachments. Files live in the private `attachments` bucket under
+-- `<room_id>/<client_id>/<file name>`; the message keeps their metadata in
+-- messages.attachment:
+--
+--   { kind, path, name, mimeType, size, width?, height? }
+--
+-- The moderate-message function receives it as `attachment` alongside the
+-- text and stores it unchanged. A message with an attachment may have an
+-- empty body.
+
+alter table public.messages
+  add column if not exists attachment jsonb;
+
+alter table public.messages
+  drop constraint if exists messages_attachment_check;
+alter table public.messages
+  add constraint messages_attachment_check check (
+    attachment is null
+    or (
+      jsonb_typeof(attachment) = 'object'
+      and attachment ->> 'kind' is not null
+      and attachment ->> 'mimeType' is not null
+      and (attachment ->> 'size')::bigint >= 0
+      -- Only files stored under this message's room
+      and attachment ->> 'path' like room_id::text || '/%'
+    )
+  );
+
+insert into storage.buckets (id, name, public, file_size_limit)
+values ('attachments', 'attachments', false, 26214400)
+on conflict (id) do nothing;
+
+create policy "Members can read room attachments"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'attachments'
+    and exists (
+      select 1 from public.room_members rm
+      where rm.room_id::text = (storage.foldername(name))[1]
+        and rm.user_id = auth.uid()
+    )
+  );
+
+create policy "Members can upload room attachments"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'attachments'
+    and exists (
+      select 1 from public.room_members rm
+      where rm.room_id::text = (storage.foldername(name))[1]
+        and rm.user_id = auth.uid()
+    )
+  );
+
+-- Retried uploads overwrite their own object (upsert)
+create policy "Uploaders can replace their attachments"
+  on storage.objects for update
+  to authenticated
+  using (bucket_id = 'attachments' and owner_id = auth.uid()::text);
+
+create policy "Uploaders can delete their attachments"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'attachments' and owner_id = auth.uid()::text);
+
+-- Deleting a message also drops its attachment metadata; the app removes the
+-- stored file itself.
+create or replace function public.delete_message(p_message_id bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update messages
+  set body = '',
+      attachment = null,
+      deleted_at = now()
+  where id = p_message_id
+    and user_id = auth.uid()
+    and deleted_at is null;
+
+  if not found then
+    raise exception 'Message not found or not yours' using errcode = '42501';
+  end if;
+end;
+$$;
+
+-- The inbox shows "📷 Photo" etc. for attachment-only messages, so it needs
+-- the metadata of the latest message. The return type changes, hence the drop.
+drop function if exists public.get_inbox();
+
+create function public.get_inbox()
+returns table (
+  room_id uuid,
+  name text,
+  is_direct boolean,
+  other_user_id uuid,
+  other_username text,
+  other_avatar_url text,
+  last_message_id bigint,
+  last_message_body text,
+  last_message_at timestamptz,
+  last_message_user_id uuid,
+  last_message_attachment jsonb,
+  unread_count integer
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    r.id,
+    r.name,
+    r.is_direct,
+    other.id,
+    other.username,
+    other.avatar_url,
+    lm.id,
+    lm.body,
+    lm.created_at,
+    lm.user_id,
+    lm.attachment,
+    (
+      select count(*)::integer
+      from messages m
+      where m.room_id = r.id
+        and m.created_at > rm.last_read_at
+        and m.user_id is distinct from auth.uid()
+    )
+  from room_members rm
+  join rooms r on r.id = rm.room_id
+  left join lateral (
+    select m.id, m.body, m.created_at, m.user_id, m.attachment
+    from messages m
+    where m.room_id = r.id
+    order by m.created_at desc, m.id desc
+    limit 1
+  ) lm on true
+  left join lateral (
+    select p.id, p.username, p.avatar_url
+    from room_members om
+    join profiles p on p.id = om.user_id
+    where r.is_direct
+      and om.room_id = r.id
+      and om.user_id <> auth.uid()
+    limit 1
+  ) other on true
+  where rm.user_id = auth.uid()
+  order by lm.created_at desc nulls last;
+$$;
+
+grant execute on function public.get_inbox() to authenticated;
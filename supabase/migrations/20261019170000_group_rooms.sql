@@ -0,0 +1,136 @@
+-- Group rooms and member roles. Groups are named rooms with an explicit member
+-- list; the creator is their owner. room_members.role is now one of
+-- owner/admin/member and decides who may add and remove people:
+--   * owners and admins add people as plain members
+--   * owners remove anyone but themselves, admins remove plain members
+--   * everybody may remove themselves (leave)
+--   * only owners change roles
+-- Open rooms such as "General" (neither direct nor group) stay self-join.
+
+alter table public.rooms
+  add column if not exists is_group boolean not null default false;
+
+alter table public.room_members
+  drop constraint if exists room_members_role_check;
+
+alter table public.room_members
+  add constraint room_members_role_check check (role in ('owner', 'admin', 'member'));
+
+-- Groups only come from create_group_room, which also sets up the owner
+drop policy if exists "Groups are created through create_group_room" on public.rooms;
+create policy "Groups are created through create_group_room"
+  on public.rooms
+  as restrictive
+  for insert
+  to authenticated
+  with check (not is_group);
+
+-- Caller's role in a room, or null when they are not a member. Security
+-- definer so the policies below can use it without recursing into
+-- room_members' own policies.
+create or replace function public.room_role(p_room_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select rm.role
+  from room_members rm
+  where rm.room_id = p_room_id
+    and rm.user_id = auth.uid()
+$$;
+
+grant execute on function public.room_role(uuid) to authenticated;
+
+-- The checks below are restrictive, so they narrow whatever permissive
+-- policies already let members read and write room_members.
+
+drop policy if exists "Role checks for adding room members" on public.room_members;
+create policy "Role checks for adding room members"
+  on public.room_members
+  as restrictive
+  for insert
+  to authenticated
+  with check (
+    role = 'member'
+    and (
+      public.room_role(room_id) in ('owner', 'admin')
+      or exists (
+        select 1
+        from rooms r
+        where r.id = room_members.room_id
+          and (
+            -- Joining an open room
+            (not r.is_direct and not r.is_group and room_members.user_id = auth.uid())
+            -- Setting up a direct room you created
+            or (r.is_direct and r.created_by = auth.uid())
+          )
+      )
+    )
+  );
+
+drop policy if exists "Role checks for removing room members" on public.room_members;
+create policy "Role checks for removing room members"
+  on public.room_members
+  as restrictive
+  for delete
+  to authenticated
+  using (
+    user_id = auth.uid()
+    or (public.room_role(room_id) = 'owner' and role <> 'owner')
+    or (public.room_role(room_id) = 'admin' and role = 'member')
+  );
+
+-- Members keep updating their own row (read pointers); only the owner may
+-- touch other rows, and nobody but the owner may change a role.
+drop policy if exists "Role checks for updating room members" on public.room_members;
+create policy "Role checks for updating room members"
+  on public.room_members
+  as restrictive
+  for update
+  to authenticated
+  using (user_id = auth.uid() or public.room_role(room_id) = 'owner')
+  with check (
+    public.room_role(room_id) = 'owner'
+    or role = public.room_role(room_id)
+  );
+
+-- Creates a group named p_name with the caller as owner and p_member_ids as
+-- members, all in one transaction. Returns the new room id.
+create or replace function public.create_group_room(p_name text, p_member_ids uuid[])
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  new_room_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  if coalesce(btrim(p_name), '') = '' then
+    raise exception 'Group name is required' using errcode = '22023';
+  end if;
+
+  insert into rooms (name, is_direct, is_group, created_by)
+  values (btrim(p_name), false, true, auth.uid())
+  returning id into new_room_id;
+
+  insert into room_members (room_id, user_id, role)
+  values (new_room_id, auth.uid(), 'owner');
+
+  insert into room_members (room_id, user_id, role)
+  select new_room_id, p.id, 'member'
+  from profiles p
+  where p.id = any (coalesce(p_member_ids, '{}'))
+    and p.id <> auth.uid()
+  on conflict do nothing;
+
+  return new_room_id;
+end;
+$$;
+
+grant execute on function public.create_group_room(text, uuid[]) to authenticated;
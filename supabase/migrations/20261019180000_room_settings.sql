@@ -0,0 +1,193 @@
+-- Room settings: topic, avatar and archiving, plus the RPCs behind the room
+-- details screen. Role rules on top of 20261019170000_group_rooms:
+--   * owners and admins rename the room, set its topic and avatar, and
+--     promote members to admin or demote admins
+--   * only the owner transfers ownership or archives the room
+--   * the owner cannot leave without handing ownership over first
+-- Archived rooms stay readable but take no new messages.
+
+alter table public.rooms
+  add column if not exists topic text check (char_length(topic) <= 500),
+  -- Object in the attachments bucket, under the room's folder
+  add column if not exists avatar_path text,
+  add column if not exists archived_at timestamptz;
+
+-- Role changes go through set_member_role / transfer_room_ownership, so
+-- direct updates are limited to members' own rows without touching the role.
+drop policy if exists "Role checks for updating room members" on public.room_members;
+create policy "Role checks for updating room members"
+  on public.room_members
+  as restrictive
+  for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid() and role = public.room_role(room_id));
+
+drop policy if exists "Role checks for removing room members" on public.room_members;
+create policy "Role checks for removing room members"
+  on public.room_members
+  as restrictive
+  for delete
+  to authenticated
+  using (
+    (user_id = auth.uid() and role <> 'owner')
+    or (public.room_role(room_id) = 'owner' and role <> 'owner')
+    or (public.room_role(room_id) = 'admin' and role = 'member')
+  );
+
+create or replace function public.update_room_details(
+  p_room_id uuid,
+  p_name text,
+  p_topic text,
+  p_avatar_path text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if public.room_role(p_room_id) is distinct from 'owner'
+     and public.room_role(p_room_id) is distinct from 'admin' then
+    raise exception 'Only owners and admins can change room details' using errcode = '42501';
+  end if;
+
+  if coalesce(btrim(p_name), '') = '' then
+    raise exception 'Room name is required' using errcode = '22023';
+  end if;
+
+  if p_avatar_path is not null and split_part(p_avatar_path, '/', 1) <> p_room_id::text then
+    raise exception 'Avatar must be stored in the room folder' using errcode = '22023';
+  end if;
+
+  update rooms
+  set name = btrim(p_name),
+      topic = nullif(btrim(p_topic), ''),
+      avatar_path = p_avatar_path
+  where id = p_room_id
+    and not is_direct;
+end;
+$$;
+
+grant execute on function public.update_room_details(uuid, text, text, text) to authenticated;
+
+-- Promotes a member to admin or demotes an admin back to member.
+create or replace function public.set_member_role(p_room_id uuid, p_user_id uuid, p_role text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p_role not in ('admin', 'member') then
+    raise exception 'Role must be admin or member' using errcode = '22023';
+  end if;
+
+  if public.room_role(p_room_id) is distinct from 'owner'
+     and public.room_role(p_room_id) is distinct from 'admin' then
+    raise exception 'Only owners and admins can change roles' using errcode = '42501';
+  end if;
+
+  update room_members
+  set role = p_role
+  where room_id = p_room_id
+    and user_id = p_user_id
+    and role <> 'owner';
+
+  if not found then
+    raise exception 'Member not found' using errcode = 'P0002';
+  end if;
+end;
+$$;
+
+grant execute on function public.set_member_role(uuid, uuid, text) to authenticated;
+
+-- Hands the room to another member; the previous owner stays on as admin.
+create or replace function public.transfer_room_ownership(p_room_id uuid, p_user_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if public.room_role(p_room_id) is distinct from 'owner' then
+    raise exception 'Only the owner can transfer ownership' using errcode = '42501';
+  end if;
+
+  update room_members
+  set role = 'owner'
+  where room_id = p_room_id
+    and user_id = p_user_id
+    and user_id <> auth.uid();
+
+  if not found then
+    raise exception 'Member not found' using errcode = 'P0002';
+  end if;
+
+  update room_members
+  set role = 'admin'
+  where room_id = p_room_id
+    and user_id = auth.uid();
+end;
+$$;
+
+grant execute on function public.transfer_room_ownership(uuid, uuid) to authenticated;
+
+create or replace function public.archive_room(p_room_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if public.room_role(p_room_id) is distinct from 'owner' then
+    raise exception 'Only the owner can archive the room' using errcode = '42501';
+  end if;
+
+  update rooms
+  set archived_at = now()
+  where id = p_room_id
+    and archived_at is null;
+end;
+$$;
+
+grant execute on function public.archive_room(uuid) to authenticated;
+
+-- A trigger rather than a policy so messages sent through the moderation
+-- edge function are covered too.
+create or replace function public.check_room_not_archived()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if exists (select 1 from rooms r where r.id = new.room_id and r.archived_at is not null) then
+    raise exception 'Room is archived' using errcode = '23514';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists check_room_not_archived on public.messages;
+create trigger check_room_not_archived
+  before insert on public.messages
+  for each row
+  execute function public.check_room_not_archived();
+
+-- Live updates for the details screen and the chat header. Realtime cannot
+-- filter DELETE events by room, so removals are broadcast on the room's
+-- channel instead (see member_removal_broadcasts).
+alter table public.room_members replica identity full;
+alter table public.rooms replica identity full;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'rooms'
+  ) then
+    alter publication supabase_realtime add table public.rooms;
+  end if;
+end;
+$$;
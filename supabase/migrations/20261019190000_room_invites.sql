@@ -0,0 +1,183 @@
+-- Room invite links (mobile://invite/<token>). Owners and admins create them;
+-- each link can be revoked, can expire and can be limited to a number of
+-- uses (1 for single-use links). Tokens are only readable by the room's
+-- owners and admins; everyone else goes through get_invite_preview and
+-- accept_room_invite.
+
+create extension if not exists pgcrypto with schema extensions;
+
+create table if not exists public.room_invites (
+  id uuid primary key default gen_random_uuid(),
+  room_id uuid not null references public.rooms (id) on delete cascade,
+  token text not null unique,
+  created_by uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz,
+  max_uses integer check (max_uses > 0),
+  use_count integer not null default 0,
+  revoked_at timestamptz
+);
+
+create index if not exists room_invites_room_id_idx on public.room_invites (room_id);
+
+alter table public.room_invites enable row level security;
+
+drop policy if exists "Admins can read their room's invites" on public.room_invites;
+create policy "Admins can read their room's invites"
+  on public.room_invites
+  for select
+  to authenticated
+  using (public.room_role(room_id) in ('owner', 'admin'));
+
+-- Why an invite cannot be used right now, or null when it can
+create or replace function public.room_invite_problem(invite public.room_invites)
+returns text
+language sql
+stable
+set search_path = public
+as $$
+  select case
+    when invite.revoked_at is not null then 'revoked'
+    when invite.expires_at is not null and invite.expires_at <= now() then 'expired'
+    when invite.max_uses is not null and invite.use_count >= invite.max_uses then 'used_up'
+    when exists (select 1 from rooms r where r.id = invite.room_id and r.archived_at is not null) then 'archived'
+    else null
+  end
+$$;
+
+create or replace function public.create_room_invite(
+  p_room_id uuid,
+  p_expires_at timestamptz default null,
+  p_max_uses integer default null
+)
+returns public.room_invites
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  invite public.room_invites;
+begin
+  if public.room_role(p_room_id) is distinct from 'owner'
+     and public.room_role(p_room_id) is distinct from 'admin' then
+    raise exception 'Only owners and admins can create invites' using errcode = '42501';
+  end if;
+
+  if exists (select 1 from rooms r where r.id = p_room_id and (r.is_direct or r.archived_at is not null)) then
+    raise exception 'This room does not take invites' using errcode = '22023';
+  end if;
+
+  insert into room_invites (room_id, token, expires_at, max_uses)
+  values (
+    p_room_id,
+    -- URL-safe, 24 characters
+    translate(encode(gen_random_bytes(18), 'base64'), '+/', '-_'),
+    p_expires_at,
+    p_max_uses
+  )
+  returning * into invite;
+
+  return invite;
+end;
+$$;
+
+grant execute on function public.create_room_invite(uuid, timestamptz, integer) to authenticated;
+
+create or replace function public.revoke_room_invite(p_invite_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update room_invites
+  set revoked_at = now()
+  where id = p_invite_id
+    and revoked_at is null
+    and public.room_role(room_id) in ('owner', 'admin');
+
+  if not found then
+    raise exception 'Invite not found' using errcode = 'P0002';
+  end if;
+end;
+$$;
+
+grant execute on function public.revoke_room_invite(uuid) to authenticated;
+
+-- What someone opening a link sees before joining. problem is null when the
+-- invite can be accepted.
+create or replace function public.get_invite_preview(p_token text)
+returns table (
+  room_id uuid,
+  name text,
+  topic text,
+  member_count integer,
+  is_member boolean,
+  problem text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    r.id,
+    r.name,
+    r.topic,
+    (select count(*)::integer from room_members rm where rm.room_id = r.id),
+    exists (select 1 from room_members rm where rm.room_id = r.id and rm.user_id = auth.uid()),
+    public.room_invite_problem(i)
+  from room_invites i
+  join rooms r on r.id = i.room_id
+  where i.token = p_token
+    and auth.uid() is not null
+$$;
+
+grant execute on function public.get_invite_preview(text) to authenticated;
+
+-- Adds the caller to the invite's room and returns the room id. Existing
+-- members get the room id back without using up the invite.
+create or replace function public.accept_room_invite(p_token text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invite public.room_invites;
+  problem text;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  select * into invite
+  from room_invites
+  where token = p_token
+  for update;
+
+  if not found then
+    raise exception 'Invite not found' using errcode = 'P0002';
+  end if;
+
+  if exists (select 1 from room_members where room_id = invite.room_id and user_id = auth.uid()) then
+    return invite.room_id;
+  end if;
+
+  problem := public.room_invite_problem(invite);
+  if problem is not null then
+    raise exception 'Invite is %', problem using errcode = '22023', hint = problem;
+  end if;
+
+  insert into room_members (room_id, user_id, role)
+  values (invite.room_id, auth.uid(), 'member');
+
+  update room_invites
+  set use_count = use_count + 1
+  where id = invite.id;
+
+  return invite.room_id;
+end;
+$$;
+
+grant execute on function public.accept_room_invite(text) to authenticated;
@@ -0,0 +1,70 @@
+-- Editable profiles. profiles.username stays the display name shown in chat;
+-- handle is the unique @name people pick (case-insensitive), bio a short
+-- description. Avatars live in the public 'avatars' bucket under the owner's
+-- id and profiles.avatar_url holds their public URL.
+
+alter table public.profiles
+  add column if not exists handle text,
+  add column if not exists bio text;
+
+alter table public.profiles
+  drop constraint if exists profiles_handle_format,
+  drop constraint if exists profiles_bio_length;
+
+alter table public.profiles
+  add constraint profiles_handle_format check (handle ~ '^[a-z0-9_]{3,20}$'),
+  add constraint profiles_bio_length check (char_length(bio) <= 280);
+
+create unique index if not exists profiles_handle_key on public.profiles (lower(handle));
+
+-- True when nobody else has taken p_handle. Security definer so the check
+-- works whatever profile rows the caller can read.
+create or replace function public.is_handle_available(p_handle text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select not exists (
+    select 1
+    from profiles p
+    where lower(p.handle) = lower(p_handle)
+      and p.id is distinct from auth.uid()
+  )
+$$;
+
+grant execute on function public.is_handle_available(text) to authenticated;
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('avatars', 'avatars', true, 5 * 1024 * 1024, array['image/jpeg', 'image/png', 'image/webp'])
+on conflict (id) do nothing;
+
+drop policy if exists "Users can upload their avatar" on storage.objects;
+create policy "Users can upload their avatar"
+  on storage.objects
+  for insert
+  to authenticated
+  with check (bucket_id = 'avatars' and (storage.foldername(name))[1] = auth.uid()::text);
+
+drop policy if exists "Users can replace their avatar" on storage.objects;
+create policy "Users can replace their avatar"
+  on storage.objects
+  for update
+  to authenticated
+  using (bucket_id = 'avatars' and (storage.foldername(name))[1] = auth.uid()::text);
+
+drop policy if exists "Users can delete their avatar" on storage.objects;
+create policy "Users can delete their avatar"
+  on storage.objects
+  for delete
+  to authenticated
+  using (bucket_id = 'avatars' and (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Public URLs need no policy, but listing (to clean up old pictures) does
+drop policy if exists "Users can list their avatars" on storage.objects;
+create policy "Users can list their avatars"
+  on storage.objects
+  for select
+  to authenticated
+  using (bucket_id = 'avatars' and (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,13 @@
+-- Live profile edits for the app's shared profile cache: clients listen for
+-- UPDATEs on profiles and refresh the names and avatars they already show.
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'profiles'
+  ) then
+    alter publication supabase_realtime add table public.profiles;
+  end if;
+end;
+$$;
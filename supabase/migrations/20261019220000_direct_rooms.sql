@@ -0,0 +1,141 @@
+-- Direct rooms are identified by their two participants instead of a
+-- "<user id>:<user id>" key stored in rooms.name. direct_rooms records the
+-- pair of every direct room, ordered so (a, b) and (b, a) are the same row,
+-- and its unique constraint makes get_or_create_direct_room safe when both
+-- people open the conversation at the same moment. Direct rooms have no name;
+-- the app shows the other participant's profile instead.
+
+create table if not exists public.direct_rooms (
+  room_id uuid primary key references public.rooms (id) on delete cascade,
+  user_low uuid not null references public.profiles (id) on delete cascade,
+  user_high uuid not null references public.profiles (id) on delete cascade,
+  constraint direct_rooms_pair_order check (user_low < user_high),
+  constraint direct_rooms_pair_key unique (user_low, user_high)
+);
+
+-- Only get_or_create_direct_room reads or writes it
+alter table public.direct_rooms enable row level security;
+
+-- Existing direct rooms, taken from the old name key. When a pair ended up
+-- with several rooms, the one with the most messages becomes theirs; the
+-- others stay in the inbox but are no longer opened from the Users list.
+insert into public.direct_rooms (room_id, user_low, user_high)
+select distinct on (pair.user_low, pair.user_high) pair.room_id, pair.user_low, pair.user_high
+from (
+  select
+    r.id as room_id,
+    least(split_part(r.name, ':', 1)::uuid, split_part(r.name, ':', 2)::uuid) as user_low,
+    greatest(split_part(r.name, ':', 1)::uuid, split_part(r.name, ':', 2)::uuid) as user_high,
+    (select count(*) from public.messages m where m.room_id = r.id) as message_count
+  from public.rooms r
+  where r.is_direct
+    and r.name ~ '^[0-9a-f-]{36}:[0-9a-f-]{36}$'
+) pair
+where pair.user_low <> pair.user_high
+  and exists (select 1 from public.profiles p where p.id = pair.user_low)
+  and exists (select 1 from public.profiles p where p.id = pair.user_high)
+order by pair.user_low, pair.user_high, pair.message_count desc
+on conflict do nothing;
+
+update public.rooms set name = null where is_direct;
+
+-- Direct rooms only come from get_or_create_direct_room, which also adds both
+-- participants
+drop policy if exists "Direct rooms are created through get_or_create_direct_room" on public.rooms;
+create policy "Direct rooms are created through get_or_create_direct_room"
+  on public.rooms
+  as restrictive
+  for insert
+  to authenticated
+  with check (not is_direct);
+
+-- Same as in the group_rooms migration, minus the direct-room branch: the
+-- creator of a direct room no longer adds members from the client.
+drop policy if exists "Role checks for adding room members" on public.room_members;
+create policy "Role checks for adding room members"
+  on public.room_members
+  as restrictive
+  for insert
+  to authenticated
+  with check (
+    role = 'member'
+    and (
+      public.room_role(room_id) in ('owner', 'admin')
+      or exists (
+        select 1
+        from rooms r
+        where r.id = room_members.room_id
+          -- Joining an open room
+          and not r.is_direct
+          and not r.is_group
+          and room_members.user_id = auth.uid()
+      )
+    )
+  );
+
+-- The direct room between the caller and p_other_user_id, created on first
+-- use. Both participants are (re)added as members, which also repairs a room
+-- one of them left. Returns the room id.
+create or replace function public.get_or_create_direct_room(p_other_user_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  low_user_id uuid;
+  high_user_id uuid;
+  pair_room_id uuid;
+  new_room_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  if p_other_user_id is null or p_other_user_id = auth.uid() then
+    raise exception 'Pick someone else to message' using errcode = '22023';
+  end if;
+
+  if not exists (select 1 from profiles p where p.id = p_other_user_id) then
+    raise exception 'User not found' using errcode = 'P0002';
+  end if;
+
+  low_user_id := least(auth.uid(), p_other_user_id);
+  high_user_id := greatest(auth.uid(), p_other_user_id);
+
+  select dr.room_id into pair_room_id
+  from direct_rooms dr
+  where dr.user_low = low_user_id
+    and dr.user_high = high_user_id;
+
+  if pair_room_id is null then
+    insert into rooms (name, is_direct, is_group, created_by)
+    values (null, true, false, auth.uid())
+    returning id into new_room_id;
+
+    -- A concurrent call for the same pair waits here for the other
+    -- transaction and then finds its row
+    insert into direct_rooms (room_id, user_low, user_high)
+    values (new_room_id, low_user_id, high_user_id)
+    on conflict (user_low, user_high) do nothing
+    returning room_id into pair_room_id;
+
+    if pair_room_id is null then
+      delete from rooms where id = new_room_id;
+
+      select dr.room_id into pair_room_id
+      from direct_rooms dr
+      where dr.user_low = low_user_id
+        and dr.user_high = high_user_id;
+    end if;
+  end if;
+
+  insert into room_members (room_id, user_id, role)
+  values (pair_room_id, low_user_id, 'member'), (pair_room_id, high_user_id, 'member')
+  on conflict (room_id, user_id) do nothing;
+
+  return pair_room_id;
+end;
+$$;
+
+grant execute on function public.get_or_create_direct_room(uuid) to authenticated;
@@ -0,0 +1,197 @@
+-- Reporting messages and blocking people.
+--   * message_reports: one report per person and message, filed through
+--     report_message by a member of the message's room. Reporters see their
+--     own reports; reviewing them is not part of this migration.
+--   * user_blocks: who blocked whom. Blocks are private to the blocker; the
+--     app hides blocked people and collapses their messages, and
+--     get_or_create_direct_room refuses to connect two people when either
+--     has blocked the other.
+
+create table if not exists public.user_blocks (
+  blocker_id uuid not null default auth.uid() references public.profiles (id) on delete cascade,
+  blocked_id uuid not null references public.profiles (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (blocker_id, blocked_id),
+  constraint user_blocks_not_self check (blocker_id <> blocked_id)
+);
+
+alter table public.user_blocks enable row level security;
+
+drop policy if exists "Users see their own blocks" on public.user_blocks;
+create policy "Users see their own blocks"
+  on public.user_blocks
+  for select
+  to authenticated
+  using (blocker_id = auth.uid());
+
+drop policy if exists "Users block people" on public.user_blocks;
+create policy "Users block people"
+  on public.user_blocks
+  for insert
+  to authenticated
+  with check (blocker_id = auth.uid());
+
+drop policy if exists "Users unblock people" on public.user_blocks;
+create policy "Users unblock people"
+  on public.user_blocks
+  for delete
+  to authenticated
+  using (blocker_id = auth.uid());
+
+-- True when either user has blocked the other. Security definer because
+-- each side can only read their own blocks.
+create or replace function public.is_blocked_between(p_user_a uuid, p_user_b uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from user_blocks b
+    where (b.blocker_id = p_user_a and b.blocked_id = p_user_b)
+       or (b.blocker_id = p_user_b and b.blocked_id = p_user_a)
+  )
+$$;
+
+-- Would tell anyone who blocked whom, so clients may not call it
+revoke execute on function public.is_blocked_between(uuid, uuid) from public, anon, authenticated;
+
+create table if not exists public.message_reports (
+  id bigint generated always as identity primary key,
+  message_id bigint not null references public.messages (id) on delete cascade,
+  room_id uuid not null references public.rooms (id) on delete cascade,
+  reporter_id uuid not null references public.profiles (id) on delete cascade,
+  reason text not null,
+  details text,
+  created_at timestamptz not null default now(),
+  constraint message_reports_reason_check
+    check (reason in ('spam', 'harassment', 'hate', 'sexual', 'violence', 'self_harm', 'other')),
+  constraint message_reports_details_length check (char_length(details) <= 500),
+  constraint message_reports_once unique (message_id, reporter_id)
+);
+
+create index if not exists message_reports_room_id_idx on public.message_reports (room_id, created_at desc);
+
+-- Written only through report_message
+alter table public.message_reports enable row level security;
+
+drop policy if exists "Reporters see their own reports" on public.message_reports;
+create policy "Reporters see their own reports"
+  on public.message_reports
+  for select
+  to authenticated
+  using (reporter_id = auth.uid());
+
+-- Reports p_message_id on behalf of the caller, who must be in its room.
+-- Reporting the same message again replaces the earlier reason.
+create or replace function public.report_message(p_message_id bigint, p_reason text, p_details text default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target record;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  select m.room_id, m.user_id
+  into target
+  from messages m
+  where m.id = p_message_id;
+
+  if not found then
+    raise exception 'Message not found' using errcode = 'P0002';
+  end if;
+
+  if public.room_role(target.room_id) is null then
+    raise exception 'Only room members can report messages' using errcode = '42501';
+  end if;
+
+  if target.user_id = auth.uid() then
+    raise exception 'You cannot report your own message' using errcode = '22023';
+  end if;
+
+  insert into message_reports (message_id, room_id, reporter_id, reason, details)
+  values (p_message_id, target.room_id, auth.uid(), p_reason, nullif(btrim(p_details), ''))
+  on conflict (message_id, reporter_id) do update
+    set reason = excluded.reason,
+        details = excluded.details,
+        created_at = now();
+end;
+$$;
+
+grant execute on function public.report_message(bigint, text, text) to authenticated;
+
+-- As in the direct_rooms migration, plus the block check: nobody can open
+-- (or rejoin) a direct room with someone who blocked them, or whom they
+-- blocked.
+create or replace function public.get_or_create_direct_room(p_other_user_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  low_user_id uuid;
+  high_user_id uuid;
+  pair_room_id uuid;
+  new_room_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  if p_other_user_id is null or p_other_user_id = auth.uid() then
+    raise exception 'Pick someone else to message' using errcode = '22023';
+  end if;
+
+  if not exists (select 1 from profiles p where p.id = p_other_user_id) then
+    raise exception 'User not found' using errcode = 'P0002';
+  end if;
+
+  if public.is_blocked_between(auth.uid(), p_other_user_id) then
+    raise exception 'You cannot message this person' using errcode = '42501';
+  end if;
+
+  low_user_id := least(auth.uid(), p_other_user_id);
+  high_user_id := greatest(auth.uid(), p_other_user_id);
+
+  select dr.room_id into pair_room_id
+  from direct_rooms dr
+  where dr.user_low = low_user_id
+    and dr.user_high = high_user_id;
+
+  if pair_room_id is null then
+    insert into rooms (name, is_direct, is_group, created_by)
+    values (null, true, false, auth.uid())
+    returning id into new_room_id;
+
+    -- A concurrent call for the same pair waits here for the other
+    -- transaction and then finds its row
+    insert into direct_rooms (room_id, user_low, user_high)
+    values (new_room_id, low_user_id, high_user_id)
+    on conflict (user_low, user_high) do nothing
+    returning room_id into pair_room_id;
+
+    if pair_room_id is null then
+      delete from rooms where id = new_room_id;
+
+      select dr.room_id into pair_room_id
+      from direct_rooms dr
+      where dr.user_low = low_user_id
+        and dr.user_high = high_user_id;
+    end if;
+  end if;
+
+  insert into room_members (room_id, user_id, role)
+  values (pair_room_id, low_user_id, 'member'), (pair_room_id, high_user_id, 'member')
+  on conflict (room_id, user_id) do nothing;
+
+  return pair_room_id;
+end;
+$$;
@@ -0,0 +1,468 @@
+-- Review queue for reported and flagged messages.
+--   * Moderators are app-wide moderators (profiles.is_moderator, set with the
+--     service role) and the owners and admins of the message's room.
+--   * message_reports gains a status, so reviewed reports leave the queue, and
+--     a source: 'user' for reports filed through report_message, 'moderation'
+--     for flags the moderate-message function files (with the service role,
+--     no reporter) when someone sends a warned message anyway.
+--   * resolve_report dismisses the reports on a message or acts on it: delete
+--     the message, mute its author in the room or remove them from it. Every
+--     decision is written to moderation_actions.
+--   * Deleting is the same soft delete as delete_message, so open chats get
+--     the UPDATE over realtime and show the placeholder straight away.
+--     The attachment metadata is cleared with it; the moderation screen then
+--     removes the file from storage (see moderated_attachments).
+
+alter table public.profiles add column if not exists is_moderator boolean not null default false;
+
+-- Clients write their own profile row, so they must not be able to make
+-- themselves moderators. Security definer functions and the service role run
+-- as other roles and are not affected.
+create or replace function public.protect_moderator_flag()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if current_user in ('anon', 'authenticated')
+    and new.is_moderator is distinct from (case when tg_op = 'UPDATE' then old.is_moderator else false end)
+  then
+    raise exception 'Moderators are appointed by the app team' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists protect_moderator_flag on public.profiles;
+create trigger protect_moderator_flag
+  before insert or update on public.profiles
+  for each row
+  execute function public.protect_moderator_flag();
+
+create or replace function public.is_app_moderator()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((select p.is_moderator from profiles p where p.id = auth.uid()), false)
+$$;
+
+-- Whether the caller may review reports in p_room_id
+create or replace function public.can_moderate_room(p_room_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.is_app_moderator() or public.room_role(p_room_id) in ('owner', 'admin')
+$$;
+
+-- Whether the caller moderates anything at all; the app shows the queue
+-- only to them
+create or replace function public.has_moderation_access()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.is_app_moderator()
+    or exists (
+      select 1
+      from room_members rm
+      where rm.user_id = auth.uid()
+        and rm.role in ('owner', 'admin')
+    )
+$$;
+
+grant execute on function public.is_app_moderator() to authenticated;
+grant execute on function public.can_moderate_room(uuid) to authenticated;
+grant execute on function public.has_moderation_access() to authenticated;
+
+alter table public.message_reports
+  alter column reporter_id drop not null,
+  add column if not exists source text not null default 'user',
+  add column if not exists status text not null default 'open',
+  add column if not exists resolved_by uuid references public.profiles (id) on delete set null,
+  add column if not exists resolved_at timestamptz;
+
+alter table public.message_reports
+  drop constraint if exists message_reports_source_check,
+  add constraint message_reports_source_check
+    check (source in ('user', 'moderation')),
+  drop constraint if exists message_reports_reporter_check,
+  add constraint message_reports_reporter_check
+    check (source = 'moderation' or reporter_id is not null),
+  drop constraint if exists message_reports_status_check,
+  add constraint message_reports_status_check
+    check (status in ('open', 'dismissed', 'actioned'));
+
+create index if not exists message_reports_open_idx
+  on public.message_reports (message_id)
+  where status = 'open';
+
+drop policy if exists "Moderators see reports in their rooms" on public.message_reports;
+create policy "Moderators see reports in their rooms"
+  on public.message_reports
+  for select
+  to authenticated
+  using (public.can_moderate_room(room_id));
+
+-- As in the reports_and_blocks migration, except that reporting a message
+-- again after it was reviewed puts it back in the queue.
+create or replace function public.report_message(p_message_id bigint, p_reason text, p_details text default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target record;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  select m.room_id, m.user_id
+  into target
+  from messages m
+  where m.id = p_message_id;
+
+  if not found then
+    raise exception 'Message not found' using errcode = 'P0002';
+  end if;
+
+  if public.room_role(target.room_id) is null then
+    raise exception 'Only room members can report messages' using errcode = '42501';
+  end if;
+
+  if target.user_id = auth.uid() then
+    raise exception 'You cannot report your own message' using errcode = '22023';
+  end if;
+
+  insert into message_reports (message_id, room_id, reporter_id, reason, details)
+  values (p_message_id, target.room_id, auth.uid(), p_reason, nullif(btrim(p_details), ''))
+  on conflict (message_id, reporter_id) do update
+    set reason = excluded.reason,
+        details = excluded.details,
+        created_at = now(),
+        status = 'open',
+        resolved_by = null,
+        resolved_at = null;
+end;
+$$;
+
+-- Muted members stay in the room and can read it, but cannot post until
+-- muted_until passes. 'infinity' mutes until a moderator says otherwise.
+alter table public.room_members add column if not exists muted_until timestamptz;
+
+-- Members update their own row (read pointers), so only resolve_report may
+-- change a mute
+create or replace function public.protect_member_mute()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if current_user in ('anon', 'authenticated') and new.muted_until is distinct from old.muted_until then
+    raise exception 'Only moderators can mute members' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists protect_member_mute on public.room_members;
+create trigger protect_member_mute
+  before update on public.room_members
+  for each row
+  execute function public.protect_member_mute();
+
+create or replace function public.check_author_not_muted()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if exists (
+    select 1
+    from room_members rm
+    where rm.room_id = new.room_id
+      and rm.user_id = new.user_id
+      and rm.muted_until > now()
+  ) then
+    raise exception 'You are muted in this room' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists check_author_not_muted on public.messages;
+create trigger check_author_not_muted
+  before insert on public.messages
+  for each row
+  execute function public.check_author_not_muted();
+
+-- Audit log of moderation decisions. Written only by resolve_report.
+create table if not exists public.moderation_actions (
+  id bigint generated always as identity primary key,
+  room_id uuid not null references public.rooms (id) on delete cascade,
+  message_id bigint references public.messages (id) on delete set null,
+  actor_id uuid references public.profiles (id) on delete set null,
+  target_user_id uuid references public.profiles (id) on delete set null,
+  action text not null,
+  -- The resolved report ids, plus the mute length for mute_author
+  details jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  constraint moderation_actions_action_check
+    check (action in ('dismiss', 'delete_message', 'mute_author', 'remove_author'))
+);
+
+create index if not exists moderation_actions_room_id_idx
+  on public.moderation_actions (room_id, created_at desc);
+
+alter table public.moderation_actions enable row level security;
+
+drop policy if exists "Moderators see actions in their rooms" on public.moderation_actions;
+create policy "Moderators see actions in their rooms"
+  on public.moderation_actions
+  for select
+  to authenticated
+  using (public.can_moderate_room(room_id));
+
+-- Reported messages with open reports in rooms the caller moderates, oldest
+-- report first. `reports` holds every open report on the message.
+create or replace function public.get_moderation_queue()
+returns table (
+  message_id bigint,
+  room_id uuid,
+  room_name text,
+  room_is_direct boolean,
+  author_id uuid,
+  author_username text,
+  body text,
+  attachment jsonb,
+  message_created_at timestamptz,
+  deleted_at timestamptz,
+  reports jsonb,
+  first_reported_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    m.id,
+    m.room_id,
+    r.name,
+    r.is_direct,
+    m.user_id,
+    author.username,
+    m.body,
+    m.attachment,
+    m.created_at,
+    m.deleted_at,
+    jsonb_agg(
+      jsonb_build_object(
+        'id', mr.id,
+        'reporter_id', mr.reporter_id,
+        'reporter_username', reporter.username,
+        'reason', mr.reason,
+        'details', mr.details,
+        'source', mr.source,
+        'created_at', mr.created_at
+      )
+      order by mr.created_at
+    ),
+    min(mr.created_at)
+  from message_reports mr
+  join messages m on m.id = mr.message_id
+  join rooms r on r.id = m.room_id
+  left join profiles author on author.id = m.user_id
+  left join profiles reporter on reporter.id = mr.reporter_id
+  where mr.status = 'open'
+    and public.can_moderate_room(mr.room_id)
+  group by m.id, r.id, author.id
+  order by min(mr.created_at)
+$$;
+
+grant execute on function public.get_moderation_queue() to authenticated;
+
+-- p_message_id with up to p_radius messages before and after it, in order.
+-- Empty unless the caller moderates the message's room.
+create or replace function public.get_message_context(p_message_id bigint, p_radius integer default 3)
+returns table (
+  id bigint,
+  user_id uuid,
+  username text,
+  body text,
+  attachment jsonb,
+  created_at timestamptz,
+  deleted_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with target as (
+    select m.id, m.room_id, m.created_at
+    from messages m
+    where m.id = p_message_id
+      and public.can_moderate_room(m.room_id)
+  ),
+  context as (
+    (
+      select m.*
+      from messages m, target t
+      where m.room_id = t.room_id
+        and (m.created_at, m.id) < (t.created_at, t.id)
+      order by m.created_at desc, m.id desc
+      limit p_radius
+    )
+    union all
+    (
+      select m.*
+      from messages m
+      join target t on t.id = m.id
+    )
+    union all
+    (
+      select m.*
+      from messages m, target t
+      where m.room_id = t.room_id
+        and (m.created_at, m.id) > (t.created_at, t.id)
+      order by m.created_at, m.id
+      limit p_radius
+    )
+  )
+  select c.id, c.user_id, p.username, c.body, c.attachment, c.created_at, c.deleted_at
+  from context c
+  left join profiles p on p.id = c.user_id
+  order by c.created_at, c.id
+$$;
+
+grant execute on function public.get_message_context(bigint, integer) to authenticated;
+
+-- Resolves the open reports on p_message_id with p_action and logs it:
+--   dismiss         nothing wrong, the reports are closed
+--   delete_message  soft delete, as delete_message does for the author
+--   mute_author     mute for p_mute_minutes, or until further notice when null
+--   remove_author   take the author out of the room
+-- Nobody can act against the room owner, and only owners and app moderators
+-- against admins.
+create or replace function public.resolve_report(
+  p_message_id bigint,
+  p_action text,
+  p_mute_minutes integer default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target record;
+  author_role text;
+  resolved_ids jsonb;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  if p_action is null or p_action not in ('dismiss', 'delete_message', 'mute_author', 'remove_author') then
+    raise exception 'Unknown moderation action' using errcode = '22023';
+  end if;
+
+  if p_mute_minutes is not null and p_mute_minutes <= 0 then
+    raise exception 'Mute length must be positive' using errcode = '22023';
+  end if;
+
+  select m.id, m.room_id, m.user_id
+  into target
+  from messages m
+  where m.id = p_message_id;
+
+  if not found then
+    raise exception 'Message not found' using errcode = 'P0002';
+  end if;
+
+  if not public.can_moderate_room(target.room_id) then
+    raise exception 'Only moderators can review reports' using errcode = '42501';
+  end if;
+
+  if p_action in ('mute_author', 'remove_author') then
+    select rm.role into author_role
+    from room_members rm
+    where rm.room_id = target.room_id
+      and rm.user_id = target.user_id;
+
+    if author_role is null then
+      raise exception 'The author is no longer in this room' using errcode = 'P0002';
+    end if;
+
+    if target.user_id = auth.uid() then
+      raise exception 'You cannot act on your own messages' using errcode = '22023';
+    end if;
+
+    if author_role = 'owner'
+      or (
+        author_role = 'admin'
+        and public.room_role(target.room_id) is distinct from 'owner'
+        and not public.is_app_moderator()
+      )
+    then
+      raise exception 'You cannot act on this member' using errcode = '42501';
+    end if;
+  end if;
+
+  if p_action = 'delete_message' then
+    update messages
+    set body = '',
+        attachment = null,
+        deleted_at = now()
+    where id = p_message_id
+      and deleted_at is null;
+  elsif p_action = 'mute_author' then
+    update room_members
+    set muted_until = case
+      when p_mute_minutes is null then 'infinity'::timestamptz
+      else now() + make_interval(mins => p_mute_minutes)
+    end
+    where room_id = target.room_id
+      and user_id = target.user_id;
+  elsif p_action = 'remove_author' then
+    delete from room_members
+    where room_id = target.room_id
+      and user_id = target.user_id;
+  end if;
+
+  with resolved as (
+    update message_reports
+    set status = case when p_action = 'dismiss' then 'dismissed' else 'actioned' end,
+        resolved_by = auth.uid(),
+        resolved_at = now()
+    where message_id = p_message_id
+      and status = 'open'
+    returning id
+  )
+  select coalesce(jsonb_agg(resolved.id), '[]'::jsonb) into resolved_ids
+  from resolved;
+
+  insert into moderation_actions (room_id, message_id, actor_id, target_user_id, action, details)
+  values (
+    target.room_id,
+    p_message_id,
+    auth.uid(),
+    target.user_id,
+    p_action,
+    jsonb_strip_nulls(jsonb_build_object('report_ids', resolved_ids, 'mute_minutes', p_mute_minutes))
+  );
+end;
+$$;
+
+grant execute on function public.resolve_report(bigint, text, integer) to authenticated;
@@ -0,0 +1,20 @@
+-- Without a `with check`, the update policy on attachments checked the new
+-- row only against its `using` clause (bucket and owner), so an uploader
+-- could move or rename an object into the folder of a room they are not in.
+-- Updated objects must now stay in a room folder the uploader belongs to, as
+-- for uploads.
+
+drop policy if exists "Uploaders can replace their attachments" on storage.objects;
+create policy "Uploaders can replace their attachments"
+  on storage.objects for update
+  to authenticated
+  using (bucket_id = 'attachments' and owner_id = auth.uid()::text)
+  with check (
+    bucket_id = 'attachments'
+    and owner_id = auth.uid()::text
+    and exists (
+      select 1 from public.room_members rm
+      where rm.room_id::text = (storage.foldername(name))[1]
+        and rm.user_id = auth.uid()
+    )
+  );
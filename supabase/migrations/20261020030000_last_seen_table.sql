@@ -0,0 +1,51 @@
+-- Moves last-seen times out of profiles. profiles is in the realtime
+-- publication so clients hear about new names and avatars, and presence
+-- bumped last_seen_at for every signed-in user once a minute, sending each
+-- of those updates to every client. user_last_seen is not published; the
+-- app reads it with the profile (see ProfileSummary).
+
+create table if not exists public.user_last_seen (
+  user_id uuid primary key references public.profiles (id) on delete cascade,
+  last_seen_at timestamptz not null default now()
+);
+
+alter table public.user_last_seen enable row level security;
+
+-- Readable like profiles; written only by touch_last_seen
+drop policy if exists "Signed-in users see when people were last seen" on public.user_last_seen;
+create policy "Signed-in users see when people were last seen"
+  on public.user_last_seen
+  for select
+  to authenticated
+  using (true);
+
+do $$
+begin
+  if exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'profiles' and column_name = 'last_seen_at'
+  ) then
+    insert into public.user_last_seen (user_id, last_seen_at)
+    select id, last_seen_at
+    from public.profiles
+    where last_seen_at is not null
+    on conflict (user_id) do nothing;
+
+    alter table public.profiles drop column last_seen_at;
+  end if;
+end;
+$$;
+
+create or replace function public.touch_last_seen()
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into user_last_seen (user_id, last_seen_at)
+  values (auth.uid(), now())
+  on conflict (user_id) do update
+    set last_seen_at = excluded.last_seen_at;
+$$;
+
+grant execute on function public.touch_last_seen() to authenticated;
@@ -0,0 +1,33 @@
+-- get_or_create_direct_room refuses to connect two people when either has
+-- blocked the other, but a direct room opened before the block stayed
+-- usable. Sending into a direct room is now refused as well, in a trigger so
+-- messages saved by the moderation edge function are covered too. The room
+-- and its history stay; unblocking makes it usable again.
+
+create or replace function public.check_direct_room_not_blocked()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if exists (
+    select 1
+    from rooms r
+    join room_members rm on rm.room_id = r.id
+    where r.id = new.room_id
+      and r.is_direct
+      and rm.user_id <> new.user_id
+      and is_blocked_between(new.user_id, rm.user_id)
+  ) then
+    raise exception 'You cannot message this person' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists check_direct_room_not_blocked on public.messages;
+create trigger check_direct_room_not_blocked
+  before insert on public.messages
+  for each row
+  execute function public.check_direct_room_not_blocked();
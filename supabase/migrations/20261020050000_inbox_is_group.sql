@@ -0,0 +1,69 @@
+-- The chat tab falls back to the open "General" room, found by name in the
+-- local cache. Groups can be named "General" too, so cached rooms need to
+-- know whether they are groups. The return type changes, hence the drop.
+drop function if exists public.get_inbox();
+
+create function public.get_inbox()
+returns table (
+  room_id uuid,
+  name text,
+  is_direct boolean,
+  is_group boolean,
+  other_user_id uuid,
+  other_username text,
+  other_avatar_url text,
+  last_message_id bigint,
+  last_message_body text,
+  last_message_at timestamptz,
+  last_message_user_id uuid,
+  last_message_attachment jsonb,
+  unread_count integer
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    r.id,
+    r.name,
+    r.is_direct,
+    r.is_group,
+    other.id,
+    other.username,
+    other.avatar_url,
+    lm.id,
+    lm.body,
+    lm.created_at,
+    lm.user_id,
+    lm.attachment,
+    (
+      select count(*)::integer
+      from messages m
+      where m.room_id = r.id
+        and m.created_at > rm.last_read_at
+        and m.user_id is distinct from auth.uid()
+    )
+  from room_members rm
+  join rooms r on r.id = rm.room_id
+  left join lateral (
+    select m.id, m.body, m.created_at, m.user_id, m.attachment
+    from messages m
+    where m.room_id = r.id
+    order by m.created_at desc, m.id desc
+    limit 1
+  ) lm on true
+  left join lateral (
+    select p.id, p.username, p.avatar_url
+    from room_members om
+    join profiles p on p.id = om.user_id
+    where r.is_direct
+      and om.room_id = r.id
+      and om.user_id <> auth.uid()
+    limit 1
+  ) other on true
+  where rm.user_id = auth.uid()
+  order by lm.created_at desc nulls last;
+$$;
+
+grant execute on function public.get_inbox() to authenticated;
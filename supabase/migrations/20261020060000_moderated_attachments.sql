@@ -0,0 +1,17 @@
+-- A message deleted through resolve_report loses its attachment metadata, but
+-- the file stayed in storage, where any member who had its path could still
+-- open it. Moderators of a room may now remove its attachments too; the
+-- moderation screen does so after deleting a message.
+
+drop policy if exists "Moderators can delete attachments in their rooms" on storage.objects;
+create policy "Moderators can delete attachments in their rooms"
+  on storage.objects for delete
+  to authenticated
+  using (
+    bucket_id = 'attachments'
+    and exists (
+      select 1 from public.rooms r
+      where r.id::text = (storage.foldername(name))[1]
+        and public.can_moderate_room(r.id)
+    )
+  );
@@ -0,0 +1,62 @@
+-- Removals are announced on the room's own channel instead of through
+-- postgres_changes. Realtime cannot filter DELETE events by room, so every
+-- open room used to receive every removal in the app and drop the ones that
+-- were not its own, which also told each client about rooms it is not in.
+-- A trigger broadcasts the removal to `room:<id>` instead.
+--
+-- Room channels are private: only members may join `room:<id>` and send on
+-- it (the typing indicator). The app opens them with `private: true`.
+
+drop policy if exists "Members receive room broadcasts" on realtime.messages;
+create policy "Members receive room broadcasts"
+  on realtime.messages
+  for select
+  to authenticated
+  using (
+    realtime.topic() like 'room:%'
+    and exists (
+      select 1
+      from public.room_members rm
+      where rm.room_id::text = substr(realtime.topic(), length('room:') + 1)
+        and rm.user_id = auth.uid()
+    )
+  );
+
+drop policy if exists "Members broadcast in their rooms" on realtime.messages;
+create policy "Members broadcast in their rooms"
+  on realtime.messages
+  for insert
+  to authenticated
+  with check (
+    realtime.messages.extension = 'broadcast'
+    and realtime.topic() like 'room:%'
+    and exists (
+      select 1
+      from public.room_members rm
+      where rm.room_id::text = substr(realtime.topic(), length('room:') + 1)
+        and rm.user_id = auth.uid()
+    )
+  );
+
+create or replace function public.broadcast_reaction_removed()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform realtime.send(
+    jsonb_build_object('message_id', old.message_id, 'user_id', old.user_id, 'emoji', old.emoji),
+    'reaction_removed',
+    'room:' || old.room_id,
+    true
+  );
+  return old;
+end;
+$$;
+
+drop trigger if exists broadcast_reaction_removed on public.message_reactions;
+create trigger broadcast_reaction_removed
+  after delete on public.message_reactions
+  for each row
+  execute function public.broadcast_reaction_removed();
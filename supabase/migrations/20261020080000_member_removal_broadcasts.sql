@@ -0,0 +1,42 @@
+-- Members leaving or being removed, announced the same way as removed
+-- reactions (see room_broadcasts): to the room's channel, where the details
+-- screen and the chat header listen, and to the person's own inbox channel,
+-- so the room leaves their inbox straight away.
+--
+-- Inbox channels (`inbox:<user id>`) are private to their user.
+
+drop policy if exists "Users receive their inbox broadcasts" on realtime.messages;
+create policy "Users receive their inbox broadcasts"
+  on realtime.messages
+  for select
+  to authenticated
+  using (realtime.topic() = 'inbox:' || auth.uid()::text);
+
+create or replace function public.broadcast_member_removed()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform realtime.send(
+    jsonb_build_object('user_id', old.user_id),
+    'member_removed',
+    'room:' || old.room_id,
+    true
+  );
+  perform realtime.send(
+    jsonb_build_object('room_id', old.room_id),
+    'room_left',
+    'inbox:' || old.user_id,
+    true
+  );
+  return old;
+end;
+$$;
+
+drop trigger if exists broadcast_member_removed on public.room_members;
+create trigger broadcast_member_removed
+  after delete on public.room_members
+  for each row
+  execute function public.broadcast_member_removed();
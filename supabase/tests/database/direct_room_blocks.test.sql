@@ -0,0 +1,69 @@
+-- Run with `supabase test db`
+begin;
+create extension if not exists pgtap with schema extensions;
+
+select plan(5);
+
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-0000000000a1', 'ada@example.com'),
+  ('00000000-0000-0000-0000-0000000000b2', 'bob@example.com');
+
+insert into public.profiles (id, username) values
+  ('00000000-0000-0000-0000-0000000000a1', 'Ada'),
+  ('00000000-0000-0000-0000-0000000000b2', 'Bob')
+on conflict (id) do nothing;
+
+insert into public.rooms (id, name, is_direct, is_group, created_by) values
+  ('00000000-0000-0000-0000-0000000000d1', null, true, false, '00000000-0000-0000-0000-0000000000a1'),
+  ('00000000-0000-0000-0000-0000000000e1', 'Climbing', false, true, '00000000-0000-0000-0000-0000000000a1');
+
+insert into public.room_members (room_id, user_id, role) values
+  ('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000a1', 'member'),
+  ('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000b2', 'member'),
+  ('00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000a1', 'owner'),
+  ('00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000b2', 'member');
+
+select lives_ok(
+  $$ insert into public.messages (room_id, user_id, body)
+     values ('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000a1', 'hi Bob') $$,
+  'people can message each other in their direct room'
+);
+
+-- Ada blocks Bob after their direct room was created
+insert into public.user_blocks (blocker_id, blocked_id)
+values ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000b2');
+
+select throws_ok(
+  $$ insert into public.messages (room_id, user_id, body)
+     values ('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000b2', 'hello?') $$,
+  '42501',
+  'You cannot message this person',
+  'the blocked person can no longer send in the existing direct room'
+);
+
+select throws_ok(
+  $$ insert into public.messages (room_id, user_id, body)
+     values ('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000a1', 'bye') $$,
+  '42501',
+  'You cannot message this person',
+  'the blocker cannot send there either'
+);
+
+select lives_ok(
+  $$ insert into public.messages (room_id, user_id, body)
+     values ('00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000b2', 'hi all') $$,
+  'blocks do not stop anyone from sending in group rooms'
+);
+
+delete from public.user_blocks
+where blocker_id = '00000000-0000-0000-0000-0000000000a1'
+  and blocked_id = '00000000-0000-0000-0000-0000000000b2';
+
+select lives_ok(
+  $$ insert into public.messages (room_id, user_id, body)
+     values ('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000b2', 'hi again') $$,
+  'unblocking makes the direct room usable again'
+);
+
+select * from finish();
+rollback;